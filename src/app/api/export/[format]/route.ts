@@ -0,0 +1,103 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { type ExportSource, toScanExportSource } from "@/lib/export-source";
+import { isViolationSeverity } from "@/lib/junit-exporter";
+import {
+  exportScan,
+  isScanExportFormat,
+  SCAN_EXPORT_FORMATS,
+} from "@/lib/scan-exporters";
+import { getScanJob } from "@/lib/scan-jobs";
+import { getSqliteHistoryStore } from "@/lib/sqlite-history-store";
+
+interface RouteContext {
+  params: Promise<{ format: string }>;
+}
+
+type SourceResult =
+  | { source: ExportSource }
+  | { error: string; status: number };
+
+/**
+ * Finds the scan to export: a finished background job (its multi-agent
+ * result, or its response for single and journey scans) or a stored scan
+ */
+async function findSource(params: URLSearchParams): Promise<SourceResult> {
+  const jobId = params.get("jobId");
+  if (jobId) {
+    const job = await getScanJob(jobId);
+    if (!job) {
+      return { error: "Scan job not found", status: 404 };
+    }
+    if (job.status !== "succeeded" || !job.result) {
+      return { error: `Scan job is ${job.status}`, status: 409 };
+    }
+
+    return {
+      source: toScanExportSource(
+        job.request,
+        job.result,
+        job.multiAgentResult,
+        job.updatedAt,
+      ),
+    };
+  }
+
+  const scanId = params.get("scanId");
+  if (scanId) {
+    const store = getSqliteHistoryStore();
+    if (!store) {
+      return { error: "Server-side history is not configured", status: 404 };
+    }
+
+    const result = store.getById(scanId);
+    return result.success && result.data
+      ? { source: result.data }
+      : { error: result.error ?? "Scan not found", status: 404 };
+  }
+
+  return { error: "Pass a 'jobId' or 'scanId' query parameter", status: 400 };
+}
+
+/**
+ * Downloads a scan's findings in an export format (e.g. SARIF) for a
+ * background scan job (`?jobId=`) or a server-side history record (`?scanId=`).
+ * JUnit exports take an optional `?failOn=` severity threshold
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { format } = await params;
+  if (!isScanExportFormat(format)) {
+    return NextResponse.json(
+      {
+        error: `Unknown export format. Must be one of: ${SCAN_EXPORT_FORMATS.join(", ")}`,
+      },
+      { status: 404 },
+    );
+  }
+
+  const failOn = request.nextUrl.searchParams.get("failOn");
+  if (failOn !== null && !isViolationSeverity(failOn)) {
+    return NextResponse.json(
+      {
+        error:
+          "Invalid failOn. Must be 'critical', 'serious', 'moderate' or 'minor'",
+      },
+      { status: 400 },
+    );
+  }
+
+  const found = await findSource(request.nextUrl.searchParams);
+  if ("error" in found) {
+    return NextResponse.json({ error: found.error }, { status: found.status });
+  }
+
+  const { content, contentType, fileName } = exportScan(found.source, format, {
+    failOn: failOn ?? undefined,
+  });
+  return new NextResponse(content, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
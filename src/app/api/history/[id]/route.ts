@@ -0,0 +1,77 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getSqliteHistoryStore } from "@/lib/sqlite-history-store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const NOT_CONFIGURED = "Server-side history is not configured";
+
+/**
+ * Returns one stored scan
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  const { id } = await params;
+  const result = store.getById(id);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 404 });
+  }
+
+  return NextResponse.json(result.data);
+}
+
+/**
+ * Updates a scan's label (`{ label }`; an empty label removes it)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  let body: { label?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof body?.label !== "string") {
+    return NextResponse.json(
+      { error: "Label must be a string" },
+      { status: 400 },
+    );
+  }
+
+  const { id } = await params;
+  const result = store.updateLabel(id, body.label);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 404 });
+  }
+
+  return NextResponse.json(result.data);
+}
+
+/**
+ * Deletes one stored scan
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  const { id } = await params;
+  const result = store.delete(id);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,124 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { HistoryFilter, NewScanRecord } from "@/lib/history-types";
+import {
+  getSqliteHistoryStore,
+  validateNewScanRecord,
+} from "@/lib/sqlite-history-store";
+import type { ScanMode } from "@/lib/types";
+
+const NOT_CONFIGURED = "Server-side history is not configured";
+
+function parseCount(value: string | null, name: string): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new RangeError(`${name} must be a non-negative integer`);
+  }
+  return count;
+}
+
+function parseFilter(params: URLSearchParams): HistoryFilter {
+  return {
+    url: params.get("url") ?? undefined,
+    mode: (params.get("mode") as ScanMode | null) ?? undefined,
+    dateFrom: params.get("dateFrom") ?? undefined,
+    dateTo: params.get("dateTo") ?? undefined,
+    minViolations: parseCount(params.get("minViolations"), "minViolations"),
+    maxViolations: parseCount(params.get("maxViolations"), "maxViolations"),
+  };
+}
+
+/**
+ * Lists scans, most recent first. Query parameters mirror HistoryFilter;
+ * `exact=true` matches `url` exactly
+ */
+export async function GET(request: NextRequest) {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  let filter: HistoryFilter;
+  try {
+    filter = parseFilter(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 },
+    );
+  }
+
+  const result =
+    filter.url && searchParams.get("exact") === "true"
+      ? store.getByUrl(filter.url, true)
+      : store.filter(filter);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
+
+/**
+ * Saves a finished scan and returns the stored record
+ */
+export async function POST(request: NextRequest) {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  let body: NewScanRecord;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const validationError = validateNewScanRecord(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const result = store.add({
+    url: body.url,
+    mode: body.mode,
+    report: body.report,
+    label: body.label,
+    discoveredUrls: body.discoveredUrls,
+    findings: body.findings,
+    pageResults: body.pageResults,
+    checkpoints: body.checkpoints,
+    waived: body.waived,
+    usage: body.usage,
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json(result.data, { status: 201 });
+}
+
+/**
+ * Deletes every stored scan
+ */
+export async function DELETE() {
+  const store = getSqliteHistoryStore();
+  if (!store) {
+    return NextResponse.json({ error: NOT_CONFIGURED }, { status: 404 });
+  }
+
+  const result = store.clear();
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
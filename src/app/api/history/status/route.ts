@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getSqliteHistoryStore } from "@/lib/sqlite-history-store";
+
+/**
+ * Tells the UI whether scans are shared through the server-side store
+ */
+export async function GET() {
+  return NextResponse.json({ enabled: getSqliteHistoryStore() !== null });
+}
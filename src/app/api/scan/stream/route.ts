@@ -0,0 +1,75 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { encodeSseEvent } from "@/lib/scan-events";
+import {
+  normalizeScanRequest,
+  runScan,
+  validateScanRequest,
+} from "@/lib/scan-service";
+import type { ScanProgressEvent, ScanRequest } from "@/lib/types";
+
+/**
+ * Streaming variant of POST /api/scan
+ * Emits progress events as Server-Sent Events and finishes with a `report`
+ * event carrying the same payload the blocking route returns
+ */
+export async function POST(request: NextRequest) {
+  let body: ScanRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const validationError = validateScanRequest(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  // Aborted when the client disconnects or stops reading the stream
+  const abortController = new AbortController();
+  const signal = AbortSignal.any([request.signal, abortController.signal]);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScanProgressEvent) => {
+        if (signal.aborted) return;
+        controller.enqueue(encoder.encode(encodeSseEvent(event)));
+      };
+
+      try {
+        const { response } = await runScan(normalizeScanRequest(body), {
+          onEvent: send,
+          signal,
+        });
+        send({ type: "report", response });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log("🛑 Scan stream cancelled by client");
+          return;
+        }
+        console.error("Scan stream error:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { cancelScanJob, getScanJob, isTerminalStatus } from "@/lib/scan-jobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Returns the job's status, partial page results and final result
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getScanJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Scan job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
+
+/**
+ * Cancels a queued or running job
+ * Responds 202 when another server process runs the job and has yet to stop it
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await cancelScanJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Scan job not found" }, { status: 404 });
+  }
+
+  const pending = job.cancelRequested && !isTerminalStatus(job.status);
+  return NextResponse.json(job, { status: pending ? 202 : 200 });
+}
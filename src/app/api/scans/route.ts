@@ -0,0 +1,37 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { createScanJob } from "@/lib/scan-jobs";
+import { normalizeScanRequest, validateScanRequest } from "@/lib/scan-service";
+import type { ScanRequest } from "@/lib/types";
+
+/**
+ * Starts a background scan job
+ * Responds immediately with the queued job; poll GET /api/scans/:id for progress
+ */
+export async function POST(request: NextRequest) {
+  let body: ScanRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const validationError = validateScanRequest(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const job = await createScanJob(normalizeScanRequest(body));
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Scan job creation error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create scan job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,112 +1,200 @@
 "use client";
 
-import { useState } from "react";
-import ResultsDisplay from "@/components/results-display";
+import { useCallback, useEffect, useState } from "react";
+import ResultsDisplay, {
+  type ResultsDisplayProps,
+} from "@/components/results-display";
 import ScanProgress from "@/components/scan-progress";
 import ScannerForm from "@/components/scanner-form";
 import { HistorySidebar } from "@/components/history-sidebar";
 import { ComparisonModal } from "@/components/comparison-modal";
-import type { ScanResponse } from "@/lib/types";
+import { TrendsModal } from "@/components/trends-modal";
+import { getAllScans, saveScan } from "@/lib/history-client";
+import {
+  INITIAL_SCAN_PROGRESS,
+  type ScanProgressState,
+} from "@/lib/scan-events";
+import {
+  clearActiveJobId,
+  loadActiveJobId,
+  progressFromJob,
+  requestScanJobCancel,
+  saveActiveJobId,
+  submitScanJob,
+  waitForScanJob,
+} from "@/lib/scan-job-client";
+import type {
+  ScanMode,
+  ScanRequestOptions,
+  ScanResponse,
+  ScanUsage,
+} from "@/lib/types";
 import type { ScanRecord } from "@/lib/history-types";
-import { ScanHistoryManager } from "@/lib/scan-history-manager";
 
 type PageState = "form" | "progress" | "results";
 
 export default function Home() {
   const [pageState, setPageState] = useState<PageState>("form");
   const [results, setResults] = useState<string | null>(null);
+  const [resultsUsage, setResultsUsage] = useState<ScanUsage | undefined>();
+  const [resultsPages, setResultsPages] = useState<
+    Pick<ResultsDisplayProps, "pageResults" | "findings" | "openPageUrl">
+  >({});
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState({
-    currentPage: undefined,
-    pagesScanned: 0,
-    totalPages: undefined,
-  });
+  const [progress, setProgress] = useState<ScanProgressState>(
+    INITIAL_SCAN_PROGRESS,
+  );
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // History and comparison state
   const [currentScanId, setCurrentScanId] = useState<string | null>(null);
   const [lastScannedUrl, setLastScannedUrl] = useState<string>("");
-  const [lastScanMode, setLastScanMode] = useState<"single" | "exploration">(
-    "single",
-  );
+  const [lastScanMode, setLastScanMode] = useState<ScanMode>("single");
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [comparisonScans, setComparisonScans] = useState<{
     baseline: ScanRecord | null;
     current: ScanRecord | null;
   }>({ baseline: null, current: null });
+  const [trendsUrl, setTrendsUrl] = useState<string | null>(null);
   const [notification, setNotification] = useState<{
     message: string;
     type: "warning" | "error" | "info";
   } | null>(null);
 
-  const handleScan = async (url: string, mode: "single" | "exploration") => {
-    setPageState("progress");
-    setError(null);
-    setLastScannedUrl(url);
-    setLastScanMode(mode);
-    setProgress({
-      currentPage: undefined,
-      pagesScanned: 0,
-      totalPages: undefined,
-    });
-
-    try {
-      const response = await fetch("/api/scan", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ url, mode }),
+  const saveToHistory = useCallback(
+    async (url: string, mode: ScanMode, data: ScanResponse) => {
+      // Save scan to history automatically (no label by default)
+      const saveResult = await saveScan({
+        url,
+        mode,
+        report: data.data,
+        discoveredUrls: data.metadata?.discoveredUrls,
+        findings: data.findings,
+        pageResults: data.pageResults,
+        checkpoints: data.checkpoints,
+        waived: data.waived,
+        usage: data.metadata?.usage,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to scan website");
-      }
-
-      const data: ScanResponse = await response.json();
+      if (saveResult.success && saveResult.data) {
+        setCurrentScanId(saveResult.data.id);
 
-      if (data.status === "success") {
-        setResults(data.data);
-        setPageState("results");
+        // Show warning to user if storage is near capacity
+        if (saveResult.warning) {
+          console.warn("Scan saved with warning:", saveResult.warning);
+          setNotification({
+            message: saveResult.warning,
+            type: "warning",
+          });
+          // Auto-dismiss after 5 seconds
+          setTimeout(() => setNotification(null), 5000);
+        }
+      } else {
+        // Show error to user if save failed
+        console.error("Failed to save scan to history:", saveResult.error);
+        setNotification({
+          message: `Scan completed but could not be saved to history: ${saveResult.error || "Unknown error"}. Your results are still displayed below.`,
+          type: "error",
+        });
+        // Auto-dismiss after 7 seconds for errors
+        setTimeout(() => setNotification(null), 7000);
+      }
+    },
+    [],
+  );
 
-        // Save scan to history automatically
-        const saveResult = ScanHistoryManager.add(
-          url,
-          mode,
-          data.data,
-          undefined, // no label by default
-          data.metadata?.discoveredUrls,
+  /**
+   * Polls a background job until it finishes and shows its outcome. The UI
+   * uses jobs rather than /api/scan/stream so a reload can resume the scan
+   */
+  const followJob = useCallback(
+    async (jobId: string) => {
+      setActiveJobId(jobId);
+      try {
+        const job = await waitForScanJob(jobId, (update) =>
+          setProgress(progressFromJob(update)),
         );
+        clearActiveJobId();
 
-        if (saveResult.success && saveResult.data) {
-          setCurrentScanId(saveResult.data.id);
+        const { url, mode } = job.request;
+        setLastScannedUrl(url);
+        setLastScanMode(mode);
 
-          // Show warning to user if storage is near capacity
-          if (saveResult.warning) {
-            console.warn("Scan saved with warning:", saveResult.warning);
-            setNotification({
-              message: saveResult.warning,
-              type: "warning",
-            });
-            // Auto-dismiss after 5 seconds
-            setTimeout(() => setNotification(null), 5000);
-          }
-        } else {
-          // Show error to user if save failed
-          console.error("Failed to save scan to history:", saveResult.error);
-          setNotification({
-            message: `Scan completed but could not be saved to history: ${saveResult.error || "Unknown error"}. Your results are still displayed below.`,
-            type: "error",
+        if (job.status === "succeeded" && job.result?.status === "success") {
+          setResults(job.result.data);
+          setResultsUsage(job.result.metadata?.usage);
+          setResultsPages({
+            pageResults: job.result.pageResults,
+            findings: job.result.findings,
           });
-          // Auto-dismiss after 7 seconds for errors
-          setTimeout(() => setNotification(null), 7000);
+          setPageState("results");
+          await saveToHistory(url, mode, job.result);
+          return;
         }
 
-        return;
+        setPageState("form");
+        if (job.status === "cancelled") {
+          setNotification({ message: "Scan cancelled.", type: "info" });
+          setTimeout(() => setNotification(null), 5000);
+        } else {
+          setError(job.error || job.result?.error || "Failed to scan website");
+        }
+      } catch (err) {
+        clearActiveJobId();
+        setPageState("form");
+        setError(
+          err instanceof Error ? err.message : "An unknown error occurred",
+        );
+      } finally {
+        setActiveJobId(null);
+        setIsCancelling(false);
       }
+    },
+    [saveToHistory],
+  );
 
-      setPageState("form");
-      setError(data.error!);
+  const handleCancelScan = async () => {
+    if (!activeJobId) return;
+
+    setIsCancelling(true);
+    try {
+      // The polling loop picks up the cancelled status and resets the page
+      await requestScanJobCancel(activeJobId);
+    } catch (err) {
+      setIsCancelling(false);
+      setNotification({
+        message: `Could not cancel scan: ${err instanceof Error ? err.message : "Unknown error"}`,
+        type: "error",
+      });
+      setTimeout(() => setNotification(null), 7000);
+    }
+  };
+
+  // Resume a scan that was still running when the page was reloaded
+  useEffect(() => {
+    const jobId = loadActiveJobId();
+    if (jobId) {
+      setPageState("progress");
+      void followJob(jobId);
+    }
+  }, [followJob]);
+
+  const handleScan = async (
+    url: string,
+    mode: ScanMode,
+    options?: ScanRequestOptions,
+  ) => {
+    setPageState("progress");
+    setError(null);
+    setLastScannedUrl(url);
+    setLastScanMode(mode);
+    setProgress(INITIAL_SCAN_PROGRESS);
+
+    try {
+      const job = await submitScanJob({ url, mode, ...options });
+      saveActiveJobId(job.id);
+      await followJob(job.id);
     } catch (err) {
       setPageState("form");
       setError(
@@ -118,23 +206,27 @@ export default function Home() {
   const handleNewScan = () => {
     setPageState("form");
     setResults(null);
+    setResultsUsage(undefined);
+    setResultsPages({});
     setError(null);
     setCurrentScanId(null);
-    setProgress({
-      currentPage: undefined,
-      pagesScanned: 0,
-      totalPages: undefined,
-    });
+    setProgress(INITIAL_SCAN_PROGRESS);
   };
 
-  const handleViewScan = (scan: ScanRecord) => {
+  const handleViewScan = (scan: ScanRecord, pageUrl?: string) => {
     setResults(scan.report);
+    setResultsUsage(scan.metadata.usage);
+    setResultsPages({
+      pageResults: scan.pageResults,
+      findings: scan.findings,
+      openPageUrl: pageUrl,
+    });
     setCurrentScanId(scan.id);
     setPageState("results");
     setIsSidebarOpen(false); // Close sidebar on mobile
   };
 
-  const handleCompareScan = (scan: ScanRecord) => {
+  const handleCompareScan = async (scan: ScanRecord) => {
     // If we already have a baseline, set this as current
     if (comparisonScans.baseline) {
       setComparisonScans({
@@ -143,7 +235,7 @@ export default function Home() {
       });
     } else {
       // If no baseline, set this as baseline and find most recent different scan
-      const allScansResult = ScanHistoryManager.getAll();
+      const allScansResult = await getAllScans();
       if (allScansResult.success && allScansResult.data) {
         const otherScans = allScansResult.data.filter((s) => s.id !== scan.id);
         if (otherScans.length > 0) {
@@ -153,7 +245,8 @@ export default function Home() {
           });
         } else {
           setNotification({
-            message: "No other scans available for comparison. Please run at least two scans to enable comparison.",
+            message:
+              "No other scans available for comparison. Please run at least two scans to enable comparison.",
             type: "info",
           });
           setTimeout(() => setNotification(null), 5000);
@@ -166,6 +259,8 @@ export default function Home() {
     setComparisonScans({ baseline: null, current: null });
   };
 
+  const handleCloseTrends = useCallback(() => setTrendsUrl(null), []);
+
   return (
     <div className="flex min-h-screen">
       {/* Main Content */}
@@ -235,12 +330,21 @@ export default function Home() {
 
           {pageState === "progress" && (
             <div className="max-w-2xl mx-auto">
-              <ScanProgress {...progress} status="scanning" />
+              <ScanProgress
+                {...progress}
+                onCancel={activeJobId ? handleCancelScan : undefined}
+                isCancelling={isCancelling}
+              />
             </div>
           )}
 
           {pageState === "results" && results && (
-            <ResultsDisplay results={results} onNewScan={handleNewScan} />
+            <ResultsDisplay
+              results={results}
+              usage={resultsUsage}
+              {...resultsPages}
+              onNewScan={handleNewScan}
+            />
           )}
         </div>
       </main>
@@ -249,6 +353,7 @@ export default function Home() {
       <HistorySidebar
         onViewScan={handleViewScan}
         onCompareScan={handleCompareScan}
+        onShowTrends={(scan) => setTrendsUrl(scan.url)}
         selectedScanId={currentScanId ?? undefined}
         isOpen={isSidebarOpen}
         onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -264,6 +369,9 @@ export default function Home() {
           onClose={handleCloseComparison}
         />
       )}
+
+      {/* Trends Modal */}
+      {trendsUrl && <TrendsModal url={trendsUrl} onClose={handleCloseTrends} />}
     </div>
   );
 }
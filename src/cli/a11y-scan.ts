@@ -0,0 +1,178 @@
+/**
+ * a11y-scan - Runs a scan outside the web UI, writes report files and exits
+ * non-zero when the findings exceed the thresholds (for CI merge gates)
+ *
+ * npm run a11y-scan -- https://example.com --format sarif --fail-on serious
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { toScanExportSource } from "@/lib/export-source";
+import { clientTools } from "@/lib/mcp-client";
+import {
+  createBaseline,
+  type ScanBaseline,
+  validateBaseline,
+} from "@/lib/scan-baseline";
+import {
+  CLI_EXIT_CODES,
+  CLI_USAGE,
+  evaluateScanGate,
+  formatScanSummary,
+  mergeCliRequest,
+  parseScanCliArgs,
+} from "@/lib/scan-cli";
+import { exportScan, SCAN_EXPORTERS } from "@/lib/scan-exporters";
+import {
+  normalizeScanRequest,
+  runScan,
+  validateScanRequest,
+} from "@/lib/scan-service";
+import type { ScanProgressEvent, ScanRequest } from "@/lib/types";
+
+/** A request, waivers or baseline file that cannot be used */
+class InputFileError extends Error {}
+
+/**
+ * Reads a JSON input file, naming the file when it is missing or malformed
+ * @throws InputFileError
+ */
+async function readJsonFile(file: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    throw new InputFileError(
+      `${file}: cannot be read (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InputFileError(
+      `${file}: invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+}
+
+function logProgress(event: ScanProgressEvent) {
+  if (event.type === "discovery_complete") {
+    console.error(`Found ${event.totalPages} page(s) to scan`);
+  } else if (event.type === "page_scan_finished") {
+    const outcome = event.status
+      ? event.status.replace("_", " ")
+      : `${event.violations} violation(s)`;
+    console.error(
+      `[${event.index + 1}/${event.totalPages}] ${event.url}: ${outcome}`,
+    );
+  }
+}
+
+async function main(): Promise<number> {
+  const parsed = parseScanCliArgs(process.argv.slice(2));
+  if ("error" in parsed) {
+    console.error(`${parsed.error}\n\n${CLI_USAGE}`);
+    return CLI_EXIT_CODES.error;
+  }
+  if (parsed.help) {
+    console.log(CLI_USAGE);
+    return CLI_EXIT_CODES.passed;
+  }
+
+  const { options } = parsed;
+  const fileRequest = options.requestFile
+    ? ((await readJsonFile(options.requestFile)) as ScanRequest)
+    : undefined;
+  const body = mergeCliRequest(fileRequest, options.request);
+  if (options.waiversFile) {
+    body.waivers = (await readJsonFile(
+      options.waiversFile,
+    )) as ScanRequest["waivers"];
+  }
+  const validationError = validateScanRequest(body);
+  if (validationError) {
+    console.error(validationError);
+    return CLI_EXIT_CODES.error;
+  }
+
+  let baseline: ScanBaseline | undefined;
+  if (options.baselineFile && existsSync(options.baselineFile)) {
+    const parsedBaseline = await readJsonFile(options.baselineFile);
+    const baselineError = validateBaseline(parsedBaseline);
+    if (baselineError) {
+      console.error(`${options.baselineFile}: ${baselineError}`);
+      return CLI_EXIT_CODES.error;
+    }
+    baseline = parsedBaseline as ScanBaseline;
+  } else if (options.baselineFile && !options.updateBaseline) {
+    console.error(
+      `Baseline file not found: ${options.baselineFile}. Run with --update-baseline to create it`,
+    );
+    return CLI_EXIT_CODES.error;
+  }
+
+  const request = normalizeScanRequest(body as ScanRequest);
+  const { response, multiAgentResult } = await runScan(request, {
+    onEvent: logProgress,
+  });
+  const source = toScanExportSource(request, response, multiAgentResult);
+
+  await mkdir(options.outDir, { recursive: true });
+  const files = [
+    path.join(options.outDir, "report.md"),
+    path.join(options.outDir, "scan.json"),
+  ];
+  await writeFile(files[0], response.data);
+  await writeFile(files[1], JSON.stringify(response, null, 2));
+
+  for (const format of options.formats) {
+    const { content } = exportScan(source, format, {
+      failOn: options.failOn,
+      baseline,
+    });
+    const file = path.join(
+      options.outDir,
+      `report.${SCAN_EXPORTERS[format].extension}`,
+    );
+    await writeFile(file, content);
+    files.push(file);
+  }
+
+  const gate = evaluateScanGate(source, options, baseline);
+  if (options.updateBaseline && options.baselineFile) {
+    const updated = createBaseline(source, baseline);
+    await writeFile(
+      options.baselineFile,
+      `${JSON.stringify(updated, null, 2)}\n`,
+    );
+    files.push(options.baselineFile);
+  }
+  console.log(`\n${formatScanSummary(request.url, response, gate, files)}`);
+
+  if (options.updateBaseline) {
+    console.log("Baseline updated; the gate is not enforced");
+    return CLI_EXIT_CODES.passed;
+  }
+  return gate.passed ? CLI_EXIT_CODES.passed : CLI_EXIT_CODES.failed;
+}
+
+// Next.js loads .env itself; the CLI has to do it here
+if (existsSync(".env")) {
+  process.loadEnvFile(".env");
+}
+
+main()
+  .catch((error) => {
+    console.error(
+      error instanceof InputFileError
+        ? error.message
+        : `Scan failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return CLI_EXIT_CODES.error;
+  })
+  .then(async (exitCode) => {
+    await clientTools.close();
+    process.exit(exitCode);
+  });
@@ -1,12 +1,14 @@
 "use client";
 
 import { useEffect, useMemo } from "react";
+import type { Violation } from "@/lib/findings-types";
 import type { ScanComparison, ScanRecord } from "@/lib/history-types";
 import {
   compareScanRecords,
   formatPercentageChange,
   getComparisonSummary,
   getTrendIndicator,
+  isImprovement,
   validateComparison,
 } from "@/lib/comparison-engine";
 import { formatFullDate, truncateUrl } from "@/lib/history-utils";
@@ -64,7 +66,7 @@ export function ComparisonModal({
   const { overall, bySeverity } = comparison;
   const summary = getComparisonSummary(comparison);
   const trend = getTrendIndicator(overall.percentageChange);
-  const isImprovement = overall.currentTotal < overall.baselineTotal;
+  const improved = isImprovement(comparison);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
@@ -187,14 +189,14 @@ export function ComparisonModal({
             {/* Percentage Change */}
             <div
               className={`p-4 rounded-lg bg-gradient-to-br ${
-                isImprovement
+                improved
                   ? "from-green-50 to-green-100 dark:from-green-950 dark:to-green-900"
                   : "from-red-50 to-red-100 dark:from-red-950 dark:to-red-900"
               }`}
             >
               <p
                 className={`text-xs font-medium mb-1 ${
-                  isImprovement
+                  improved
                     ? "text-green-700 dark:text-green-300"
                     : "text-red-700 dark:text-red-300"
                 }`}
@@ -203,7 +205,7 @@ export function ComparisonModal({
               </p>
               <p
                 className={`text-2xl font-bold ${
-                  isImprovement
+                  improved
                     ? "text-green-900 dark:text-green-100"
                     : "text-red-900 dark:text-red-100"
                 }`}
@@ -212,7 +214,7 @@ export function ComparisonModal({
               </p>
               <p
                 className={`text-xs mt-1 ${
-                  isImprovement
+                  improved
                     ? "text-green-600 dark:text-green-400"
                     : "text-red-600 dark:text-red-400"
                 }`}
@@ -284,6 +286,32 @@ export function ComparisonModal({
             </div>
           </div>
 
+          {/* Issue-Level Changes */}
+          {comparison.issues && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Issue Details
+              </h3>
+              <div className="space-y-3">
+                <IssueList
+                  title="New issues"
+                  issues={comparison.issues.introduced}
+                  className="text-red-700 dark:text-red-300"
+                />
+                <IssueList
+                  title="Fixed issues"
+                  issues={comparison.issues.fixed}
+                  className="text-green-700 dark:text-green-300"
+                />
+                <IssueList
+                  title="Persisting issues"
+                  issues={comparison.issues.persisting}
+                  className="text-gray-700 dark:text-gray-300"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Close Button */}
           <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
             <button
@@ -299,3 +327,46 @@ export function ComparisonModal({
     </div>
   );
 }
+
+interface IssueListProps {
+  title: string;
+  issues: Violation[];
+  className: string;
+}
+
+function IssueList({ title, issues, className }: IssueListProps) {
+  return (
+    <details className="rounded-lg border border-gray-200 dark:border-gray-700">
+      <summary
+        className={`cursor-pointer px-4 py-2 text-sm font-semibold ${className}`}
+      >
+        {title} ({issues.length})
+      </summary>
+      {issues.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.ruleId}-${issue.pageUrl}-${index}`}
+              className="px-4 py-2 text-xs text-gray-700 dark:text-gray-300"
+            >
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {SEVERITY_ICONS[issue.impact]} {issue.ruleId}
+                {issue.wcagCriteria.length > 0 &&
+                  ` · WCAG ${issue.wcagCriteria.join(", ")}`}
+              </p>
+              <p className="mt-1 font-mono break-all">
+                {issue.selectors.join(" ") || "—"}
+              </p>
+              <p
+                className="mt-1 text-gray-500 dark:text-gray-400 truncate"
+                title={issue.pageUrl}
+              >
+                {truncateUrl(issue.pageUrl, 60)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
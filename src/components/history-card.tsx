@@ -1,12 +1,26 @@
 "use client";
 
 import type { ScanRecord } from "@/lib/history-types";
-import { formatRelativeTime, truncateUrl } from "@/lib/history-utils";
+import {
+  formatCost,
+  formatRelativeTime,
+  formatTokenCount,
+  truncateUrl,
+} from "@/lib/history-utils";
+import {
+  SCAN_EXPORT_FORMATS,
+  SCAN_EXPORTERS,
+  type ScanExportFormat,
+} from "@/lib/scan-exporters";
 
 interface HistoryCardProps {
   scan: ScanRecord;
-  onView: (scan: ScanRecord) => void;
+  /** Opens the scan, or one of its pages when a page is picked */
+  onView: (scan: ScanRecord, pageUrl?: string) => void;
   onCompare: (scan: ScanRecord) => void;
+  /** Opens the trends of the scan's URL */
+  onTrends: (scan: ScanRecord) => void;
+  onExport: (scan: ScanRecord, format: ScanExportFormat) => void;
   onDelete: (scanId: string) => void;
   isSelected?: boolean;
   isScanning?: boolean;
@@ -16,6 +30,8 @@ export function HistoryCard({
   scan,
   onView,
   onCompare,
+  onTrends,
+  onExport,
   onDelete,
   isSelected = false,
   isScanning = false,
@@ -61,10 +77,16 @@ export function HistoryCard({
           <span
             className={`
             inline-flex items-center px-2 py-0.5 rounded text-xs font-medium
-            ${mode === "exploration" ? "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200" : "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"}
+            ${mode === "exploration" ? "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200" : mode === "list" ? "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200" : mode === "journey" ? "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200" : "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"}
           `}
           >
-            {mode === "exploration" ? "Multi-page" : "Single"}
+            {mode === "exploration"
+              ? "Multi-page"
+              : mode === "list"
+                ? "URL list"
+                : mode === "journey"
+                  ? "Journey"
+                  : "Single"}
           </span>
         </div>
 
@@ -107,8 +129,67 @@ export function HistoryCard({
         <span>Total: {metadata.totalViolations}</span>
         {metadata.pageCount > 1 && <span>{metadata.pageCount} pages</span>}
         {metadata.wcagLevel && <span>WCAG {metadata.wcagLevel}</span>}
+        {metadata.waivedViolations !== undefined &&
+          metadata.waivedViolations > 0 && (
+            <span title="Excluded from the totals by a waiver">
+              {metadata.waivedViolations} waived
+            </span>
+          )}
+        {metadata.usage && (
+          <span
+            title={`${metadata.usage.inputTokens} input / ${metadata.usage.outputTokens} output tokens`}
+          >
+            {formatTokenCount(metadata.usage.totalTokens)} tokens
+            {metadata.usage.estimatedCostUsd !== undefined &&
+              ` · ${formatCost(metadata.usage.estimatedCostUsd)}`}
+          </span>
+        )}
       </div>
 
+      {/* Per-page breakdown */}
+      {scan.pageResults && scan.pageResults.length > 1 && (
+        // Keep clicks and key presses from also opening the whole scan
+        <details
+          className="mb-3 text-xs"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-300">
+            Pages ({scan.pageResults.length})
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {scan.pageResults.map((page) => (
+              <li key={page.url}>
+                <button
+                  type="button"
+                  onClick={() => !isScanning && onView(scan, page.url)}
+                  disabled={isScanning}
+                  className="flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left hover:bg-gray-100 disabled:cursor-not-allowed dark:hover:bg-gray-800"
+                  title={page.url}
+                >
+                  <span className="truncate text-gray-700 dark:text-gray-200">
+                    {truncateUrl(page.url, 32)}
+                  </span>
+                  <span
+                    className={
+                      page.status
+                        ? "shrink-0 text-red-700 dark:text-red-300"
+                        : "shrink-0 text-gray-500 dark:text-gray-400"
+                    }
+                  >
+                    {page.status === "timed_out"
+                      ? "Timed out"
+                      : page.status === "failed"
+                        ? "Failed"
+                        : page.violations}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* Actions */}
       <div className="flex gap-2">
         <button
@@ -122,6 +203,33 @@ export function HistoryCard({
         >
           Compare
         </button>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onTrends(scan);
+          }}
+          disabled={isScanning}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label="Show trends for this URL"
+        >
+          Trends
+        </button>
+        {SCAN_EXPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onExport(scan, format);
+            }}
+            disabled={isScanning}
+            className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+            aria-label={`Export scan as ${SCAN_EXPORTERS[format].label}`}
+          >
+            {SCAN_EXPORTERS[format].label}
+          </button>
+        ))}
         <button
           type="button"
           onClick={(e) => {
@@ -1,13 +1,37 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  clearScans,
+  deleteScan,
+  exportHistoryJson,
+  getAllScans,
+  getHistoryQuota,
+} from "@/lib/history-client";
 import type { ScanRecord } from "@/lib/history-types";
-import { ScanHistoryManager } from "@/lib/scan-history-manager";
+import { exportScan, type ScanExportFormat } from "@/lib/scan-exporters";
 import { HistoryCard } from "./history-card";
 
+/**
+ * Saves text as a file through a temporary download link
+ */
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 interface HistorySidebarProps {
-  onViewScan: (scan: ScanRecord) => void;
+  /** Opens a scan, optionally expanding one of its pages */
+  onViewScan: (scan: ScanRecord, pageUrl?: string) => void;
   onCompareScan: (scan: ScanRecord) => void;
+  onShowTrends: (scan: ScanRecord) => void;
   selectedScanId?: string;
   isOpen: boolean;
   onToggle: () => void;
@@ -17,6 +41,7 @@ interface HistorySidebarProps {
 export function HistorySidebar({
   onViewScan,
   onCompareScan,
+  onShowTrends,
   selectedScanId,
   isOpen,
   onToggle,
@@ -27,10 +52,10 @@ export function HistorySidebar({
   const [loading, setLoading] = useState(true);
   const [storageWarning, setStorageWarning] = useState<string | null>(null);
 
-  // Load scans from localStorage
-  const loadScans = useCallback(() => {
+  // Load scans from the server store or browser storage
+  const loadScans = useCallback(async () => {
     setLoading(true);
-    const result = ScanHistoryManager.getAll();
+    const result = await getAllScans();
     if (result.success && result.data) {
       setScans(result.data);
     } else {
@@ -38,9 +63,9 @@ export function HistorySidebar({
       setScans([]);
     }
 
-    // Check storage quota
-    const quota = ScanHistoryManager.getQuota();
-    if (quota.percentageUsed > 80) {
+    // Check browser storage quota (server history has no quota)
+    const quota = await getHistoryQuota();
+    if (quota && quota.percentageUsed > 80) {
       setStorageWarning(
         `Storage is ${Math.round(quota.percentageUsed)}% full (${quota.scanCount} scans)`,
       );
@@ -65,12 +90,12 @@ export function HistorySidebar({
   }, [scans, filterUrl]);
 
   // Handle delete
-  const handleDelete = useCallback((scanId: string) => {
+  const handleDelete = useCallback(async (scanId: string) => {
     if (!confirm("Are you sure you want to delete this scan from history?")) {
       return;
     }
 
-    const result = ScanHistoryManager.delete(scanId);
+    const result = await deleteScan(scanId);
     if (result.success) {
       setScans((prev) => prev.filter((s) => s.id !== scanId));
     } else {
@@ -81,7 +106,7 @@ export function HistorySidebar({
   const isDisabled = scans.length === 0 || isScanning;
 
   // Handle clear all
-  const handleClearAll = useCallback(() => {
+  const handleClearAll = useCallback(async () => {
     if (
       !confirm(
         "Are you sure you want to delete all scan history? This cannot be undone.",
@@ -90,7 +115,7 @@ export function HistorySidebar({
       return;
     }
 
-    const result = ScanHistoryManager.clear();
+    const result = await clearScans();
     if (result.success) {
       setScans([]);
       setStorageWarning(null);
@@ -100,25 +125,29 @@ export function HistorySidebar({
   }, []);
 
   // Handle export
-  const handleExport = useCallback(() => {
-    const result = ScanHistoryManager.exportAsJson();
+  const handleExport = useCallback(async () => {
+    const result = await exportHistoryJson();
     if (!result.success || !result.data) {
       alert(`Failed to export: ${result.error}`);
       return;
     }
 
-    // Download as JSON file
-    const blob = new Blob([result.data], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `scan-history-${new Date().toISOString().split("T")[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      result.data,
+      `scan-history-${new Date().toISOString().split("T")[0]}.json`,
+      "application/json",
+    );
   }, []);
 
+  // Handle single-scan export (e.g. SARIF for code-scanning tools)
+  const handleExportScan = useCallback(
+    (scan: ScanRecord, format: ScanExportFormat) => {
+      const { content, contentType, fileName } = exportScan(scan, format);
+      downloadFile(content, fileName, contentType);
+    },
+    [],
+  );
+
   return (
     <>
       {/* Mobile Toggle Button */}
@@ -269,6 +298,8 @@ export function HistorySidebar({
                   scan={scan}
                   onView={onViewScan}
                   onCompare={onCompareScan}
+                  onTrends={onShowTrends}
+                  onExport={handleExportScan}
                   onDelete={handleDelete}
                   isSelected={scan.id === selectedScanId}
                   isScanning={isScanning}
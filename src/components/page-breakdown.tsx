@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { normalizePageUrl } from "@/lib/comparison-engine";
+import type { PageFindings, Violation } from "@/lib/findings-types";
+import type { PageResultRecord } from "@/lib/history-types";
+import { formatFullDate } from "@/lib/history-utils";
+
+export interface PageBreakdownProps {
+  /** Per-page results of a multi-page scan */
+  pages: PageResultRecord[];
+  /** Structured findings, matched to pages by URL */
+  findings?: PageFindings[];
+  /** Page to expand and scroll to, e.g. when opened from the history card */
+  openPageUrl?: string;
+}
+
+// Define icons outside component to avoid recreation on each render
+const SEVERITY_ICONS = {
+  critical: "🔴",
+  serious: "🟠",
+  moderate: "🟡",
+  minor: "🔵",
+} as const;
+
+const SEVERITY_ORDER = ["critical", "serious", "moderate", "minor"] as const;
+
+const STATUS_LABELS: Record<NonNullable<PageResultRecord["status"]>, string> = {
+  failed: "Failed",
+  timed_out: "Timed out",
+};
+
+function sortBySeverity(violations: Violation[]): Violation[] {
+  return [...violations].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.impact) - SEVERITY_ORDER.indexOf(b.impact),
+  );
+}
+
+function PageFindingsTable({ violations }: { violations: Violation[] }) {
+  return (
+    <table className="w-full text-left text-xs text-slate-700 dark:text-slate-300">
+      <thead>
+        <tr className="uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <th className="pb-2 pr-4 font-semibold">Impact</th>
+          <th className="pb-2 pr-4 font-semibold">Rule</th>
+          <th className="pb-2 pr-4 font-semibold">Element</th>
+          <th className="pb-2 font-semibold">WCAG</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+        {sortBySeverity(violations).map((violation, index) => (
+          <tr key={`${violation.ruleId}-${index}`} className="align-top">
+            <td className="py-1.5 pr-4 whitespace-nowrap">
+              {SEVERITY_ICONS[violation.impact]} {violation.impact}
+            </td>
+            <td className="py-1.5 pr-4">
+              {violation.helpUrl ? (
+                <a
+                  href={violation.helpUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {violation.ruleId}
+                </a>
+              ) : (
+                violation.ruleId
+              )}
+              <p className="text-slate-500 dark:text-slate-400">
+                {violation.description}
+              </p>
+            </td>
+            <td className="py-1.5 pr-4 font-mono break-all">
+              {violation.selectors.join(" >>> ") || "—"}
+            </td>
+            <td className="py-1.5">
+              {violation.wcagCriteria.join(", ") || "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * One expandable row per scanned page with its findings and page report
+ */
+export function PageBreakdown({
+  pages,
+  findings = [],
+  openPageUrl,
+}: PageBreakdownProps) {
+  const openPageRef = useRef<HTMLDetailsElement>(null);
+
+  useEffect(() => {
+    if (openPageUrl) {
+      openPageRef.current?.scrollIntoView({ block: "start" });
+    }
+  }, [openPageUrl]);
+
+  const findingsByPage = new Map(
+    findings.map((page) => [normalizePageUrl(page.pageUrl), page.violations]),
+  );
+
+  return (
+    <section className="mt-6 space-y-2" aria-labelledby="page-breakdown">
+      <h2
+        id="page-breakdown"
+        className="text-lg font-semibold text-slate-900 dark:text-white"
+      >
+        Pages ({pages.length})
+      </h2>
+      {pages.map((page) => {
+        const violations = findingsByPage.get(normalizePageUrl(page.url));
+        const isOpen = page.url === openPageUrl;
+
+        return (
+          <details
+            key={page.url}
+            ref={isOpen ? openPageRef : undefined}
+            open={isOpen || undefined}
+            className="rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm dark:border-slate-800 dark:bg-slate-900"
+          >
+            <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2">
+              <span
+                className="min-w-0 truncate font-medium text-slate-900 dark:text-white"
+                title={page.url}
+              >
+                {page.url}
+              </span>
+              <span className="flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+                {page.status ? (
+                  <span className="rounded-full bg-red-100 px-2 py-0.5 font-medium text-red-800 dark:bg-red-900 dark:text-red-200">
+                    {STATUS_LABELS[page.status]}
+                  </span>
+                ) : (
+                  <span>{page.violations} violation(s)</span>
+                )}
+                <time dateTime={page.timestamp}>
+                  {formatFullDate(page.timestamp)}
+                </time>
+              </span>
+            </summary>
+
+            <div className="mt-4 space-y-4">
+              {page.error && (
+                <p className="text-red-700 dark:text-red-300">{page.error}</p>
+              )}
+              {violations && violations.length > 0 && (
+                <PageFindingsTable violations={violations} />
+              )}
+              {violations && violations.length === 0 && !page.status && (
+                <p className="text-green-700 dark:text-green-300">
+                  ✓ No violations found on this page
+                </p>
+              )}
+              {page.report && (
+                <details>
+                  <summary className="cursor-pointer text-xs font-semibold text-slate-600 dark:text-slate-300">
+                    Page report
+                  </summary>
+                  <div className="prose prose-sm prose-slate mt-2 max-w-none dark:prose-invert">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                      {page.report}
+                    </ReactMarkdown>
+                  </div>
+                </details>
+              )}
+            </div>
+          </details>
+        );
+      })}
+    </section>
+  );
+}
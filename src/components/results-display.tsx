@@ -2,14 +2,105 @@
 
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { PageBreakdown } from "@/components/page-breakdown";
+import type { PageFindings } from "@/lib/findings-types";
+import type { PageResultRecord } from "@/lib/history-types";
+import { formatCost, formatTokenCount } from "@/lib/history-utils";
+import type { ScanUsage, TokenUsage } from "@/lib/types";
 
 export interface ResultsDisplayProps {
   results: string;
+  /** Token usage and estimated cost of the scan, when recorded */
+  usage?: ScanUsage;
+  /** Per-page results of exploration and list scans */
+  pageResults?: PageResultRecord[];
+  /** Structured findings, shown per page */
+  findings?: PageFindings[];
+  /** Page to expand in the per-page breakdown */
+  openPageUrl?: string;
   onNewScan?: () => void;
 }
 
+const AGENT_LABELS: Record<keyof ScanUsage["byAgent"], string> = {
+  discovery: "Discovery agent",
+  pageScanner: "Page scanner agents",
+  summarizer: "Summarizer agent",
+  single: "Scanner agent",
+};
+
+function UsageCells({ usage }: { usage: TokenUsage }) {
+  return (
+    <>
+      <td className="py-1.5 pr-4 text-right tabular-nums">
+        {formatTokenCount(usage.inputTokens)}
+      </td>
+      <td className="py-1.5 pr-4 text-right tabular-nums">
+        {formatTokenCount(usage.outputTokens)}
+      </td>
+      <td className="py-1.5 text-right tabular-nums">
+        {usage.estimatedCostUsd !== undefined
+          ? formatCost(usage.estimatedCostUsd)
+          : "—"}
+      </td>
+    </>
+  );
+}
+
+/**
+ * Tokens and estimated cost per agent and per scanned URL
+ */
+function CostSummary({ usage }: { usage: ScanUsage }) {
+  const agents = Object.entries(usage.byAgent).filter(
+    (entry): entry is [keyof ScanUsage["byAgent"], TokenUsage] =>
+      entry[1] !== undefined,
+  );
+
+  return (
+    <details className="mt-6 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm dark:border-slate-800 dark:bg-slate-900">
+      <summary className="cursor-pointer font-semibold text-slate-900 dark:text-white">
+        Cost: {formatTokenCount(usage.totalTokens)} tokens
+        {usage.estimatedCostUsd !== undefined &&
+          `, about ${formatCost(usage.estimatedCostUsd)}`}
+      </summary>
+      <table className="mt-4 w-full text-slate-700 dark:text-slate-300">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            <th className="pb-2 pr-4 font-semibold">Agent / URL</th>
+            <th className="pb-2 pr-4 text-right font-semibold">Input</th>
+            <th className="pb-2 pr-4 text-right font-semibold">Output</th>
+            <th className="pb-2 text-right font-semibold">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {agents.map(([role, agentUsage]) => (
+            <tr key={role} className="font-medium">
+              <td className="py-1.5 pr-4">{AGENT_LABELS[role]}</td>
+              <UsageCells usage={agentUsage} />
+            </tr>
+          ))}
+          {usage.byPage.map((page) => (
+            <tr key={page.url}>
+              <td
+                className="max-w-xs truncate py-1.5 pr-4 pl-4"
+                title={page.url}
+              >
+                {page.url}
+              </td>
+              <UsageCells usage={page} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
 export default function ResultsDisplay({
   results,
+  usage,
+  pageResults,
+  findings,
+  openPageUrl,
   onNewScan,
 }: ResultsDisplayProps) {
   return (
@@ -34,6 +125,14 @@ export default function ResultsDisplay({
           </button>
         </div>
       </div>
+      {usage && <CostSummary usage={usage} />}
+      {pageResults && pageResults.length > 0 && (
+        <PageBreakdown
+          pages={pageResults}
+          findings={findings}
+          openPageUrl={openPageUrl}
+        />
+      )}
       <div
         className="mt-8 prose prose-slate dark:prose-invert max-w-none
         prose-headings:font-bold prose-headings:text-slate-900 dark:prose-headings:text-white
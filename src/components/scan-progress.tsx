@@ -5,6 +5,14 @@ interface ScanProgressProps {
   pagesScanned: number;
   totalPages?: number;
   status: "scanning" | "processing" | "complete";
+  completedPages?: Array<{
+    url: string;
+    violations: number;
+    status?: "succeeded" | "failed" | "timed_out";
+  }>;
+  /** Shows a "Cancel scan" button while the scan is running */
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
 export default function ScanProgress({
@@ -12,6 +20,9 @@ export default function ScanProgress({
   pagesScanned,
   totalPages,
   status,
+  completedPages = [],
+  onCancel,
+  isCancelling = false,
 }: ScanProgressProps) {
   const percentage = totalPages ? (pagesScanned / totalPages) * 100 : 0;
 
@@ -80,6 +91,35 @@ export default function ScanProgress({
         </div>
       )}
 
+      {/* Completed Pages */}
+      {completedPages.length > 0 && (
+        <ul
+          aria-label="Scanned pages"
+          className="mt-6 divide-y divide-slate-200 rounded-2xl border border-slate-200 text-sm dark:divide-slate-800 dark:border-slate-800"
+        >
+          {completedPages.map((page) => (
+            <li
+              key={page.url}
+              className="flex items-center justify-between gap-4 px-5 py-3"
+            >
+              <span className="break-all font-mono text-xs text-slate-700 dark:text-slate-300">
+                {page.url}
+              </span>
+              {page.status === "failed" || page.status === "timed_out" ? (
+                <span className="shrink-0 font-medium text-red-700 dark:text-red-300">
+                  {page.status === "timed_out" ? "Timed out" : "Scan failed"}
+                </span>
+              ) : (
+                <span className="shrink-0 font-medium text-slate-900 dark:text-white">
+                  {page.violations}{" "}
+                  {page.violations === 1 ? "violation" : "violations"}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Status Messages */}
       {status === "processing" && (
         <div className="mt-6 rounded-2xl border border-amber-200 bg-amber-50/80 p-5 text-sm text-amber-900 shadow-sm dark:border-amber-900/70 dark:bg-amber-900/30 dark:text-amber-200">
@@ -87,6 +127,19 @@ export default function ScanProgress({
         </div>
       )}
 
+      {onCancel && status !== "complete" && (
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isCancelling}
+            className="rounded-full border border-slate-300 px-5 py-2 text-sm font-semibold text-slate-700 transition hover:border-red-300 hover:bg-red-50 hover:text-red-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 disabled:cursor-not-allowed disabled:opacity-60 dark:border-slate-700 dark:text-slate-200 dark:hover:border-red-800 dark:hover:bg-red-900/30 dark:hover:text-red-200"
+          >
+            {isCancelling ? "Cancelling…" : "Cancel scan"}
+          </button>
+        </div>
+      )}
+
       {status === "complete" && (
         <div className="mt-6 rounded-2xl border border-emerald-200 bg-emerald-50/80 p-5 text-sm text-emerald-900 shadow-sm dark:border-emerald-900/60 dark:bg-emerald-900/30 dark:text-emerald-200">
           Scan completed successfully. Your accessibility report is ready below.
@@ -1,9 +1,51 @@
 "use client";
 
 import { type FormEvent, useEffect, useRef, useState } from "react";
+import { CRAWL_LIMITS, DEFAULT_CRAWL_OPTIONS } from "@/lib/crawl-utils";
+import type {
+  DiscoveryStrategy,
+  JourneyStep,
+  ScanMode,
+  ScanRequestOptions,
+} from "@/lib/types";
+
+const JOURNEY_STEPS_PLACEHOLDER = `[
+  { "action": "click", "target": "button \\"Add to cart\\"" },
+  { "action": "wait", "text": "Added to cart" },
+  { "action": "scan", "name": "Cart dialog" }
+]`;
+
+/**
+ * Adds https:// when the protocol is missing and checks the result parses
+ * @returns The URL to scan, or null when it is not a valid URL
+ */
+function normalizeInputUrl(value: string): string | null {
+  let urlToScan = value.trim();
+  if (!urlToScan.startsWith("http://") && !urlToScan.startsWith("https://")) {
+    urlToScan = `https://${urlToScan}`;
+  }
+
+  return URL.canParse(urlToScan) ? urlToScan : null;
+}
+
+/**
+ * Parses the journey steps field. Only the shape is checked here; the server
+ * validates each step and reports the first invalid one
+ * @returns The steps, or null when the field is not a JSON array of steps
+ */
+function parseJourneySteps(value: string): JourneyStep[] | null {
+  try {
+    const steps: unknown = JSON.parse(value);
+    return Array.isArray(steps) && steps.length > 0
+      ? (steps as JourneyStep[])
+      : null;
+  } catch {
+    return null;
+  }
+}
 
 export interface ScannerFormProps {
-  onSubmit: (url: string, mode: "single" | "exploration") => void;
+  onSubmit: (url: string, mode: ScanMode, options?: ScanRequestOptions) => void;
   loading?: boolean;
 }
 
@@ -12,7 +54,14 @@ export default function ScannerForm({
   loading = false,
 }: ScannerFormProps) {
   const [url, setUrl] = useState("");
-  const [mode, setMode] = useState<"single" | "exploration">("single");
+  const [mode, setMode] = useState<ScanMode>("single");
+  const [urlList, setUrlList] = useState("");
+  const [journeySteps, setJourneySteps] = useState("");
+  const [maxPages, setMaxPages] = useState(DEFAULT_CRAWL_OPTIONS.maxPages);
+  const [maxDepth, setMaxDepth] = useState(DEFAULT_CRAWL_OPTIONS.maxDepth);
+  const [includeSubdomains, setIncludeSubdomains] = useState(false);
+  const [discoveryStrategy, setDiscoveryStrategy] =
+    useState<DiscoveryStrategy>("agent");
   const [error, setError] = useState("");
   const urlInputRef = useRef<HTMLInputElement>(null);
 
@@ -48,20 +97,68 @@ export default function ScannerForm({
     e.preventDefault();
     setError("");
 
+    if (mode === "list") {
+      const lines = urlList
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+      if (lines.length === 0) {
+        setError("Please enter at least one URL to scan");
+        return;
+      }
+
+      const urls: string[] = [];
+      for (const line of lines) {
+        const normalized = normalizeInputUrl(line);
+        if (!normalized) {
+          setError(`Please enter a valid URL: ${line}`);
+          return;
+        }
+        urls.push(normalized);
+      }
+
+      // The site URL is optional in list mode; default to the first page
+      const siteUrl = url.trim() ? normalizeInputUrl(url) : urls[0];
+      if (!siteUrl) {
+        setError("Please enter a valid URL");
+        return;
+      }
+
+      onSubmit(siteUrl, mode, { urls });
+      return;
+    }
+
     if (!url.trim()) {
       setError("Please enter a URL");
       return;
     }
 
-    let urlToScan = url.trim();
-    if (!urlToScan.startsWith("http://") && !urlToScan.startsWith("https://")) {
-      urlToScan = `https://${urlToScan}`;
+    const urlToScan = normalizeInputUrl(url);
+    if (!urlToScan) {
+      setError("Please enter a valid URL");
+      return;
     }
 
-    try {
-      new URL(urlToScan);
-    } catch {
-      setError("Please enter a valid URL");
+    if (mode === "journey") {
+      const steps = parseJourneySteps(journeySteps);
+      if (!steps) {
+        setError("Please enter the journey steps as a JSON array");
+        return;
+      }
+
+      onSubmit(urlToScan, mode, { journey: { steps } });
+      return;
+    }
+
+    if (mode === "exploration") {
+      onSubmit(urlToScan, mode, {
+        crawl: {
+          maxPages,
+          maxDepth,
+          scope: includeSubdomains ? "subdomains" : "same-origin",
+        },
+        discoveryStrategy,
+      });
       return;
     }
 
@@ -222,12 +319,194 @@ export default function ScannerForm({
                         className="mt-1 text-sm text-slate-600 dark:text-slate-300"
                       >
                         We&apos;ll follow primary routes (forms, signup,
-                        checkout) for a richer snapshot—up to five key pages.
+                        checkout) for a richer snapshot—four key pages by
+                        default.
+                      </p>
+                    </span>
+                  </label>
+                  <label className="group flex items-start gap-3 rounded-2xl border border-white/60 bg-white/55 px-4 py-4 text-left text-slate-700 shadow-[0_10px_25px_-18px_rgba(15,23,42,0.25)] transition duration-200 focus-within:border-blue-500 focus-within:bg-white/80 focus-within:shadow-[0_18px_35px_-20px_rgba(37,99,235,0.35)] focus-within:ring-4 focus-within:ring-blue-200/70 focus-within:ring-offset-2 focus-within:ring-offset-white dark:border-slate-700/60 dark:bg-slate-900/50 dark:text-slate-200 dark:focus-within:border-blue-400/80 dark:focus-within:bg-slate-900/70 dark:focus-within:ring-blue-500/30 dark:focus-within:ring-offset-slate-900">
+                    <input
+                      type="radio"
+                      name="mode"
+                      value="list"
+                      checked={mode === "list"}
+                      onChange={(e) => setMode(e.target.value as "list")}
+                      disabled={loading}
+                      className="peer mt-1 h-5 w-5 border-slate-400 text-blue-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:border-slate-500 dark:bg-slate-900 dark:text-blue-400 dark:focus-visible:ring-blue-400/80 dark:focus-visible:ring-offset-slate-900"
+                      aria-describedby="list-mode-copy"
+                    />
+                    <span>
+                      <span className="text-base font-semibold text-slate-900 dark:text-white">
+                        URL list
+                      </span>
+                      <p
+                        id="list-mode-copy"
+                        className="mt-1 text-sm text-slate-600 dark:text-slate-300"
+                      >
+                        Already know the pages that matter? Scan exactly those,
+                        with a combined report and per-page results.
+                      </p>
+                    </span>
+                  </label>
+                  <label className="group flex items-start gap-3 rounded-2xl border border-white/60 bg-white/55 px-4 py-4 text-left text-slate-700 shadow-[0_10px_25px_-18px_rgba(15,23,42,0.25)] transition duration-200 focus-within:border-blue-500 focus-within:bg-white/80 focus-within:shadow-[0_18px_35px_-20px_rgba(37,99,235,0.35)] focus-within:ring-4 focus-within:ring-blue-200/70 focus-within:ring-offset-2 focus-within:ring-offset-white dark:border-slate-700/60 dark:bg-slate-900/50 dark:text-slate-200 dark:focus-within:border-blue-400/80 dark:focus-within:bg-slate-900/70 dark:focus-within:ring-blue-500/30 dark:focus-within:ring-offset-slate-900">
+                    <input
+                      type="radio"
+                      name="mode"
+                      value="journey"
+                      checked={mode === "journey"}
+                      onChange={(e) => setMode(e.target.value as "journey")}
+                      disabled={loading}
+                      className="peer mt-1 h-5 w-5 border-slate-400 text-blue-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:border-slate-500 dark:bg-slate-900 dark:text-blue-400 dark:focus-visible:ring-blue-400/80 dark:focus-visible:ring-offset-slate-900"
+                      aria-describedby="journey-mode-copy"
+                    />
+                    <span>
+                      <span className="text-base font-semibold text-slate-900 dark:text-white">
+                        User journey
+                      </span>
+                      <p
+                        id="journey-mode-copy"
+                        className="mt-1 text-sm text-slate-600 dark:text-slate-300"
+                      >
+                        Click, fill and wait through a flow such as checkout,
+                        and scan each state you mark as a checkpoint.
                       </p>
                     </span>
                   </label>
                 </div>
               </fieldset>
+              {mode === "list" && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="url-list"
+                    className="block text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-200"
+                  >
+                    Pages to scan
+                  </label>
+                  <textarea
+                    id="url-list"
+                    value={urlList}
+                    onChange={(e) => setUrlList(e.target.value)}
+                    rows={6}
+                    placeholder={
+                      "https://example.com/login\nhttps://example.com/checkout"
+                    }
+                    disabled={loading}
+                    aria-describedby="url-list-hint"
+                    className="w-full rounded-2xl border border-white/80 bg-white/80 px-4 py-3 font-mono text-sm text-slate-900 transition focus:border-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-200/70 dark:border-slate-700/80 dark:bg-slate-900/60 dark:text-white dark:focus:ring-blue-500/30"
+                  />
+                  <span
+                    id="url-list-hint"
+                    className="text-xs text-slate-500 dark:text-slate-400"
+                  >
+                    One URL per line. The website URL above is optional and
+                    defaults to the first page.
+                  </span>
+                </div>
+              )}
+              {mode === "journey" && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="journey-steps"
+                    className="block text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-200"
+                  >
+                    Journey steps
+                  </label>
+                  <textarea
+                    id="journey-steps"
+                    value={journeySteps}
+                    onChange={(e) => setJourneySteps(e.target.value)}
+                    rows={8}
+                    placeholder={JOURNEY_STEPS_PLACEHOLDER}
+                    disabled={loading}
+                    aria-describedby="journey-steps-hint"
+                    className="w-full rounded-2xl border border-white/80 bg-white/80 px-4 py-3 font-mono text-sm text-slate-900 transition focus:border-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-200/70 dark:border-slate-700/80 dark:bg-slate-900/60 dark:text-white dark:focus:ring-blue-500/30"
+                  />
+                  <span
+                    id="journey-steps-hint"
+                    className="text-xs text-slate-500 dark:text-slate-400"
+                  >
+                    A JSON array of steps, run after opening the website URL:
+                    navigate, click, fill, wait and scan. Each scan step is a
+                    checkpoint and needs a unique name.
+                  </span>
+                </div>
+              )}
+              {mode === "exploration" && (
+                <fieldset className="space-y-4">
+                  <legend className="text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-200">
+                    Crawl limits
+                  </legend>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <label className="block space-y-2 text-sm text-slate-700 dark:text-slate-200">
+                      <span className="font-medium">Max pages</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={CRAWL_LIMITS.maxPages}
+                        value={maxPages}
+                        onChange={(e) =>
+                          setMaxPages(
+                            Math.min(
+                              CRAWL_LIMITS.maxPages,
+                              Math.max(1, Number(e.target.value) || 1),
+                            ),
+                          )
+                        }
+                        disabled={loading}
+                        className="w-full rounded-2xl border border-white/80 bg-white/80 px-4 py-2 text-base text-slate-900 transition focus:border-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-200/70 dark:border-slate-700/80 dark:bg-slate-900/60 dark:text-white dark:focus:ring-blue-500/30"
+                      />
+                    </label>
+                    <label className="block space-y-2 text-sm text-slate-700 dark:text-slate-200">
+                      <span className="font-medium">Link depth</span>
+                      <select
+                        value={maxDepth}
+                        onChange={(e) => setMaxDepth(Number(e.target.value))}
+                        disabled={loading}
+                        className="w-full rounded-2xl border border-white/80 bg-white/80 px-4 py-2 text-base text-slate-900 transition focus:border-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-200/70 dark:border-slate-700/80 dark:bg-slate-900/60 dark:text-white dark:focus:ring-blue-500/30"
+                      >
+                        {Array.from(
+                          { length: CRAWL_LIMITS.maxDepth },
+                          (_, index) => index + 1,
+                        ).map((depth) => (
+                          <option key={depth} value={depth}>
+                            {depth === 1
+                              ? "1 (start page links)"
+                              : `${depth} hops`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                  <label className="block space-y-2 text-sm text-slate-700 dark:text-slate-200">
+                    <span className="font-medium">Page discovery</span>
+                    <select
+                      value={discoveryStrategy}
+                      onChange={(e) =>
+                        setDiscoveryStrategy(
+                          e.target.value as DiscoveryStrategy,
+                        )
+                      }
+                      disabled={loading}
+                      className="w-full rounded-2xl border border-white/80 bg-white/80 px-4 py-2 text-base text-slate-900 transition focus:border-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-200/70 dark:border-slate-700/80 dark:bg-slate-900/60 dark:text-white dark:focus:ring-blue-500/30"
+                    >
+                      <option value="agent">AI discovery agent</option>
+                      <option value="sitemap">
+                        Sitemap and robots.txt (no LLM)
+                      </option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={includeSubdomains}
+                      onChange={(e) => setIncludeSubdomains(e.target.checked)}
+                      disabled={loading}
+                      className="h-4 w-4 rounded border-slate-400 text-blue-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:border-slate-500 dark:bg-slate-900"
+                    />
+                    Include subdomains
+                  </label>
+                </fieldset>
+              )}
               {error && (
                 <div
                   className="rounded-2xl border border-red-300 bg-red-50/90 px-4 py-3 text-sm text-red-800 shadow-sm dark:border-red-700 dark:bg-red-900/40 dark:text-red-100"
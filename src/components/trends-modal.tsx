@@ -0,0 +1,502 @@
+"use client";
+
+import { type ReactNode, useEffect, useMemo, useState } from "react";
+import { getScansByUrl } from "@/lib/history-client";
+import type { ScanRecord, ViolationSeverity } from "@/lib/history-types";
+import { formatFullDate, truncateUrl } from "@/lib/history-utils";
+import {
+  buildScanTrend,
+  getTrendSummaryText,
+  getTrendTarget,
+  type TrendPoint,
+  type TrendScope,
+} from "@/lib/trend-analysis";
+
+interface TrendsModalProps {
+  /** URL whose history is charted */
+  url: string;
+  onClose: () => void;
+}
+
+// Chart geometry in SVG user units
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const PADDING = { top: 24, right: 16, bottom: 28, left: 36 };
+
+const SEVERITIES: ViolationSeverity[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+const SEVERITY_FILLS: Record<ViolationSeverity, string> = {
+  critical: "fill-red-500",
+  serious: "fill-orange-500",
+  moderate: "fill-yellow-400",
+  minor: "fill-blue-400",
+};
+
+const SEVERITY_SWATCHES: Record<ViolationSeverity, string> = {
+  critical: "bg-red-500",
+  serious: "bg-orange-500",
+  moderate: "bg-yellow-400",
+  minor: "bg-blue-400",
+};
+
+const DIRECTION_STYLES = {
+  improving:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  regressing: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  stable: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+} as const;
+
+interface ChartScale {
+  x: (index: number) => number;
+  y: (value: number) => number;
+  /** Width of one scan's slot, used for bars */
+  step: number;
+}
+
+function shortDate(isoString: string): string {
+  return new Date(isoString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Axes, gridlines, date ticks and label annotations shared by every chart.
+ * Scans are spaced evenly so each sprint's scan gets the same width
+ */
+function TrendChart({
+  title,
+  points,
+  max,
+  children,
+}: {
+  title: string;
+  points: TrendPoint[];
+  max: number;
+  children: (scale: ChartScale) => ReactNode;
+}) {
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const step = plotWidth / points.length;
+  const top = Math.max(max, 1);
+  const scale: ChartScale = {
+    x: (index) => PADDING.left + step * (index + 0.5),
+    y: (value) => PADDING.top + plotHeight * (1 - value / top),
+    step,
+  };
+  // Thin out date ticks so they do not overlap
+  const tickEvery = Math.ceil(points.length / 8);
+
+  return (
+    <figure>
+      <figcaption className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+        {title}
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full text-gray-400 dark:text-gray-500"
+        role="img"
+        aria-label={title}
+      >
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={scale.y(top * fraction)}
+              y2={scale.y(top * fraction)}
+              stroke="currentColor"
+              strokeOpacity={0.3}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={scale.y(top * fraction) + 4}
+              textAnchor="end"
+              className="fill-current text-[10px]"
+            >
+              {Math.round(top * fraction)}
+            </text>
+          </g>
+        ))}
+
+        {points.map((point, index) =>
+          point.label ? (
+            <g key={`label-${point.scanId}`}>
+              <line
+                x1={scale.x(index)}
+                x2={scale.x(index)}
+                y1={PADDING.top - 4}
+                y2={CHART_HEIGHT - PADDING.bottom}
+                stroke="currentColor"
+                strokeDasharray="4 3"
+              />
+              <text
+                x={scale.x(index)}
+                y={PADDING.top - 8}
+                textAnchor="middle"
+                className="fill-purple-700 text-[10px] dark:fill-purple-300"
+              >
+                {truncateUrl(point.label, 18)}
+              </text>
+            </g>
+          ) : null,
+        )}
+
+        {children(scale)}
+
+        {points.map((point, index) =>
+          index % tickEvery === 0 || index === points.length - 1 ? (
+            <text
+              key={`tick-${point.scanId}`}
+              x={scale.x(index)}
+              y={CHART_HEIGHT - 8}
+              textAnchor="middle"
+              className="fill-current text-[10px]"
+            >
+              {shortDate(point.timestamp)}
+            </text>
+          ) : null,
+        )}
+      </svg>
+    </figure>
+  );
+}
+
+function TrendLine({
+  points,
+  scale,
+  value,
+  className,
+}: {
+  points: TrendPoint[];
+  scale: ChartScale;
+  value: (point: TrendPoint) => number;
+  className: string;
+}) {
+  const path = points
+    .map((point, index) => `${scale.x(index)},${scale.y(value(point))}`)
+    .join(" ");
+
+  return (
+    <g className={className}>
+      <polyline
+        points={path}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+      />
+      {points.map((point, index) => (
+        <circle
+          key={point.scanId}
+          cx={scale.x(index)}
+          cy={scale.y(value(point))}
+          r={3.5}
+          fill="currentColor"
+        >
+          <title>{`${formatFullDate(point.timestamp)}: ${value(point)}`}</title>
+        </circle>
+      ))}
+    </g>
+  );
+}
+
+function SeverityBars({
+  points,
+  scale,
+}: {
+  points: TrendPoint[];
+  scale: ChartScale;
+}) {
+  const width = Math.min(scale.step * 0.6, 40);
+
+  return (
+    <g>
+      {points.map((point, index) => {
+        let stacked = 0;
+        return SEVERITIES.map((severity) => {
+          const count = point.violationsBySeverity[severity];
+          if (count === 0) return null;
+
+          const y = scale.y(stacked + count);
+          const height = scale.y(stacked) - y;
+          stacked += count;
+          return (
+            <rect
+              key={`${point.scanId}-${severity}`}
+              x={scale.x(index) - width / 2}
+              y={y}
+              width={width}
+              height={height}
+              className={SEVERITY_FILLS[severity]}
+            >
+              <title>{`${shortDate(point.timestamp)}: ${count} ${severity}`}</title>
+            </rect>
+          );
+        });
+      })}
+    </g>
+  );
+}
+
+/**
+ * Charts violations, severity breakdown and quality score across every scan
+ * of a URL or site, with scan labels (e.g. sprint names) as annotations
+ */
+export function TrendsModal({ url, onClose }: TrendsModalProps) {
+  const [scope, setScope] = useState<TrendScope>("url");
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Partial match on the trend target, then buildScanTrend keeps exact hits
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getScansByUrl(getTrendTarget(url, scope)).then((result) => {
+      if (cancelled) return;
+      setScans(result.success && result.data ? result.data : []);
+      setError(result.success ? null : (result.error ?? "Unknown error"));
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, scope]);
+
+  const trend = useMemo(
+    () => buildScanTrend(scans, url, scope),
+    [scans, url, scope],
+  );
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.removeEventListener("keydown", handleEscape);
+      document.body.style.overflow = "unset";
+    };
+  }, [onClose]);
+
+  const { points, summary } = trend;
+  const maxViolations = Math.max(0, ...points.map((p) => p.totalViolations));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div
+        className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trends-title"
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 p-6 flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <h2
+              id="trends-title"
+              className="text-2xl font-bold text-gray-900 dark:text-gray-100"
+            >
+              Accessibility Trends
+            </h2>
+            <p
+              className="text-sm text-gray-500 dark:text-gray-400 mt-1 truncate"
+              title={trend.target}
+            >
+              {truncateUrl(trend.target, 60)}
+            </p>
+            <div className="mt-3 inline-flex rounded-md border border-gray-200 dark:border-gray-700 text-xs">
+              {(["url", "site"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScope(option)}
+                  aria-pressed={scope === option}
+                  className={`px-3 py-1 first:rounded-l-md last:rounded-r-md ${
+                    scope === option
+                      ? "bg-blue-600 text-white"
+                      : "text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+                  }`}
+                >
+                  {option === "url" ? "This URL" : "Whole site"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+            aria-label="Close trends"
+          >
+            <svg
+              className="w-6 h-6"
+              aria-hidden="true"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {loading && (
+            <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading...
+            </p>
+          )}
+
+          {!loading && error && (
+            <p className="text-sm text-red-700 dark:text-red-300">
+              Failed to load scan history: {error}
+            </p>
+          )}
+
+          {!loading && !error && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                {summary && (
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${DIRECTION_STYLES[summary.direction]}`}
+                  >
+                    {summary.direction}
+                  </span>
+                )}
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {getTrendSummaryText(trend)}
+                </p>
+              </div>
+
+              {summary && (
+                <>
+                  <TrendChart
+                    title="Total violations"
+                    points={points}
+                    max={maxViolations}
+                  >
+                    {(scale) => (
+                      <TrendLine
+                        points={points}
+                        scale={scale}
+                        value={(point) => point.totalViolations}
+                        className="text-blue-600 dark:text-blue-400"
+                      />
+                    )}
+                  </TrendChart>
+
+                  <TrendChart
+                    title="Violations by severity"
+                    points={points}
+                    max={maxViolations}
+                  >
+                    {(scale) => <SeverityBars points={points} scale={scale} />}
+                  </TrendChart>
+                  <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+                    {SEVERITIES.map((severity) => (
+                      <span
+                        key={severity}
+                        className="flex items-center gap-1 capitalize"
+                      >
+                        <span
+                          className={`w-3 h-3 ${SEVERITY_SWATCHES[severity]}`}
+                        />
+                        {severity}
+                      </span>
+                    ))}
+                  </div>
+
+                  <TrendChart
+                    title="Quality score (0-100)"
+                    points={points}
+                    max={100}
+                  >
+                    {(scale) => (
+                      <TrendLine
+                        points={points}
+                        scale={scale}
+                        value={(point) => point.qualityScore}
+                        className="text-green-600 dark:text-green-400"
+                      />
+                    )}
+                  </TrendChart>
+                </>
+              )}
+
+              {/* Data table, also the accessible alternative to the charts */}
+              {points.length > 0 && (
+                <details open={!summary}>
+                  <summary className="cursor-pointer text-sm font-semibold text-gray-700 dark:text-gray-300">
+                    Scan data ({points.length})
+                  </summary>
+                  <table className="mt-3 w-full text-left text-xs text-gray-700 dark:text-gray-300">
+                    <thead>
+                      <tr className="uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                        <th className="pb-2 pr-4 font-semibold">Date</th>
+                        <th className="pb-2 pr-4 font-semibold">Label</th>
+                        {scope === "site" && (
+                          <th className="pb-2 pr-4 font-semibold">URL</th>
+                        )}
+                        <th className="pb-2 pr-4 font-semibold">Total</th>
+                        {SEVERITIES.map((severity) => (
+                          <th
+                            key={severity}
+                            className="pb-2 pr-4 font-semibold"
+                          >
+                            {severity}
+                          </th>
+                        ))}
+                        <th className="pb-2 font-semibold">Score</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                      {points.map((point) => (
+                        <tr key={point.scanId}>
+                          <td className="py-1.5 pr-4 whitespace-nowrap">
+                            {formatFullDate(point.timestamp)}
+                          </td>
+                          <td className="py-1.5 pr-4">{point.label ?? "—"}</td>
+                          {scope === "site" && (
+                            <td className="py-1.5 pr-4" title={point.url}>
+                              {truncateUrl(point.url, 30)}
+                            </td>
+                          )}
+                          <td className="py-1.5 pr-4">
+                            {point.totalViolations}
+                          </td>
+                          {SEVERITIES.map((severity) => (
+                            <td key={severity} className="py-1.5 pr-4">
+                              {point.violationsBySeverity[severity]}
+                            </td>
+                          ))}
+                          <td className="py-1.5">{point.qualityScore}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
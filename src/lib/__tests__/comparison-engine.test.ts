@@ -1,17 +1,22 @@
 import { describe, expect, it } from "vitest";
+import type { PageFindings, Violation } from "../findings-types";
 import type { ScanRecord } from "../history-types";
 import {
   calculateQualityScore,
   compareQualityScores,
   compareScanRecords,
+  diffFindings,
+  fingerprintViolation,
   formatPercentageChange,
   getComparisonSummary,
   getMostSignificantChange,
   getTrendIndicator,
   isImprovement,
   isRegression,
+  normalizeSelector,
   validateComparison,
 } from "../comparison-engine";
+import { createViolation } from "./support/violations";
 
 // Helper function to create mock scan records
 function createMockScan(
@@ -504,3 +509,239 @@ describe("validateComparison", () => {
     expect(result.warning).toContain("itself");
   });
 });
+
+// Helper function to create a scan record from violations
+function createScanWithFindings(
+  id: string,
+  violations: Violation[],
+): ScanRecord {
+  const findings: PageFindings[] = [
+    {
+      pageUrl: "https://example.com",
+      violations,
+      scannedAt: new Date().toISOString(),
+    },
+  ];
+  const violationsBySeverity = {
+    critical: 0,
+    serious: 0,
+    moderate: 0,
+    minor: 0,
+  };
+  for (const violation of violations) {
+    violationsBySeverity[violation.impact]++;
+  }
+
+  return {
+    id,
+    url: "https://example.com",
+    mode: "single",
+    timestamp: new Date().toISOString(),
+    report: "Mock report",
+    metadata: {
+      totalViolations: violations.length,
+      violationsBySeverity,
+      pageCount: 1,
+    },
+    findings,
+  };
+}
+
+describe("fingerprintViolation", () => {
+  it("should ignore cosmetic selector and URL differences", () => {
+    const a = createViolation({
+      ruleId: "label",
+      selectors: ["form  >  input:nth-child(2)"],
+      pageUrl: "https://example.com",
+    });
+    const b = {
+      ...createViolation({
+        ruleId: "label",
+        selectors: ["form>input"],
+        pageUrl: "https://example.com",
+      }),
+      pageUrl: "https://EXAMPLE.com/#top",
+    };
+
+    expect(normalizeSelector("form  >  input:nth-child(2)")).toBe("form>input");
+    expect(fingerprintViolation(a)).toBe(fingerprintViolation(b));
+  });
+
+  it("should distinguish rules, selectors and pages", () => {
+    const base = createViolation({
+      ruleId: "label",
+      selectors: ["#email"],
+      pageUrl: "https://example.com",
+    });
+
+    expect(fingerprintViolation(base)).not.toBe(
+      fingerprintViolation(
+        createViolation({
+          ruleId: "color-contrast",
+          selectors: ["#email"],
+          pageUrl: "https://example.com",
+        }),
+      ),
+    );
+    expect(fingerprintViolation(base)).not.toBe(
+      fingerprintViolation(
+        createViolation({
+          ruleId: "label",
+          selectors: ["#name"],
+          pageUrl: "https://example.com",
+        }),
+      ),
+    );
+    expect(fingerprintViolation(base)).not.toBe(
+      fingerprintViolation(
+        createViolation({
+          ruleId: "label",
+          selectors: ["#email"],
+          impact: "serious",
+          pageUrl: "https://example.com/b",
+        }),
+      ),
+    );
+  });
+});
+
+describe("diffFindings", () => {
+  it("should match duplicate fingerprints one-to-one", () => {
+    const page = (violations: Violation[]): PageFindings[] => [
+      { pageUrl: "https://example.com", violations, scannedAt: "" },
+    ];
+
+    const diff = diffFindings(
+      page([
+        createViolation({
+          ruleId: "region",
+          selectors: ["div"],
+          pageUrl: "https://example.com",
+        }),
+        createViolation({
+          ruleId: "region",
+          selectors: ["div"],
+          pageUrl: "https://example.com",
+        }),
+      ]),
+      page([
+        createViolation({
+          ruleId: "region",
+          selectors: ["div"],
+          pageUrl: "https://example.com",
+        }),
+      ]),
+    );
+
+    expect(diff.persisting).toHaveLength(1);
+    expect(diff.fixed).toHaveLength(1);
+    expect(diff.introduced).toHaveLength(0);
+  });
+});
+
+describe("compareScanRecords with findings", () => {
+  it("should report fixes and regressions hidden by equal totals", () => {
+    const baseline = createScanWithFindings("1", [
+      createViolation({
+        ruleId: "label",
+        selectors: ["#email"],
+        impact: "critical",
+        pageUrl: "https://example.com",
+      }),
+      createViolation({
+        ruleId: "color-contrast",
+        selectors: [".hero p"],
+        pageUrl: "https://example.com",
+      }),
+      createViolation({
+        ruleId: "image-alt",
+        selectors: ["img.logo"],
+        impact: "critical",
+        pageUrl: "https://example.com",
+      }),
+    ]);
+    const current = createScanWithFindings("2", [
+      createViolation({
+        ruleId: "label",
+        selectors: ["#email"],
+        impact: "critical",
+        pageUrl: "https://example.com",
+      }),
+      createViolation({
+        ruleId: "link-name",
+        selectors: ["a.icon"],
+        pageUrl: "https://example.com",
+      }),
+      createViolation({
+        ruleId: "button-name",
+        selectors: ["button.menu"],
+        impact: "critical",
+        pageUrl: "https://example.com",
+      }),
+    ]);
+
+    const comparison = compareScanRecords(baseline, current);
+
+    expect(comparison.overall.fixed).toBe(2);
+    expect(comparison.overall.new).toBe(2);
+    expect(comparison.overall.unchanged).toBe(1);
+    expect(comparison.issues?.introduced.map((v) => v.ruleId)).toEqual([
+      "link-name",
+      "button-name",
+    ]);
+    expect(comparison.bySeverity.critical.issues?.fixed[0].ruleId).toBe(
+      "image-alt",
+    );
+    expect(comparison.bySeverity.serious.new).toBe(1);
+    expect(getComparisonSummary(comparison)).toBe("2 fixed, 2 new");
+    expect(isRegression(comparison)).toBe(true);
+  });
+
+  it("should not call fixes an improvement when new issues came in", () => {
+    const fixed = ["#a", "#b", "#c"].map((selector) =>
+      createViolation({ ruleId: "label", selectors: [selector] }),
+    );
+    const introduced = createViolation({ ruleId: "link-name" });
+    const comparison = compareScanRecords(
+      createScanWithFindings("1", fixed),
+      createScanWithFindings("2", [introduced]),
+    );
+
+    expect(comparison.overall.currentTotal).toBeLessThan(
+      comparison.overall.baselineTotal,
+    );
+    expect(isImprovement(comparison)).toBe(false);
+    expect(isRegression(comparison)).toBe(true);
+    expect(
+      isImprovement(
+        compareScanRecords(
+          createScanWithFindings("1", fixed),
+          createScanWithFindings("2", fixed.slice(1)),
+        ),
+      ),
+    ).toBe(true);
+  });
+
+  it("should fall back to count math without findings", () => {
+    const baseline = createScanWithFindings("1", [
+      createViolation({
+        ruleId: "label",
+        selectors: ["#email"],
+        pageUrl: "https://example.com",
+      }),
+    ]);
+    const current = createMockScan("2", "https://example.com", {
+      critical: 0,
+      serious: 1,
+      moderate: 0,
+      minor: 0,
+    });
+
+    const comparison = compareScanRecords(baseline, current);
+
+    expect(comparison.issues).toBeUndefined();
+    expect(getComparisonSummary(comparison)).toBe(
+      "No change in violation count",
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CRAWL_OPTIONS,
+  isInCrawlScope,
+  mergeDiscoveredUrls,
+  resolveCrawlOptions,
+  validateCrawlOptions,
+} from "../crawl-utils";
+import type { DiscoveredUrl } from "../multi-agent-types";
+
+function discovered(
+  url: string,
+  priority: DiscoveredUrl["priority"] = "medium",
+): DiscoveredUrl {
+  return { url, description: url, priority };
+}
+
+describe("resolveCrawlOptions", () => {
+  it("should keep the four-page default", () => {
+    expect(resolveCrawlOptions()).toEqual(DEFAULT_CRAWL_OPTIONS);
+    expect(resolveCrawlOptions().maxPages).toBe(4);
+  });
+
+  it("should override only the provided options", () => {
+    expect(resolveCrawlOptions({ maxPages: 12 })).toEqual({
+      maxPages: 12,
+      maxDepth: 1,
+      scope: "same-origin",
+    });
+  });
+});
+
+describe("validateCrawlOptions", () => {
+  it("should accept missing and valid options", () => {
+    expect(validateCrawlOptions(undefined)).toBeNull();
+    expect(
+      validateCrawlOptions({ maxPages: 20, maxDepth: 2, scope: "subdomains" }),
+    ).toBeNull();
+  });
+
+  it("should reject out-of-range or malformed values", () => {
+    expect(validateCrawlOptions({ maxPages: 0 })).toMatch(/maxPages/);
+    expect(validateCrawlOptions({ maxPages: 2.5 })).toMatch(/maxPages/);
+    expect(validateCrawlOptions({ maxDepth: 10 })).toMatch(/maxDepth/);
+    expect(validateCrawlOptions({ scope: "anywhere" })).toMatch(/scope/);
+    expect(validateCrawlOptions("deep")).toBe("Invalid crawl options");
+  });
+});
+
+describe("isInCrawlScope", () => {
+  const root = "https://www.example.com/";
+
+  it("should only allow the start origin for same-origin crawls", () => {
+    expect(
+      isInCrawlScope("https://www.example.com/login", root, "same-origin"),
+    ).toBe(true);
+    expect(
+      isInCrawlScope("https://shop.example.com/", root, "same-origin"),
+    ).toBe(false);
+    expect(
+      isInCrawlScope("http://www.example.com/login", root, "same-origin"),
+    ).toBe(false);
+  });
+
+  it("should allow subdomains but not lookalike hosts", () => {
+    expect(
+      isInCrawlScope("https://shop.example.com/", root, "subdomains"),
+    ).toBe(true);
+    expect(isInCrawlScope("https://example.com/", root, "subdomains")).toBe(
+      true,
+    );
+    expect(isInCrawlScope("https://notexample.com/", root, "subdomains")).toBe(
+      false,
+    );
+  });
+
+  it("should reject non-http and unparsable URLs", () => {
+    expect(isInCrawlScope("mailto:hi@example.com", root, "subdomains")).toBe(
+      false,
+    );
+    expect(isInCrawlScope("/relative", root, "same-origin")).toBe(false);
+  });
+});
+
+describe("mergeDiscoveredUrls", () => {
+  const root = "https://example.com";
+  const options = resolveCrawlOptions({ maxPages: 3 });
+
+  it("should deduplicate URLs that differ only by trailing slash or hash", () => {
+    const existing = [discovered("https://example.com/login")];
+    const added = mergeDiscoveredUrls(
+      existing,
+      [
+        discovered("https://example.com/login/"),
+        discovered("https://example.com/signup#form"),
+        discovered("https://example.com/signup"),
+      ],
+      root,
+      options,
+    );
+
+    expect(added.map((entry) => entry.url)).toEqual([
+      "https://example.com/signup#form",
+    ]);
+  });
+
+  it("should prefer high-priority URLs when the budget is tight", () => {
+    const added = mergeDiscoveredUrls(
+      [discovered("https://example.com/a")],
+      [
+        discovered("https://example.com/low", "low"),
+        discovered("https://example.com/high", "high"),
+        discovered("https://example.com/medium", "medium"),
+      ],
+      root,
+      options,
+    );
+
+    expect(added.map((entry) => entry.url)).toEqual([
+      "https://example.com/high",
+      "https://example.com/medium",
+    ]);
+  });
+
+  it("should skip out-of-scope URLs", () => {
+    const added = mergeDiscoveredUrls(
+      [],
+      [
+        discovered("https://other.com/login"),
+        discovered("https://example.com/contact"),
+      ],
+      root,
+      options,
+    );
+
+    expect(added.map((entry) => entry.url)).toEqual([
+      "https://example.com/contact",
+    ]);
+  });
+});
@@ -0,0 +1,259 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { describe, expect, it } from "vitest";
+import {
+  countFindings,
+  extractFindingsFromMessages,
+  parseScanPageOutput,
+  wcagCriteriaFromTags,
+} from "../findings-parser";
+import { buildMetadataFromFindings, createScanRecord } from "../history-utils";
+
+const WAIVER = {
+  justification: "Brand colours",
+  owner: "design-team",
+  expires: "2999-12-31",
+};
+
+const axeResult = {
+  url: "https://example.com/signup",
+  violations: [
+    {
+      id: "color-contrast",
+      impact: "serious",
+      tags: ["cat.color", "wcag2aa", "wcag143"],
+      description: "Ensures contrast meets WCAG 2 AA thresholds",
+      help: "Elements must have sufficient color contrast",
+      helpUrl: "https://dequeuniversity.com/rules/axe/4.10/color-contrast",
+      nodes: [
+        { target: [".hero p"], html: '<p class="muted">Sign up</p>' },
+        { target: ["footer a"], html: '<a href="/terms">Terms</a>' },
+      ],
+    },
+    {
+      id: "label",
+      impact: "critical",
+      tags: ["wcag2a", "wcag412", "wcag131"],
+      help: "Form elements must have labels",
+      nodes: [{ target: ["#email"], html: '<input id="email">' }],
+    },
+  ],
+};
+
+describe("parseScanPageOutput", () => {
+  it("should create one violation per failing element", () => {
+    const findings = parseScanPageOutput(
+      JSON.stringify(axeResult),
+      "https://example.com",
+    );
+
+    expect(findings?.violations).toHaveLength(3);
+    expect(findings?.violations[0]).toMatchObject({
+      ruleId: "color-contrast",
+      description: "Elements must have sufficient color contrast",
+      wcagCriteria: ["1.4.3"],
+      impact: "serious",
+      selectors: [".hero p"],
+      html: '<p class="muted">Sign up</p>',
+      helpUrl: "https://dequeuniversity.com/rules/axe/4.10/color-contrast",
+    });
+    expect(findings?.violations[2].impact).toBe("critical");
+  });
+
+  it("should use the URL reported by the scanner", () => {
+    const findings = parseScanPageOutput(
+      JSON.stringify(axeResult),
+      "https://example.com",
+    );
+
+    expect(findings?.pageUrl).toBe("https://example.com/signup");
+    expect(findings?.violations[0].pageUrl).toBe("https://example.com/signup");
+  });
+
+  it("should fall back to the requested URL", () => {
+    const findings = parseScanPageOutput(
+      JSON.stringify(axeResult.violations),
+      "https://example.com",
+    );
+
+    expect(findings?.pageUrl).toBe("https://example.com");
+    expect(findings?.violations).toHaveLength(3);
+  });
+
+  it("should extract JSON surrounded by text", () => {
+    const raw = `Scan complete.\n\`\`\`json\n${JSON.stringify(axeResult)}\n\`\`\``;
+    const findings = parseScanPageOutput(raw, "https://example.com");
+
+    expect(findings?.violations).toHaveLength(3);
+  });
+
+  it("should default unknown impact to minor", () => {
+    const findings = parseScanPageOutput(
+      JSON.stringify({
+        violations: [
+          { id: "region", impact: null, nodes: [{ target: ["div"] }] },
+        ],
+      }),
+      "https://example.com",
+    );
+
+    expect(findings?.violations[0].impact).toBe("minor");
+  });
+
+  it("should return empty findings for a clean page", () => {
+    const findings = parseScanPageOutput(
+      JSON.stringify({ url: "https://example.com", violations: [] }),
+      "https://example.com",
+    );
+
+    expect(findings?.violations).toEqual([]);
+  });
+
+  it("should return null for output without scan results", () => {
+    expect(parseScanPageOutput("Browser closed", "https://a.com")).toBeNull();
+    expect(parseScanPageOutput('{"ok":true}', "https://a.com")).toBeNull();
+  });
+});
+
+describe("wcagCriteriaFromTags", () => {
+  it("should convert criterion tags and skip level tags", () => {
+    expect(
+      wcagCriteriaFromTags(["wcag2a", "wcag2aa", "wcag111", "wcag1410"]),
+    ).toEqual(["1.1.1", "1.4.10"]);
+  });
+});
+
+describe("extractFindingsFromMessages", () => {
+  it("should only read scan_page tool messages", () => {
+    const messages = [
+      new AIMessage("Navigating"),
+      new ToolMessage({
+        content: "Navigated",
+        name: "browser_navigate",
+        tool_call_id: "1",
+      }),
+      new ToolMessage({
+        content: [{ type: "text", text: JSON.stringify(axeResult) }],
+        name: "scan_page",
+        tool_call_id: "2",
+      }),
+    ];
+
+    const findings = extractFindingsFromMessages(
+      messages,
+      "https://example.com",
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].violations).toHaveLength(3);
+  });
+
+  it("should keep the latest scan of the same page", () => {
+    const messages = [
+      new ToolMessage({
+        content: JSON.stringify(axeResult),
+        name: "scan_page",
+        tool_call_id: "1",
+      }),
+      new ToolMessage({
+        content: JSON.stringify({ ...axeResult, violations: [] }),
+        name: "scan_page",
+        tool_call_id: "2",
+      }),
+    ];
+
+    const findings = extractFindingsFromMessages(
+      messages,
+      "https://example.com",
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].violations).toEqual([]);
+  });
+});
+
+describe("countFindings", () => {
+  it("should count violations by severity across pages", () => {
+    const page = parseScanPageOutput(
+      JSON.stringify(axeResult),
+      "https://example.com",
+    );
+    const counts = countFindings(page ? [page, page] : []);
+
+    expect(counts.totalViolations).toBe(6);
+    expect(counts.violationsBySeverity).toEqual({
+      critical: 2,
+      serious: 4,
+      moderate: 0,
+      minor: 0,
+    });
+  });
+});
+
+describe("buildMetadataFromFindings", () => {
+  it("should ignore counts stated in the report", () => {
+    const page = parseScanPageOutput(
+      JSON.stringify(axeResult),
+      "https://example.com",
+    );
+    const metadata = buildMetadataFromFindings(
+      page ? [page] : [],
+      "**Total Violations:** 42\n\nMeets WCAG AA compliance",
+      "exploration",
+    );
+
+    expect(metadata.totalViolations).toBe(3);
+    expect(metadata.violationsBySeverity.serious).toBe(2);
+    expect(metadata.pageCount).toBe(1);
+    expect(metadata.wcagLevel).toBe("AA");
+  });
+});
+
+describe("createScanRecord", () => {
+  const page = parseScanPageOutput(
+    JSON.stringify(axeResult),
+    "https://example.com/signup",
+  );
+  const report =
+    "**Total Violations Found:** 5\n\n🔴 Critical: 1 violation\n🟠 Serious: 4 violations";
+  const pageResult = (url: string) => ({
+    url,
+    violations: 0,
+    report: "",
+    timestamp: "2025-01-01T00:00:00.000Z",
+  });
+
+  it("should count findings when every scanned page has them", () => {
+    const record = createScanRecord({
+      url: "https://example.com",
+      mode: "list",
+      report,
+      findings: page ? [page] : [],
+      pageResults: [
+        pageResult("https://example.com/signup"),
+        { ...pageResult("https://example.com/gone"), status: "failed" },
+      ],
+    });
+
+    expect(record.metadata.totalViolations).toBe(3);
+  });
+
+  it("should read the report like the scan did when findings are partial", () => {
+    const record = createScanRecord({
+      url: "https://example.com",
+      mode: "list",
+      report,
+      findings: page ? [page] : [],
+      pageResults: [
+        pageResult("https://example.com/signup"),
+        pageResult("https://example.com/about"),
+      ],
+      waived: page ? [{ ...page.violations[0], waiver: WAIVER }] : [],
+    });
+
+    expect(record.metadata).toMatchObject({
+      totalViolations: 4,
+      violationsBySeverity: { critical: 1, serious: 3 },
+      waivedViolations: 1,
+    });
+  });
+});
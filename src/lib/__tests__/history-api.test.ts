@@ -0,0 +1,82 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { GET, POST } from "@/app/api/history/route";
+import { getSqliteHistoryStore } from "../sqlite-history-store";
+
+// The route opens the store on first use
+const dir = mkdtempSync(path.join(tmpdir(), "history-api-"));
+vi.stubEnv("HISTORY_DB_PATH", path.join(dir, "history.db"));
+
+function post(body: string) {
+  return POST(
+    new NextRequest("http://localhost/api/history", { method: "POST", body }),
+  );
+}
+
+afterAll(() => {
+  getSqliteHistoryStore()?.close();
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("POST /api/history", () => {
+  const scan = { url: "https://example.com/", mode: "single", report: "" };
+
+  it("should store a valid scan", async () => {
+    const response = await post(JSON.stringify(scan));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).metadata.totalViolations).toBe(0);
+  });
+
+  it.each([
+    ["a body that is not JSON", "{", "Invalid JSON body"],
+    [
+      "findings that are not an array",
+      JSON.stringify({ ...scan, findings: "none" }),
+      "findings must be an array of page findings",
+    ],
+    [
+      "a violation with an unknown impact",
+      JSON.stringify({
+        ...scan,
+        findings: [
+          {
+            pageUrl: "https://example.com/",
+            scannedAt: "2025-01-01T00:00:00.000Z",
+            violations: [{ ruleId: "image-alt", impact: "high" }],
+          },
+        ],
+      }),
+      "findings[0] is not a valid page finding",
+    ],
+    [
+      "page results without a violation count",
+      JSON.stringify({
+        ...scan,
+        pageResults: [{ url: "https://example.com/" }],
+      }),
+      "pageResults[0] is not a valid page result",
+    ],
+    [
+      "checkpoints that are not an array",
+      JSON.stringify({ ...scan, checkpoints: {} }),
+      "checkpoints must be an array of checkpoints",
+    ],
+  ])("should reject %s with 400", async (_case, body, error) => {
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+  });
+
+  it("should not store rejected scans", async () => {
+    const response = await GET(new NextRequest("http://localhost/api/history"));
+
+    expect(await response.json()).toHaveLength(1);
+  });
+});
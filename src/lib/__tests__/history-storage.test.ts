@@ -0,0 +1,234 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IndexedDbHistoryBackend,
+  MemoryHistoryBackend,
+  migrateHistory,
+} from "../history-storage";
+import type { ScanHistory } from "../history-types";
+import { createScanRecord } from "../history-utils";
+import { ScanHistoryManager } from "../scan-history-manager";
+
+const REPORT = "# Report\n\n**Total Violations Found:** 2";
+
+function historyOf(...urls: string[]): ScanHistory {
+  return {
+    version: 1,
+    scans: urls.map((url) =>
+      createScanRecord({ url, mode: "single", report: REPORT }),
+    ),
+    lastModified: new Date().toISOString(),
+  };
+}
+
+describe("migrateHistory", () => {
+  it("should move history into an empty target and clear the source", async () => {
+    const source = new MemoryHistoryBackend();
+    const target = new MemoryHistoryBackend();
+    await source.write(historyOf("https://a.example", "https://b.example"));
+
+    expect(await migrateHistory(source, target)).toBe(2);
+    expect((await target.read())?.scans.map((s) => s.url)).toEqual([
+      "https://a.example",
+      "https://b.example",
+    ]);
+    expect(await source.read()).toBeNull();
+  });
+
+  it("should leave both backends alone when the target already has scans", async () => {
+    const source = new MemoryHistoryBackend();
+    const target = new MemoryHistoryBackend();
+    await source.write(historyOf("https://old.example"));
+    await target.write(historyOf("https://new.example"));
+
+    expect(await migrateHistory(source, target)).toBe(0);
+    expect((await target.read())?.scans[0].url).toBe("https://new.example");
+    expect((await source.read())?.scans[0].url).toBe("https://old.example");
+  });
+
+  it("should do nothing when the source is empty", async () => {
+    const target = new MemoryHistoryBackend();
+
+    expect(await migrateHistory(new MemoryHistoryBackend(), target)).toBe(0);
+    expect(await target.read()).toBeNull();
+  });
+});
+
+describe("IndexedDbHistoryBackend", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should store one record per scan and read them newest first", async () => {
+    const backend = new IndexedDbHistoryBackend();
+    const [older, newer] = historyOf(
+      "https://a.example",
+      "https://b.example",
+    ).scans.map((scan, index) => ({
+      ...scan,
+      timestamp: `2025-01-0${index + 1}T00:00:00.000Z`,
+    }));
+
+    await backend.put(older);
+    await backend.put(newer);
+    await backend.put({ ...older, label: "Baseline" });
+    expect((await backend.read())?.scans.map((s) => s.label ?? s.url)).toEqual([
+      "https://b.example",
+      "Baseline",
+    ]);
+
+    await backend.delete(newer.id);
+    expect((await backend.read())?.scans.map((s) => s.id)).toEqual([older.id]);
+
+    await backend.remove();
+    expect(await backend.read()).toBeNull();
+  });
+
+  it("should move a version 1 history document into per-scan records", async () => {
+    const legacy = historyOf("https://a.example");
+    const open = indexedDB.open("accessibility_scanner", 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore("history").put(legacy, "scan_history");
+    };
+    await new Promise((resolve) => {
+      open.onsuccess = resolve;
+    });
+    open.result.close();
+
+    const history = await new IndexedDbHistoryBackend().read();
+    expect(history?.scans.map((s) => s.id)).toEqual([legacy.scans[0].id]);
+  });
+});
+
+describe("ScanHistoryManager with a storage backend", () => {
+  let backend: MemoryHistoryBackend;
+
+  beforeEach(() => {
+    backend = new MemoryHistoryBackend(5 * 1024 * 1024, 3);
+    ScanHistoryManager.useBackend(backend);
+  });
+
+  it("should persist added scans through the backend", async () => {
+    const added = await ScanHistoryManager.add({
+      url: "https://a.example",
+      mode: "single",
+      report: REPORT,
+      label: "Before fix",
+    });
+
+    expect(added.success).toBe(true);
+    expect((await backend.read())?.scans.map((s) => s.id)).toEqual([
+      added.data?.id,
+    ]);
+
+    const result = await ScanHistoryManager.getById(added.data?.id ?? "");
+    expect(result.data?.label).toBe("Before fix");
+  });
+
+  it("should save, relabel and delete single scans without rewriting history", async () => {
+    const write = vi.spyOn(backend, "write");
+    const put = vi.spyOn(backend, "put");
+    const first = await ScanHistoryManager.add({
+      url: "https://a.example",
+      mode: "single",
+      report: REPORT,
+    });
+    await ScanHistoryManager.add({
+      url: "https://b.example",
+      mode: "single",
+      report: REPORT,
+    });
+    const id = first.data?.id ?? "";
+    await ScanHistoryManager.updateLabel(id, "Baseline");
+    await ScanHistoryManager.delete(id);
+
+    expect(write).not.toHaveBeenCalled();
+    expect(put.mock.calls.map(([scan]) => scan.label)).toEqual([
+      undefined,
+      undefined,
+      "Baseline",
+    ]);
+    expect((await backend.read())?.scans.map((s) => s.url)).toEqual([
+      "https://b.example",
+    ]);
+  });
+
+  it("should not save over history it failed to read", async () => {
+    await ScanHistoryManager.add({
+      url: "https://a.example",
+      mode: "single",
+      report: REPORT,
+    });
+    vi.spyOn(backend, "read").mockRejectedValue(new Error("Database locked"));
+    const put = vi.spyOn(backend, "put");
+
+    const added = await ScanHistoryManager.add({
+      url: "https://b.example",
+      mode: "single",
+      report: REPORT,
+    });
+
+    expect(added).toEqual({
+      success: false,
+      error: "Could not read scan history: Database locked",
+    });
+    expect(put).not.toHaveBeenCalled();
+    vi.mocked(backend.read).mockRestore();
+    expect((await backend.read())?.scans).toHaveLength(1);
+  });
+
+  it("should evict the oldest scans beyond the backend's maxScans", async () => {
+    for (const url of ["1", "2", "3", "4"]) {
+      await ScanHistoryManager.add({
+        url: `https://${url}.example`,
+        mode: "single",
+        report: REPORT,
+      });
+    }
+
+    const result = await ScanHistoryManager.getAll();
+    expect(result.data?.map((s) => s.url)).toEqual([
+      "https://4.example",
+      "https://3.example",
+      "https://2.example",
+    ]);
+  });
+
+  it("should report quota against the backend's limit", async () => {
+    await ScanHistoryManager.add({
+      url: "https://a.example",
+      mode: "single",
+      report: REPORT,
+    });
+
+    const quota = await ScanHistoryManager.getQuota();
+    expect(quota.limit).toBe(5 * 1024 * 1024);
+    expect(quota.scanCount).toBe(1);
+    expect(quota.used).toBeGreaterThan(0);
+  });
+
+  it("should delete and clear scans", async () => {
+    const first = await ScanHistoryManager.add({
+      url: "https://a.example",
+      mode: "single",
+      report: REPORT,
+    });
+    await ScanHistoryManager.add({
+      url: "https://b.example",
+      mode: "single",
+      report: REPORT,
+    });
+
+    expect(
+      (await ScanHistoryManager.delete(first.data?.id ?? "")).success,
+    ).toBe(true);
+    expect((await ScanHistoryManager.getAll()).data).toHaveLength(1);
+
+    await ScanHistoryManager.clear();
+    expect((await backend.read())?.scans).toEqual([]);
+  });
+});
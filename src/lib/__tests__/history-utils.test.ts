@@ -6,6 +6,7 @@ import {
   generateScanId,
   parseReportMetadata,
   sanitizeLabel,
+  toPageResultRecords,
   truncateUrl,
 } from "../history-utils";
 
@@ -103,6 +104,13 @@ Total violations found: 25
     expect(metadata.pageCount).toBe(4);
   });
 
+  it("should extract page count for list mode", () => {
+    const report = "Scanned 10 pages from the release checklist.";
+
+    const metadata = parseReportMetadata(report, "list");
+    expect(metadata.pageCount).toBe(10);
+  });
+
   it("should extract WCAG level", () => {
     const report = `
 # Report
@@ -198,6 +206,33 @@ Some violations were found but details are not in expected format.
   });
 });
 
+describe("toPageResultRecords", () => {
+  it("should keep each page's URL, count and report", () => {
+    const records = toPageResultRecords([
+      {
+        url: "https://example.com/login",
+        scanData: "# Login report",
+        violations: 3,
+        timestamp: "2024-01-01T00:00:00.000Z",
+        findings: {
+          pageUrl: "https://example.com/login",
+          violations: [],
+          scannedAt: "2024-01-01T00:00:00.000Z",
+        },
+      },
+    ]);
+
+    expect(records).toEqual([
+      {
+        url: "https://example.com/login",
+        violations: 3,
+        report: "# Login report",
+        timestamp: "2024-01-01T00:00:00.000Z",
+      },
+    ]);
+  });
+});
+
 describe("formatRelativeTime", () => {
   it("should format recent times", () => {
     const now = new Date();
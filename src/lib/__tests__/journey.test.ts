@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectCheckpointResults,
+  formatCheckpointSection,
+  formatJourneySteps,
+  getJourneyCheckpoints,
+  validateJourney,
+} from "../journey";
+import type { ScanJourney } from "../types";
+
+const JOURNEY: ScanJourney = {
+  name: "Newsletter signup",
+  steps: [
+    { action: "click", target: 'button "Subscribe"' },
+    { action: "wait", text: "Join our newsletter" },
+    { action: "scan", name: "Signup dialog" },
+    { action: "navigate", url: "https://example.com/checkout" },
+    { action: "fill", target: 'textbox "Card number"', value: "4242" },
+    { action: "scan", name: "Checkout" },
+  ],
+};
+
+const scanOutput = (url: string, ruleIds: string[]) =>
+  JSON.stringify({
+    url,
+    violations: ruleIds.map((id) => ({
+      id,
+      impact: "serious",
+      description: `${id} description`,
+      tags: ["wcag2a", "wcag412"],
+      nodes: [{ target: [`#${id}`], html: "<div>" }],
+    })),
+  });
+
+describe("validateJourney", () => {
+  it("should accept a journey with at least one checkpoint", () => {
+    expect(validateJourney(JOURNEY)).toBeNull();
+  });
+
+  it("should name the step that is invalid", () => {
+    expect(
+      validateJourney({ steps: [{ action: "navigate", url: "checkout" }] }),
+    ).toBe("journey.steps[0].url must be a valid URL");
+    expect(
+      validateJourney({
+        steps: [{ action: "scan", name: "a" }, { action: "hover" }],
+      }),
+    ).toBe(
+      "journey.steps[1].action must be 'navigate', 'click', 'fill', 'wait' or 'scan'",
+    );
+    expect(
+      validateJourney({
+        steps: [
+          { action: "wait", seconds: 120 },
+          { action: "scan", name: "a" },
+        ],
+      }),
+    ).toBe("journey.steps[0].seconds must be an integer between 1 and 30");
+  });
+
+  it("should require unique checkpoint names", () => {
+    expect(
+      validateJourney({
+        steps: [
+          { action: "scan", name: "Form" },
+          { action: "scan", name: "Form" },
+        ],
+      }),
+    ).toBe("Duplicate checkpoint name: Form");
+  });
+
+  it("should require steps and a checkpoint", () => {
+    expect(validateJourney(undefined)).toBe(
+      "Journey mode requires a 'journey' with steps",
+    );
+    expect(validateJourney({ steps: [] })).toBe(
+      "journey.steps must be a non-empty array",
+    );
+    expect(
+      validateJourney({ steps: [{ action: "click", target: "Menu" }] }),
+    ).toBe("journey.steps needs at least one 'scan' step");
+  });
+});
+
+describe("getJourneyCheckpoints", () => {
+  it("should expect each checkpoint on the last page navigated to", () => {
+    expect(getJourneyCheckpoints("https://example.com/", JOURNEY)).toEqual([
+      { name: "Signup dialog", url: "https://example.com/" },
+      { name: "Checkout", url: "https://example.com/checkout" },
+    ]);
+  });
+});
+
+describe("formatJourneySteps", () => {
+  it("should open the start URL and then number every step", () => {
+    expect(formatJourneySteps("https://example.com/", JOURNEY)).toBe(
+      `1. Navigate to https://example.com/
+2. Click button "Subscribe"
+3. Wait for the text "Join our newsletter" to appear
+4. CHECKPOINT "Signup dialog": run scan_page once
+5. Navigate to https://example.com/checkout
+6. Fill textbox "Card number" with "4242"
+7. CHECKPOINT "Checkout": run scan_page once`,
+    );
+  });
+});
+
+describe("collectCheckpointResults", () => {
+  const checkpoints = getJourneyCheckpoints("https://example.com/", JOURNEY);
+
+  it("should match scan_page calls to checkpoints in order", () => {
+    const results = collectCheckpointResults(
+      [
+        scanOutput("https://example.com/", ["aria-dialog-name", "label"]),
+        scanOutput("https://example.com/checkout", []),
+      ],
+      checkpoints,
+    );
+
+    expect(
+      results.map(({ name, url, violations }) => [name, url, violations]),
+    ).toEqual([
+      ["Signup dialog", "https://example.com/", 2],
+      ["Checkout", "https://example.com/checkout", 0],
+    ]);
+    expect(results[0].findings?.violations[0].ruleId).toBe("aria-dialog-name");
+  });
+
+  it("should mark checkpoints after the last scan as not reached", () => {
+    const results = collectCheckpointResults(
+      [scanOutput("https://example.com/", [])],
+      checkpoints,
+    );
+
+    expect(results[1]).toEqual({
+      name: "Checkout",
+      url: "https://example.com/checkout",
+      violations: 0,
+      status: "not_reached",
+    });
+  });
+});
+
+describe("formatCheckpointSection", () => {
+  it("should list each checkpoint's violations or why it has none", () => {
+    const section = formatCheckpointSection(
+      collectCheckpointResults(
+        [scanOutput("https://example.com/", ["aria-dialog-name"])],
+        getJourneyCheckpoints("https://example.com/", JOURNEY),
+      ),
+    );
+
+    expect(section).toContain(
+      "| 1 | Signup dialog | https://example.com/ | 1 |",
+    );
+    expect(section).toContain(
+      "- 🟠 **aria-dialog-name** (WCAG 4.1.2): aria-dialog-name description - `#aria-dialog-name`",
+    );
+    expect(section).toContain(
+      "| 2 | Checkout | https://example.com/checkout | Not reached |",
+    );
+    expect(section).toContain("_Not reached: the journey stopped");
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import type { Violation } from "../findings-types";
+import type { ScanRecord } from "../history-types";
+import { summarizeJUnit, toJUnitXml } from "../junit-exporter";
+import { exportScan } from "../scan-exporters";
+import { createViolation } from "./support/violations";
+
+const HERO_IMAGE: Partial<Violation> = {
+  ruleId: "image-alt",
+  description: "Images must have alternate text",
+  wcagCriteria: ["1.1.1"],
+  impact: "critical",
+  selectors: ["img.hero"],
+  html: '<img class="hero" src="a&b.png">',
+  helpUrl: "https://dequeuniversity.com/rules/axe/4.10/image-alt",
+  pageUrl: "https://example.com/",
+};
+
+const RECORD: ScanRecord = {
+  id: "scan-1",
+  url: "https://example.com/",
+  mode: "list",
+  timestamp: "2025-02-01T09:00:00.000Z",
+  report: "# Report",
+  metadata: {
+    totalViolations: 2,
+    violationsBySeverity: { critical: 1, serious: 0, moderate: 0, minor: 1 },
+    pageCount: 3,
+  },
+  findings: [
+    {
+      pageUrl: "https://example.com/",
+      scannedAt: "2025-02-01T08:58:00.000Z",
+      violations: [
+        createViolation(HERO_IMAGE),
+        createViolation({
+          ...HERO_IMAGE,
+          ruleId: "region",
+          description: "All page content should be contained by landmarks",
+          wcagCriteria: [],
+          impact: "minor",
+          selectors: ["footer > p"],
+          html: "",
+          helpUrl: undefined,
+        }),
+      ],
+    },
+    {
+      pageUrl: "https://example.com/about",
+      scannedAt: "2025-02-01T08:59:00.000Z",
+      violations: [],
+    },
+  ],
+  pageResults: [
+    {
+      url: "https://example.com/checkout",
+      report: "",
+      violations: 0,
+      timestamp: "2025-02-01T09:00:00.000Z",
+      status: "timed_out",
+      error: "Timed out after 120s",
+    },
+  ],
+};
+
+describe("toJUnitXml", () => {
+  it("should write a testsuite per page and a failing testcase per violation", () => {
+    const xml = toJUnitXml(RECORD);
+
+    expect(xml).toContain(
+      '<testsuites name="Accessibility scan of https://example.com/" tests="4" failures="2" errors="1" timestamp="2025-02-01T09:00:00.000Z">',
+    );
+    expect(xml).toContain(
+      '<testsuite name="https://example.com/" tests="2" failures="2" errors="0" timestamp="2025-02-01T08:58:00.000Z">',
+    );
+    expect(xml).toContain(
+      '<testcase classname="https://example.com/" name="image-alt: img.hero">',
+    );
+    expect(xml).toContain(
+      '<failure message="Images must have alternate text" type="critical">',
+    );
+  });
+
+  it("should escape markup from the scanned page", () => {
+    const xml = toJUnitXml(RECORD);
+
+    expect(xml).toContain(
+      "HTML: &lt;img class=&quot;hero&quot; src=&quot;a&amp;b.png&quot;&gt;",
+    );
+    expect(xml).not.toContain('src="a&b.png"');
+  });
+
+  it("should drop control characters XML cannot carry", () => {
+    const xml = toJUnitXml({
+      ...RECORD,
+      findings: [
+        {
+          pageUrl: "https://example.com/",
+          scannedAt: "2025-02-01T08:58:00.000Z",
+          violations: [
+            createViolation({
+              ...HERO_IMAGE,
+              html: "<p>a\u0000b\u001Fc\td</p>",
+            }),
+          ],
+        },
+      ],
+    });
+
+    expect(xml).toContain("HTML: &lt;p&gt;abc\td&lt;/p&gt;");
+  });
+
+  it("should pass violations below the failOn threshold", () => {
+    const xml = toJUnitXml(RECORD, { failOn: "serious" });
+
+    expect(xml).toContain('tests="4" failures="1" errors="1"');
+    expect(xml).toContain(
+      [
+        '<testcase classname="https://example.com/" name="region: footer &gt; p">',
+        "      <system-out>Impact: minor",
+      ].join("\n"),
+    );
+  });
+
+  it("should add a passing testcase for clean pages and an error for failed pages", () => {
+    const xml = toJUnitXml(RECORD);
+
+    expect(xml).toContain(
+      '<testcase classname="https://example.com/about" name="No accessibility violations"/>',
+    );
+    expect(xml).toContain(
+      [
+        '<testsuite name="https://example.com/checkout" tests="1" failures="0" errors="1">',
+        '    <testcase classname="https://example.com/checkout" name="Page scan">',
+        '      <error message="Timed out after 120s"/>',
+      ].join("\n"),
+    );
+  });
+});
+
+describe("summarizeJUnit", () => {
+  it("should count failures at the threshold", () => {
+    expect(summarizeJUnit(RECORD)).toEqual({
+      tests: 4,
+      failures: 2,
+      errors: 1,
+    });
+    expect(summarizeJUnit(RECORD, { failOn: "critical" }).failures).toBe(1);
+  });
+});
+
+describe("exportScan", () => {
+  it("should export JUnit as an XML file", () => {
+    const exported = exportScan(RECORD, "junit", { failOn: "critical" });
+
+    expect(exported.fileName).toBe("a11y-example.com-2025-02-01.xml");
+    expect(exported.contentType).toBe("application/xml");
+    expect(exported.content).toContain('failures="1"');
+  });
+});
@@ -0,0 +1,105 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import { describe, expect, it } from "vitest";
+import { createChatModel, resolveLlmConfig } from "../llm-providers";
+
+describe("resolveLlmConfig", () => {
+  it("should default to OpenAI with the existing variables", () => {
+    expect(
+      resolveLlmConfig("pageScanner", {
+        OPENAI_API_KEY: "sk-test",
+        OPENAI_MODEL: "gpt-4.1-mini",
+      }),
+    ).toEqual({
+      provider: "openai",
+      model: "gpt-4.1-mini",
+      baseUrl: undefined,
+      apiKey: "sk-test",
+    });
+    expect(resolveLlmConfig("discovery", {}).model).toBe(
+      "gpt-5-nano-2025-08-07",
+    );
+  });
+
+  it("should prefer per-role models over the shared model", () => {
+    const env = {
+      LLM_MODEL: "shared-model",
+      LLM_DISCOVERY_MODEL: "cheap-model",
+      LLM_SUMMARIZER_MODEL: "strong-model",
+    };
+
+    expect(resolveLlmConfig("discovery", env).model).toBe("cheap-model");
+    expect(resolveLlmConfig("summarizer", env).model).toBe("strong-model");
+    expect(resolveLlmConfig("pageScanner", env).model).toBe("shared-model");
+  });
+
+  it("should honour OPENAI_SUMMARIZER_MODEL for OpenAI providers only", () => {
+    const env = { OPENAI_SUMMARIZER_MODEL: "gpt-4o-mini" };
+
+    expect(resolveLlmConfig("summarizer", env).model).toBe("gpt-4o-mini");
+    expect(
+      resolveLlmConfig("summarizer", { ...env, LLM_PROVIDER: "ollama" }).model,
+    ).toBe("llama3.1");
+  });
+
+  it("should read provider-specific API keys unless LLM_API_KEY is set", () => {
+    const env = {
+      LLM_PROVIDER: "anthropic",
+      ANTHROPIC_API_KEY: "anthropic-key",
+      OPENAI_API_KEY: "openai-key",
+    };
+
+    expect(resolveLlmConfig("single", env).apiKey).toBe("anthropic-key");
+    expect(
+      resolveLlmConfig("single", { ...env, LLM_API_KEY: "shared-key" }).apiKey,
+    ).toBe("shared-key");
+  });
+
+  it("should require a base URL for OpenAI-compatible endpoints", () => {
+    expect(() =>
+      resolveLlmConfig("single", { LLM_PROVIDER: "openai-compatible" }),
+    ).toThrow("LLM_BASE_URL is required");
+    expect(
+      resolveLlmConfig("single", {
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "https://llm.internal/v1",
+      }).baseUrl,
+    ).toBe("https://llm.internal/v1");
+  });
+
+  it("should reject unknown providers", () => {
+    expect(() =>
+      resolveLlmConfig("single", { LLM_PROVIDER: "mystery" }),
+    ).toThrow("Unknown LLM_PROVIDER 'mystery'");
+  });
+});
+
+describe("createChatModel", () => {
+  it("should create a ChatOpenAI model for OpenAI-compatible endpoints", async () => {
+    const model = await createChatModel("summarizer", {
+      LLM_PROVIDER: "openai-compatible",
+      LLM_BASE_URL: "https://llm.internal/v1",
+      LLM_SUMMARIZER_MODEL: "qwen2.5-72b",
+    });
+
+    expect(model).toBeInstanceOf(ChatOpenAI);
+    expect((model as ChatOpenAI).model).toBe("qwen2.5-72b");
+  });
+
+  it("should create Anthropic and Ollama models", async () => {
+    const anthropic = await createChatModel("single", {
+      LLM_PROVIDER: "anthropic",
+      ANTHROPIC_API_KEY: "anthropic-key",
+    });
+    const ollama = await createChatModel("pageScanner", {
+      LLM_PROVIDER: "ollama",
+      LLM_BASE_URL: "http://gpu-box:11434",
+    });
+
+    expect(anthropic).toBeInstanceOf(ChatAnthropic);
+    expect((anthropic as ChatAnthropic).model).toBe("claude-sonnet-4-5");
+    expect(ollama).toBeInstanceOf(ChatOllama);
+    expect((ollama as ChatOllama).baseUrl).toBe("http://gpu-box:11434");
+  });
+});
@@ -198,6 +198,13 @@ describe("Multi-Agent Orchestrator - Data Structures", () => {
       finalReport: "# Comprehensive Report",
       totalViolations: 8,
       timestamp: new Date().toISOString(),
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        byAgent: {},
+        byPage: [],
+      },
     };
 
     expect(multiAgentResult.mainUrl).toBe("https://example.com");
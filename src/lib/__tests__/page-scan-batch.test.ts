@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ScanProgressEvent } from "../types";
+
+const invokeMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/agent", () => ({
+  createAgentWithPrompt: vi.fn(async () => ({ invoke: invokeMock })),
+}));
+
+import {
+  runListScan,
+  runPageScannerAgentBatch,
+} from "../multi-agent-orchestrator";
+
+const retry = { maxAttempts: 2, baseDelayMs: 0 };
+
+function reply(content: string) {
+  return { messages: [{ content }] };
+}
+
+function promptOf(input: { messages: Array<{ content: unknown }> }): string {
+  return String(input.messages[0].content);
+}
+
+describe("runPageScannerAgentBatch", () => {
+  beforeEach(() => {
+    invokeMock.mockReset();
+  });
+
+  it("should retry failed pages and keep the other results", async () => {
+    const attempts = new Map<string, number>();
+    invokeMock.mockImplementation(async (input) => {
+      const prompt = promptOf(input);
+      const url = prompt.includes("/flaky") ? "flaky" : "broken";
+      attempts.set(url, (attempts.get(url) ?? 0) + 1);
+
+      if (url === "flaky" && attempts.get(url) === 2) {
+        return reply("Scan complete");
+      }
+      throw new Error(`${url} crashed`);
+    });
+
+    const events: ScanProgressEvent[] = [];
+    const results = await runPageScannerAgentBatch(
+      ["https://example.com/flaky", "https://example.com/broken"],
+      { scanOptions: { retry }, onEvent: (event) => events.push(event) },
+    );
+
+    expect(results[0]).toMatchObject({
+      url: "https://example.com/flaky",
+      status: "succeeded",
+      attempts: 2,
+      scanData: "Scan complete",
+    });
+    expect(results[1]).toMatchObject({
+      url: "https://example.com/broken",
+      status: "failed",
+      attempts: 2,
+      error: "broken crashed",
+      violations: 0,
+    });
+
+    const finished = events.filter(
+      (event) => event.type === "page_scan_finished",
+    );
+    expect(finished.map((event) => event.status).sort()).toEqual([
+      "failed",
+      "succeeded",
+    ]);
+  });
+
+  it("should stop retrying when the caller aborts", async () => {
+    const controller = new AbortController();
+    invokeMock.mockImplementation(async () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+
+    await expect(
+      runPageScannerAgentBatch(["https://example.com"], {
+        scanOptions: { retry },
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow();
+    expect(invokeMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runListScan", () => {
+  beforeEach(() => {
+    invokeMock.mockReset();
+  });
+
+  it("should tell the summarizer which pages could not be scanned", async () => {
+    let summarizerPrompt = "";
+    invokeMock.mockImplementation(async (input) => {
+      const prompt = promptOf(input);
+      if (prompt.startsWith("Create a comprehensive")) {
+        summarizerPrompt = prompt;
+        return reply("# Combined report");
+      }
+      if (prompt.includes("/down")) {
+        throw new Error("net::ERR_CONNECTION_REFUSED");
+      }
+      return reply("Scan complete");
+    });
+
+    const result = await runListScan(
+      "https://example.com",
+      ["https://example.com/up", "https://example.com/down"],
+      { scanOptions: { retry } },
+    );
+
+    expect(result.finalReport).toBe("# Combined report");
+    expect(summarizerPrompt).toContain("**Pages Scanned:** 1");
+    expect(summarizerPrompt).toContain("Pages That Could Not Be Scanned");
+    expect(summarizerPrompt).toContain(
+      "https://example.com/down (failed after 2 attempts: net::ERR_CONNECTION_REFUSED)",
+    );
+  });
+
+  it("should fail when every page fails", async () => {
+    invokeMock.mockRejectedValue(new Error("browser unavailable"));
+
+    await expect(
+      runListScan(
+        "https://example.com",
+        ["https://example.com/a", "https://example.com/b"],
+        { scanOptions: { retry } },
+      ),
+    ).rejects.toThrow("All 2 page scans failed");
+  });
+
+  it("should scan duplicate URLs once", async () => {
+    invokeMock.mockImplementation(async (input) =>
+      promptOf(input).startsWith("Create a comprehensive")
+        ? reply("# Report")
+        : reply("Scan complete"),
+    );
+
+    const result = await runListScan(
+      "https://example.com",
+      ["https://example.com/a", "https://example.com/a/"],
+      { scanOptions: { retry } },
+    );
+
+    expect(result.pageScanResults).toHaveLength(1);
+  });
+});
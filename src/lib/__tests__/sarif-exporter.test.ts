@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import type { ScanRecord } from "../history-types";
+import type { MultiAgentScanResult } from "../multi-agent-types";
+import { toSarifLog } from "../sarif-exporter";
+import { exportScan, isScanExportFormat } from "../scan-exporters";
+import { createViolation } from "./support/violations";
+
+const RECORD: ScanRecord = {
+  id: "scan-1",
+  url: "https://example.com/signup",
+  mode: "single",
+  timestamp: "2025-01-31T10:00:00.000Z",
+  report: "# Report",
+  metadata: {
+    totalViolations: 3,
+    violationsBySeverity: { critical: 1, serious: 1, moderate: 0, minor: 1 },
+    pageCount: 1,
+  },
+  findings: [
+    {
+      pageUrl: "https://example.com/signup",
+      scannedAt: "2025-01-31T10:00:00.000Z",
+      violations: [
+        createViolation({ impact: "minor", selectors: [".footer"] }),
+        createViolation({
+          ruleId: "label",
+          description: "Form elements must have labels",
+          wcagCriteria: ["4.1.2", "1.3.1"],
+          impact: "critical",
+          selectors: ["iframe#checkout", "#email"],
+          html: "",
+          helpUrl: undefined,
+        }),
+        createViolation({}),
+      ],
+    },
+  ],
+};
+
+describe("toSarifLog", () => {
+  const log = toSarifLog(RECORD);
+  const [run] = log.runs;
+
+  it("should write a SARIF 2.1.0 log with one run", () => {
+    expect(log.version).toBe("2.1.0");
+    expect(log.$schema).toContain("sarif-2.1.0");
+    expect(run.tool.driver.name).toBe("agentic-a11y-scanner");
+    expect(run.properties).toEqual({
+      scanUrl: "https://example.com/signup",
+      mode: "single",
+    });
+  });
+
+  it("should add one rule per rule id with its WCAG tags", () => {
+    expect(run.tool.driver.rules).toEqual([
+      {
+        id: "color-contrast",
+        shortDescription: {
+          text: "Elements must meet minimum color contrast ratio",
+        },
+        helpUri: "https://dequeuniversity.com/rules/axe/4.10/color-contrast",
+        // Raised from the first (minor) occurrence to the serious one
+        defaultConfiguration: { level: "error" },
+        properties: { tags: ["accessibility", "WCAG 1.4.3"] },
+      },
+      expect.objectContaining({
+        id: "label",
+        defaultConfiguration: { level: "error" },
+        properties: { tags: ["accessibility", "WCAG 4.1.2", "WCAG 1.3.1"] },
+      }),
+    ]);
+  });
+
+  it("should map severities to levels and locate results by page and selector", () => {
+    expect(
+      run.results.map((result) => [result.ruleIndex, result.level]),
+    ).toEqual([
+      [0, "note"],
+      [1, "error"],
+      [0, "error"],
+    ]);
+    expect(run.results[1]).toMatchObject({
+      ruleId: "label",
+      message: {
+        text: "Form elements must have labels (iframe#checkout >>> #email)",
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "https://example.com/signup" },
+          },
+          logicalLocations: [
+            {
+              fullyQualifiedName: "iframe#checkout >>> #email",
+              kind: "element",
+            },
+          ],
+        },
+      ],
+      partialFingerprints: {
+        "a11yViolation/v1":
+          "label|iframe#checkout >>> #email|https://example.com/signup",
+      },
+    });
+  });
+
+  it("should report failed pages of a multi-agent scan as notifications", () => {
+    const result: MultiAgentScanResult = {
+      mainUrl: "https://example.com/",
+      discoveryResult: {
+        mainPageUrl: "https://example.com/",
+        mainPageHtml: "",
+        discoveredUrls: [],
+        timestamp: "2025-01-31T10:00:00.000Z",
+      },
+      pageScanResults: [
+        {
+          url: "https://example.com/signup",
+          scanData: "",
+          violations: 3,
+          timestamp: "2025-01-31T10:00:00.000Z",
+          findings: RECORD.findings?.[0],
+          status: "succeeded",
+        },
+        {
+          url: "https://example.com/checkout",
+          scanData: "",
+          violations: 0,
+          timestamp: "2025-01-31T10:01:00.000Z",
+          status: "timed_out",
+          error: "Timed out after 120s",
+        },
+      ],
+      finalReport: "# Report",
+      totalViolations: 3,
+      timestamp: "2025-01-31T10:02:00.000Z",
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        byAgent: {},
+        byPage: [],
+      },
+    };
+
+    const [multiAgentRun] = toSarifLog(result).runs;
+
+    expect(multiAgentRun.results).toHaveLength(3);
+    expect(multiAgentRun.invocations).toEqual([
+      {
+        executionSuccessful: false,
+        endTimeUtc: "2025-01-31T10:02:00.000Z",
+        toolExecutionNotifications: [
+          {
+            level: "error",
+            message: {
+              text: "Page could not be scanned: Timed out after 120s",
+            },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: "https://example.com/checkout" },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("exportScan", () => {
+  it("should name the file after the host and scan date", () => {
+    const exported = exportScan(RECORD, "sarif");
+
+    expect(exported.fileName).toBe("a11y-example.com-2025-01-31.sarif");
+    expect(exported.contentType).toBe("application/sarif+json");
+    expect(JSON.parse(exported.content).runs[0].results).toHaveLength(3);
+  });
+
+  it("should only accept known formats", () => {
+    expect(isScanExportFormat("sarif")).toBe(true);
+    expect(isScanExportFormat("pdf")).toBe(false);
+  });
+});
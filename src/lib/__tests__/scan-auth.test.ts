@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  AuthSession,
+  findElementRef,
+  validateScanAuthentication,
+} from "../scan-auth";
+import type { ScanAuthentication } from "../types";
+
+const ENV = {
+  SCAN_AUTH_USER: "qa@example.com",
+  SCAN_AUTH_PASSWORD: 'p@ss"word',
+  OPENAI_API_KEY: "sk-test",
+};
+
+const RECIPE: ScanAuthentication = {
+  loginUrl: "https://example.com/login",
+  usernameSelector: 'textbox "Email"',
+  passwordSelector: 'textbox "Password"',
+  submitSelector: 'button "Sign in"',
+  usernameEnv: "SCAN_AUTH_USER",
+  passwordEnv: "SCAN_AUTH_PASSWORD",
+  successCheck: { urlIncludes: "/dashboard" },
+};
+
+describe("validateScanAuthentication", () => {
+  it("should accept a complete recipe and no recipe at all", () => {
+    expect(validateScanAuthentication(RECIPE, ENV)).toBeNull();
+    expect(validateScanAuthentication(undefined, ENV)).toBeNull();
+  });
+
+  it("should reject credentials outside the SCAN_AUTH_ prefix", () => {
+    expect(
+      validateScanAuthentication(
+        { ...RECIPE, passwordEnv: "OPENAI_API_KEY" },
+        ENV,
+      ),
+    ).toBe(
+      "authentication.passwordEnv must name an environment variable starting with SCAN_AUTH_",
+    );
+  });
+
+  it("should reject credential variables that are not set", () => {
+    expect(
+      validateScanAuthentication(
+        { ...RECIPE, usernameEnv: "SCAN_AUTH_MISSING" },
+        ENV,
+      ),
+    ).toBe("Credential variable SCAN_AUTH_MISSING is not set on the server");
+  });
+
+  it("should require a login URL, selectors and a success check", () => {
+    expect(
+      validateScanAuthentication({ ...RECIPE, loginUrl: "login" }, ENV),
+    ).toBe("authentication.loginUrl must be a valid URL");
+    expect(
+      validateScanAuthentication({ ...RECIPE, submitSelector: " " }, ENV),
+    ).toBe("authentication.submitSelector must be a non-empty string");
+    expect(
+      validateScanAuthentication({ ...RECIPE, successCheck: {} }, ENV),
+    ).toBe("authentication.successCheck needs 'text' or 'urlIncludes'");
+  });
+});
+
+describe("findElementRef", () => {
+  const snapshot = `- Page URL: https://example.com/login
+- textbox "Email" [ref=e12]
+- textbox "Password" [ref=e13]
+- button "Sign in" [ref=e14]`;
+
+  it("should return the ref of the line matching the selector", () => {
+    expect(findElementRef(snapshot, 'textbox "Password"')).toBe("e13");
+    expect(findElementRef(snapshot, 'button "Sign in"')).toBe("e14");
+  });
+
+  it("should fall back to the selector itself", () => {
+    expect(findElementRef(snapshot, "#login-button")).toBe("#login-button");
+  });
+});
+
+describe("AuthSession redaction", () => {
+  const session = new AuthSession(RECIPE, ENV);
+
+  it("should redact both credentials from text", () => {
+    expect(session.redact('Logged in as qa@example.com with p@ss"word')).toBe(
+      "Logged in as [REDACTED] with [REDACTED]",
+    );
+  });
+
+  it("should redact credentials inside structured findings", () => {
+    const findings = session.redactFindings({
+      pageUrl: "https://example.com/account",
+      scannedAt: "2025-01-01T00:00:00.000Z",
+      violations: [
+        {
+          ruleId: "label",
+          description: "Form elements must have labels",
+          wcagCriteria: ["4.1.2"],
+          impact: "critical",
+          selectors: ["#password"],
+          html: `<input title='p@ss"word'>`,
+          pageUrl: "https://example.com/account",
+        },
+      ],
+    });
+
+    expect(findings.violations[0].html).toBe("<input title='[REDACTED]'>");
+  });
+
+  it("should refuse a recipe whose credentials are not allowed", () => {
+    expect(
+      () => new AuthSession({ ...RECIPE, usernameEnv: "OPENAI_API_KEY" }, ENV),
+    ).toThrow("SCAN_AUTH_");
+  });
+});
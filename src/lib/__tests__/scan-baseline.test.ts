@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import type { Violation } from "../findings-types";
+import type { ScanRecord } from "../history-types";
+import { summarizeJUnit, toJUnitXml } from "../junit-exporter";
+import { toSarifLog } from "../sarif-exporter";
+import {
+  createBaseline,
+  evaluateBaseline,
+  type ScanBaseline,
+  validateBaseline,
+} from "../scan-baseline";
+import { evaluateScanGate } from "../scan-cli";
+import { createViolation } from "./support/violations";
+
+function record(
+  violations: Violation[],
+  overrides: Partial<ScanRecord> = {},
+): ScanRecord {
+  return {
+    id: "scan-1",
+    url: "https://example.com/",
+    mode: "list",
+    timestamp: "2025-03-01T12:00:00.000Z",
+    report: "# Report",
+    metadata: {
+      totalViolations: violations.length,
+      violationsBySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+      pageCount: 1,
+    },
+    findings: [
+      {
+        pageUrl: "https://example.com/",
+        scannedAt: "2025-03-01T12:00:00.000Z",
+        violations,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const KNOWN = createViolation({ pageUrl: "https://example.com/" });
+const FIXED = createViolation({
+  ruleId: "image-alt",
+  selectors: ["img.logo"],
+  pageUrl: "https://example.com/",
+});
+const OTHER_PAGE = createViolation({
+  ruleId: "label",
+  impact: "critical",
+  selectors: ["#search"],
+  pageUrl: "https://example.com/search",
+});
+
+const BASELINE = createBaseline(record([FIXED, KNOWN, OTHER_PAGE]));
+
+describe("createBaseline", () => {
+  it("should store fingerprinted violations sorted by fingerprint", () => {
+    expect(BASELINE).toMatchObject({
+      version: 1,
+      url: "https://example.com/",
+      updatedAt: "2025-03-01T12:00:00.000Z",
+    });
+    expect(BASELINE.violations.map((entry) => entry.fingerprint)).toEqual([
+      "color-contrast|.hint|/",
+      "image-alt|img.logo|/",
+      "label|#search|/search",
+    ]);
+    expect(BASELINE.violations[0]).toEqual({
+      fingerprint: "color-contrast|.hint|/",
+      ruleId: "color-contrast",
+      impact: "serious",
+      description: "Elements must meet minimum color contrast ratio",
+      wcagCriteria: ["1.4.3"],
+      selectors: [".hint"],
+      pageUrl: "https://example.com/",
+    });
+  });
+
+  it("should keep known violations of pages that could not be scanned", () => {
+    const updated = createBaseline(
+      record([KNOWN], {
+        pageResults: [
+          {
+            url: "https://example.com/search",
+            report: "",
+            violations: 0,
+            timestamp: "2025-03-02T12:00:00.000Z",
+            status: "failed",
+            error: "Navigation failed",
+          },
+        ],
+      }),
+      BASELINE,
+    );
+
+    expect(updated.violations.map((entry) => entry.ruleId)).toEqual([
+      "color-contrast",
+      "label",
+    ]);
+  });
+});
+
+describe("validateBaseline", () => {
+  it("should accept a baseline it created", () => {
+    expect(validateBaseline(JSON.parse(JSON.stringify(BASELINE)))).toBeNull();
+  });
+
+  it("should reject malformed baselines", () => {
+    expect(validateBaseline([])).toBe(
+      "Unsupported baseline version. Expected 1",
+    );
+    expect(validateBaseline({ ...BASELINE, violations: undefined })).toBe(
+      "Baseline must have a 'violations' array",
+    );
+    expect(
+      validateBaseline({
+        ...BASELINE,
+        violations: [{ ...BASELINE.violations[0], impact: "high" }],
+      }),
+    ).toBe(
+      "baseline.violations[0] must have a fingerprint, ruleId, impact, selectors and pageUrl",
+    );
+    expect(
+      validateBaseline({
+        ...BASELINE,
+        violations: [{ ...BASELINE.violations[0], fingerprint: undefined }],
+      }),
+    ).toBe(
+      "baseline.violations[0] must have a fingerprint, ruleId, impact, selectors and pageUrl",
+    );
+  });
+});
+
+describe("evaluateBaseline", () => {
+  const introduced = createViolation({
+    selectors: [".footer"],
+    impact: "minor",
+    pageUrl: "https://example.com/",
+  });
+  const current = record([KNOWN, introduced, OTHER_PAGE]);
+
+  it("should split the scan into new and known violations", () => {
+    const evaluation = evaluateBaseline(BASELINE, current);
+
+    expect(evaluation.introduced).toEqual([introduced]);
+    expect(evaluation.suppressed).toEqual([KNOWN, OTHER_PAGE]);
+    expect(evaluation.fixed.map((entry) => entry.ruleId)).toEqual([
+      "image-alt",
+    ]);
+  });
+
+  it("should match violations by stored fingerprint on any host", () => {
+    const staging = (entry: Violation) => ({
+      ...entry,
+      pageUrl: entry.pageUrl.replace("example.com", "staging.example.com"),
+    });
+    const evaluation = evaluateBaseline(
+      BASELINE,
+      record([KNOWN, introduced, OTHER_PAGE].map(staging)),
+    );
+
+    expect(evaluation.introduced).toEqual([staging(introduced)]);
+    expect(evaluation.suppressed).toHaveLength(2);
+
+    const renamed: ScanBaseline = {
+      ...BASELINE,
+      violations: BASELINE.violations.map((entry) => ({
+        ...entry,
+        fingerprint: `${entry.fingerprint}-old`,
+      })),
+    };
+    expect(evaluateBaseline(renamed, current).suppressed).toEqual([]);
+  });
+
+  it("should not report known violations of unscanned pages as fixed", () => {
+    const evaluation = evaluateBaseline(
+      BASELINE,
+      record([KNOWN, FIXED], {
+        pageResults: [
+          {
+            url: "https://example.com/search/",
+            report: "",
+            violations: 0,
+            timestamp: "2025-03-02T12:00:00.000Z",
+            status: "timed_out",
+            error: "Timed out after 120s",
+          },
+        ],
+      }),
+    );
+
+    expect(evaluation.fixed).toEqual([]);
+    expect(evaluation.suppressed).toHaveLength(2);
+  });
+
+  it("should only fail on regressions when exporting and gating", () => {
+    const gateOptions = {
+      failOn: "minor" as const,
+      maxViolations: 0,
+      allowFailedPages: false,
+    };
+
+    expect(summarizeJUnit(current, { baseline: BASELINE }).failures).toBe(1);
+    expect(toJUnitXml(current, { baseline: BASELINE })).toContain(
+      "<system-out>Known issue (in baseline)\nImpact: serious",
+    );
+    expect(
+      toSarifLog(current, { baseline: BASELINE }).runs[0].results.map(
+        (result) => result.baselineState,
+      ),
+    ).toEqual(["unchanged", "new", "unchanged"]);
+
+    const gate = evaluateScanGate(current, gateOptions, BASELINE);
+    expect(gate).toMatchObject({
+      passed: false,
+      failures: 1,
+      reasons: ["1 new minor-or-worse violation(s) found, 0 allowed"],
+      baseline: { introduced: [introduced], suppressed: 2, fixed: 1 },
+    });
+    expect(
+      evaluateScanGate(current, { ...gateOptions, failOn: "serious" }, BASELINE)
+        .passed,
+    ).toBe(true);
+  });
+
+  it("should treat an empty baseline as all new", () => {
+    const empty: ScanBaseline = { ...BASELINE, violations: [] };
+
+    expect(evaluateBaseline(empty, current).introduced).toHaveLength(3);
+  });
+});
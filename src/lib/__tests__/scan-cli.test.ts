@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+import type { ScanRecord } from "../history-types";
+import {
+  evaluateScanGate,
+  formatScanSummary,
+  mergeCliRequest,
+  parseScanCliArgs,
+} from "../scan-cli";
+
+const RECORD: ScanRecord = {
+  id: "scan-1",
+  url: "https://example.com/",
+  mode: "list",
+  timestamp: "2025-02-01T09:00:00.000Z",
+  report: "# Report",
+  metadata: {
+    totalViolations: 2,
+    violationsBySeverity: { critical: 0, serious: 1, moderate: 1, minor: 0 },
+    pageCount: 1,
+  },
+  findings: [
+    {
+      pageUrl: "https://example.com/",
+      scannedAt: "2025-02-01T09:00:00.000Z",
+      violations: [
+        {
+          ruleId: "color-contrast",
+          description: "Elements must meet minimum color contrast ratio",
+          wcagCriteria: ["1.4.3"],
+          impact: "serious",
+          selectors: [".hint"],
+          html: "",
+          pageUrl: "https://example.com/",
+        },
+        {
+          ruleId: "heading-order",
+          description: "Heading levels should only increase by one",
+          wcagCriteria: [],
+          impact: "moderate",
+          selectors: ["h4"],
+          html: "",
+          pageUrl: "https://example.com/",
+        },
+      ],
+    },
+  ],
+  pageResults: [
+    {
+      url: "https://example.com/slow",
+      report: "",
+      violations: 0,
+      timestamp: "2025-02-01T09:00:00.000Z",
+      status: "timed_out",
+      error: "Timed out after 120s",
+    },
+  ],
+};
+
+describe("parseScanCliArgs", () => {
+  it("should build an exploration request from flags", () => {
+    const parsed = parseScanCliArgs([
+      "https://example.com",
+      "--mode",
+      "exploration",
+      "--max-pages",
+      "10",
+      "--format",
+      "sarif",
+      "--format",
+      "junit",
+      "--fail-on",
+      "serious",
+    ]);
+
+    expect(parsed).toEqual({
+      help: false,
+      options: {
+        request: {
+          url: "https://example.com",
+          mode: "exploration",
+          crawl: { maxPages: 10 },
+        },
+        requestFile: undefined,
+        waiversFile: undefined,
+        formats: ["sarif", "junit"],
+        outDir: "a11y-report",
+        failOn: "serious",
+        maxViolations: 0,
+        allowFailedPages: false,
+        baselineFile: undefined,
+        updateBaseline: false,
+      },
+    });
+  });
+
+  it("should scan several URLs in list mode", () => {
+    const parsed = parseScanCliArgs(["https://a.com", "https://b.com"]);
+
+    expect(parsed).toMatchObject({
+      options: {
+        request: {
+          url: "https://a.com",
+          mode: "list",
+          urls: ["https://a.com", "https://b.com"],
+        },
+      },
+    });
+  });
+
+  it("should reject invalid flags", () => {
+    expect(parseScanCliArgs([])).toEqual({
+      error: "Pass at least one URL or a --request file",
+    });
+    expect(parseScanCliArgs(["https://a.com", "--format", "pdf"])).toEqual({
+      error: "Unknown --format 'pdf'. Must be one of: sarif, junit",
+    });
+    expect(parseScanCliArgs(["https://a.com", "--fail-on", "high"])).toEqual({
+      error: "--fail-on must be 'critical', 'serious', 'moderate' or 'minor'",
+    });
+    expect(
+      parseScanCliArgs(["https://a.com", "--max-violations", "1.5"]),
+    ).toEqual({ error: "--max-violations must be an integer of at least 0" });
+    expect(parseScanCliArgs(["https://a.com", "--max-depth", "0"])).toEqual({
+      error: "--max-depth must be an integer between 1 and 3",
+    });
+    expect(parseScanCliArgs(["https://a.com", "--update-baseline"])).toEqual({
+      error: "--update-baseline needs --baseline <file>",
+    });
+    expect(parseScanCliArgs(["https://a.com", "--verbose"])).toHaveProperty(
+      "error",
+    );
+  });
+});
+
+describe("mergeCliRequest", () => {
+  it("should let flags override a request file and keep its other fields", () => {
+    const merged = mergeCliRequest(
+      {
+        url: "https://staging.example.com",
+        mode: "exploration",
+        crawl: { maxPages: 20, scope: "subdomains" },
+        options: { concurrency: 2 },
+      },
+      { url: "https://example.com", crawl: { maxPages: 5 } },
+    );
+
+    expect(merged).toEqual({
+      url: "https://example.com",
+      mode: "exploration",
+      crawl: { maxPages: 5, scope: "subdomains" },
+      options: { concurrency: 2 },
+    });
+  });
+
+  it("should default to single mode", () => {
+    expect(mergeCliRequest(undefined, { url: "https://a.com" })).toEqual({
+      url: "https://a.com",
+      mode: "single",
+    });
+  });
+});
+
+describe("evaluateScanGate", () => {
+  it("should fail on violations at or above the threshold and on failed pages", () => {
+    expect(
+      evaluateScanGate(RECORD, {
+        failOn: "serious",
+        maxViolations: 0,
+        allowFailedPages: false,
+      }),
+    ).toEqual({
+      passed: false,
+      failures: 1,
+      failedPages: 1,
+      reasons: [
+        "1 serious-or-worse violation(s) found, 0 allowed",
+        "1 page(s) could not be scanned",
+      ],
+    });
+  });
+
+  it("should pass within the allowed number of violations", () => {
+    const gate = evaluateScanGate(RECORD, {
+      failOn: "moderate",
+      maxViolations: 2,
+      allowFailedPages: true,
+    });
+
+    expect(gate).toMatchObject({ passed: true, failures: 2, reasons: [] });
+  });
+
+  it("should fail when violations have no structured findings", () => {
+    const options = {
+      failOn: "minor" as const,
+      maxViolations: 10,
+      allowFailedPages: true,
+    };
+
+    // Report counted violations the parser could not itemize
+    expect(
+      evaluateScanGate({ ...RECORD, findings: undefined }, options),
+    ).toMatchObject({
+      passed: false,
+      failures: 0,
+      reasons: ["2 reported violation(s) have no structured findings to check"],
+    });
+
+    // A completed page without findings
+    const findings = RECORD.findings?.[0];
+    const page = {
+      url: "https://example.com/",
+      scanData: "# Page",
+      violations: 2,
+      timestamp: "2025-02-01T09:00:00.000Z",
+    };
+    expect(
+      evaluateScanGate(
+        {
+          mainUrl: "https://example.com/",
+          discoveryResult: {
+            mainPageUrl: "https://example.com/",
+            mainPageHtml: "",
+            discoveredUrls: [],
+            timestamp: "2025-02-01T09:00:00.000Z",
+          },
+          pageScanResults: [
+            { ...page, findings },
+            { ...page, url: "https://example.com/about" },
+          ],
+          finalReport: "# Report",
+          totalViolations: 4,
+          timestamp: "2025-02-01T09:00:00.000Z",
+          usage: {
+            inputTokens: 0,
+            outputTokens: 0,
+            totalTokens: 0,
+            byAgent: {},
+            byPage: [],
+          },
+        },
+        options,
+      ).reasons,
+    ).toEqual(["1 scanned page(s) have no structured findings to check"]);
+  });
+});
+
+describe("formatScanSummary", () => {
+  it("should list counts, reports and the gate outcome", () => {
+    const summary = formatScanSummary(
+      "https://example.com/",
+      {
+        status: "success",
+        data: "# Report",
+        metadata: {
+          multiAgent: true,
+          pagesScanned: 1,
+          totalViolations: 2,
+          violationsBySeverity: {
+            critical: 0,
+            serious: 1,
+            moderate: 1,
+            minor: 0,
+          },
+          failedPages: [
+            { url: "https://example.com/slow", error: "Timed out after 120s" },
+          ],
+        },
+      },
+      {
+        passed: false,
+        failures: 1,
+        failedPages: 1,
+        reasons: ["1 page(s) could not be scanned"],
+      },
+      ["a11y-report/report.md"],
+    );
+
+    expect(summary).toContain(
+      "By severity:    0 critical, 1 serious, 1 moderate, 0 minor",
+    );
+    expect(summary).toContain(
+      "Not scanned:    https://example.com/slow (Timed out after 120s)",
+    );
+    expect(summary).toContain("  a11y-report/report.md");
+    expect(summary.endsWith("FAILED\n  - 1 page(s) could not be scanned")).toBe(
+      true,
+    );
+  });
+});
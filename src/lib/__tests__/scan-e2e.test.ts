@@ -0,0 +1,751 @@
+import { NextRequest } from "next/server";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { AgentRole } from "../llm-providers";
+import type { PageScanResult } from "../multi-agent-types";
+import type {
+  ScanAuthentication,
+  ScanProgressEvent,
+  ScanResponse,
+} from "../types";
+import {
+  type FakeLogin,
+  type FakeMcpServer,
+  type FakeSite,
+  startFakeMcpServer,
+} from "./support/fake-mcp-server";
+import {
+  type ChatScript,
+  SCRIPTED_MODEL_NAME,
+  ScriptedChatModel,
+} from "./support/scripted-chat-model";
+
+// The fake server has one shared browser, so multi-page scans run with
+// concurrency 1 to keep each scan_page on the page its agent opened
+const state = vi.hoisted(() => ({
+  server: null as FakeMcpServer | null,
+  models: [] as Array<{ role: string; model: ScriptedChatModel }>,
+  scanClients: [] as Array<{
+    contextOptions: unknown;
+    originHeaders: unknown;
+    closed: boolean;
+  }>,
+}));
+
+vi.mock("@/lib/mcp-client", () => ({
+  clientTools: {
+    getTools: async () => state.server?.tools ?? [],
+  },
+  createScanMcpClient: async (
+    contextOptions: unknown,
+    originHeaders: unknown,
+  ) => {
+    const client = { contextOptions, originHeaders, closed: false };
+    state.scanClients.push(client);
+    return {
+      getTools: async () => state.server?.tools ?? [],
+      close: async () => {
+        client.closed = true;
+      },
+    };
+  },
+}));
+
+vi.mock("@/lib/llm-providers", () => ({
+  createChatModel: async (role: AgentRole) => {
+    const model = new ScriptedChatModel(SCRIPTS[role]);
+    state.models.push({ role, model });
+    return model;
+  },
+}));
+
+import { POST } from "@/app/api/scan/route";
+import { runMultiAgentScan } from "../multi-agent-orchestrator";
+import { runScan } from "../scan-service";
+
+const SITE: FakeSite = {
+  "https://shop.example/": {
+    html: `<html><body><nav>
+      <a href="https://shop.example/signup">Sign up</a>
+      <a href="https://shop.example/checkout">Checkout</a>
+      <a href="https://shop.example/about">About</a>
+      <a href="https://partner.example/deals">Partner deals</a>
+    </nav></body></html>`,
+    violations: [],
+  },
+  "https://shop.example/signup": {
+    html: "<html><body><form><input id='email'></form></body></html>",
+    violations: [
+      {
+        id: "label",
+        impact: "critical",
+        description: "Form elements must have labels",
+        tags: ["wcag2a", "wcag412"],
+        nodes: [{ target: ["#email"], html: "<input id='email'>" }],
+      },
+      {
+        id: "color-contrast",
+        impact: "serious",
+        description: "Elements must meet minimum color contrast ratio",
+        tags: ["wcag2aa", "wcag143"],
+        nodes: [{ target: [".hint"], html: "<p class='hint'>" }],
+      },
+    ],
+  },
+  "https://shop.example/checkout": {
+    html: `- heading "Checkout"
+- button "Place order" [ref=e5]`,
+    violations: [],
+    clickTargets: { e5: "https://shop.example/checkout?state=errors" },
+  },
+  "https://shop.example/checkout?state=errors": {
+    html: `- alert "Card number is required"
+- textbox "Card number" [ref=e6]`,
+    violations: [
+      {
+        id: "aria-describedby",
+        impact: "serious",
+        description: "Error messages must be associated with their fields",
+        tags: ["wcag2a", "wcag131"],
+        nodes: [{ target: ["#card-number"], html: "<input id='card-number'>" }],
+      },
+    ],
+  },
+  "https://shop.example/about": {
+    html: "<html><body><h3>About us</h3></body></html>",
+    violations: [
+      {
+        id: "heading-order",
+        impact: "moderate",
+        description: "Heading levels should only increase by one",
+        tags: ["best-practice"],
+        nodes: [{ target: ["h3"], html: "<h3>About us</h3>" }],
+      },
+    ],
+  },
+  "https://shop.example/login": {
+    html: `- textbox "Email" [ref=e1]
+- textbox "Password" [ref=e2]
+- button "Sign in" [ref=e3]`,
+    violations: [
+      {
+        id: "autocomplete-valid",
+        impact: "serious",
+        description: "autocomplete attribute must be used correctly",
+        nodes: [{ target: ["#email"], html: "<input id='email'>" }],
+      },
+    ],
+  },
+  "https://shop.example/account": {
+    html: "<html><body><h1>Welcome back</h1></body></html>",
+    requiresLogin: true,
+    violations: [
+      {
+        id: "link-name",
+        impact: "serious",
+        description: "Links must have discernible text",
+        nodes: [
+          {
+            target: [".profile"],
+            html: "<a class='profile'><img src='qa@shop.example.png'></a>",
+          },
+        ],
+      },
+    ],
+  },
+  "https://shop.example/orders": {
+    html: "<html><body><h1>Orders</h1></body></html>",
+    requiresLogin: true,
+    violations: [],
+  },
+};
+
+const LOGIN: FakeLogin = {
+  loginUrl: "https://shop.example/login",
+  landingUrl: "https://shop.example/account",
+  username: "qa@shop.example",
+  password: "hunter2-secret",
+  usernameRef: "e1",
+  passwordRef: "e2",
+  submitRef: "e3",
+};
+
+const AUTHENTICATION: ScanAuthentication = {
+  loginUrl: "https://shop.example/login",
+  usernameSelector: 'textbox "Email"',
+  passwordSelector: 'textbox "Password"',
+  submitSelector: 'button "Sign in"',
+  usernameEnv: "SCAN_AUTH_USER",
+  passwordEnv: "SCAN_AUTH_PASSWORD",
+  successCheck: { text: "Welcome back", urlIncludes: "/account" },
+};
+
+function promptUrl(prompt: string): string {
+  return prompt.match(/https?:\/\/\S+/)?.[0] ?? "";
+}
+
+/** Navigate, snapshot, close, then answer with the links it saw */
+const discoveryScript: ChatScript = ({ prompt, turn, toolResults }) => {
+  const url = promptUrl(prompt);
+  switch (turn) {
+    case 0:
+      return { toolCalls: [{ name: "browser_navigate", args: { url } }] };
+    case 1:
+      return { toolCalls: [{ name: "browser_snapshot", args: {} }] };
+    case 2:
+      return { toolCalls: [{ name: "browser_close", args: {} }] };
+    default: {
+      const links = Array.from(
+        toolResults.join("\n").matchAll(/href="([^"]+)"/g),
+        (match) => match[1],
+      );
+      return {
+        content: `\`\`\`json
+${JSON.stringify({
+  mainPageUrl: url,
+  mainPageHtml: "",
+  discoveredUrls: links.map((link) => ({
+    url: link,
+    description: `Linked page ${link}`,
+    priority: link.includes("signup") ? "high" : "medium",
+  })),
+})}
+\`\`\``,
+      };
+    }
+  }
+};
+
+/**
+ * Navigate, scan_page, close (unless told to keep the logged-in session),
+ * then report the violation count
+ */
+const pageScannerScript: ChatScript = ({ prompt, turn, toolResults }) => {
+  const keepBrowser = /do not call browser_close/i.test(prompt);
+  switch (turn) {
+    case 0:
+      return {
+        toolCalls: [
+          { name: "browser_navigate", args: { url: promptUrl(prompt) } },
+        ],
+      };
+    case 1:
+      return { toolCalls: [{ name: "scan_page", args: {} }] };
+    case 2:
+      if (!keepBrowser) {
+        return { toolCalls: [{ name: "browser_close", args: {} }] };
+      }
+      return {
+        content: `# Accessibility Scan Report\n\n**Total Violations Found:** ${JSON.parse(toolResults[1]).violations.length}`,
+      };
+    default: {
+      const scan = JSON.parse(toolResults[1]) as { violations: unknown[] };
+      return {
+        content: `# Accessibility Scan Report\n\n**Total Violations Found:** ${scan.violations.length}`,
+      };
+    }
+  }
+};
+
+/**
+ * Performs the numbered journey steps one per turn (click targets are refs),
+ * closes the browser, then reports
+ */
+const journeyScript: ChatScript = ({ prompt, turn }) => {
+  const steps = prompt.match(/^\d+\. .+$/gm) ?? [];
+  const step = steps[turn]?.replace(/^\d+\. /, "");
+
+  if (step === undefined) {
+    return turn === steps.length
+      ? { toolCalls: [{ name: "browser_close", args: {} }] }
+      : { content: "# Accessibility Journey Report" };
+  }
+  if (step.startsWith("Navigate to ")) {
+    return {
+      toolCalls: [{ name: "browser_navigate", args: { url: promptUrl(step) } }],
+    };
+  }
+  if (step.startsWith("Click ")) {
+    const ref = step.slice("Click ".length);
+    return {
+      toolCalls: [{ name: "browser_click", args: { element: ref, ref } }],
+    };
+  }
+  if (step.startsWith("CHECKPOINT")) {
+    return { toolCalls: [{ name: "scan_page", args: {} }] };
+  }
+  return { toolCalls: [{ name: "browser_wait_for", args: { time: 1 } }] };
+};
+
+const summarizerScript: ChatScript = ({ prompt }) => {
+  const total = prompt.match(/Total Violations Across All Pages:\*\* (\d+)/);
+  return {
+    content: `# Comprehensive Accessibility Scan Report\n\n**Total Violations Found:** ${total?.[1] ?? 0}`,
+  };
+};
+
+const SCRIPTS: Record<AgentRole, ChatScript> = {
+  discovery: discoveryScript,
+  pageScanner: pageScannerScript,
+  summarizer: summarizerScript,
+  single: (context) =>
+    /accessibility journey/i.test(context.prompt)
+      ? journeyScript(context)
+      : pageScannerScript(context),
+};
+
+async function postScan(body: unknown) {
+  const response = await POST(
+    new NextRequest("http://localhost/api/scan", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+  return {
+    status: response.status,
+    body: (await response.json()) as ScanResponse & {
+      error?: string;
+      details?: string;
+    },
+  };
+}
+
+describe("scan end-to-end with a scripted model and fake MCP server", () => {
+  beforeAll(async () => {
+    // Tools are only bound to agents in the local environment
+    vi.stubEnv("environment", "local");
+    vi.stubEnv(
+      "LLM_PRICING",
+      JSON.stringify({ [SCRIPTED_MODEL_NAME]: { input: 1, output: 5 } }),
+    );
+    vi.stubEnv("SCAN_AUTH_USER", LOGIN.username);
+    vi.stubEnv("SCAN_AUTH_PASSWORD", LOGIN.password);
+    state.server = await startFakeMcpServer(SITE, LOGIN);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await state.server?.close();
+  });
+
+  beforeEach(() => {
+    state.server?.calls.splice(0);
+    state.models.length = 0;
+    state.scanClients.length = 0;
+  });
+
+  it("should discover, scan and summarize a site through the agent loop", async () => {
+    const result = await runMultiAgentScan("https://shop.example/", {
+      scanOptions: { concurrency: 1 },
+    });
+
+    expect(result.discoveryResult.discoveredUrls.map((u) => u.url)).toEqual([
+      "https://shop.example/signup",
+      "https://shop.example/checkout",
+      "https://shop.example/about",
+    ]);
+    expect(
+      result.pageScanResults.map((page) => [
+        page.url,
+        page.status,
+        page.findings?.violations.length,
+      ]),
+    ).toEqual([
+      ["https://shop.example/signup", "succeeded", 2],
+      ["https://shop.example/checkout", "succeeded", 0],
+      ["https://shop.example/about", "succeeded", 1],
+    ]);
+    expect(result.totalViolations).toBe(3);
+    expect(result.finalReport).toContain("**Total Violations Found:** 3");
+
+    const toolNames = state.server?.calls.map((call) => call.name) ?? [];
+    expect(toolNames.filter((name) => name === "scan_page")).toHaveLength(3);
+    expect(toolNames.filter((name) => name === "browser_close")).toHaveLength(
+      4,
+    );
+    expect(state.models.map((entry) => entry.role).sort()).toEqual([
+      "discovery",
+      "pageScanner",
+      "pageScanner",
+      "pageScanner",
+      "summarizer",
+    ]);
+
+    // Every scripted turn reports 100 input and 20 output tokens
+    expect(result.usage).toMatchObject({
+      inputTokens: 1700,
+      outputTokens: 340,
+      totalTokens: 2040,
+      byAgent: {
+        discovery: { totalTokens: 480 },
+        pageScanner: { totalTokens: 1440 },
+        summarizer: { totalTokens: 120 },
+      },
+    });
+    expect(result.usage.estimatedCostUsd).toBeCloseTo(
+      (1700 * 1 + 340 * 5) / 1_000_000,
+    );
+    expect(result.usage.byPage.map((page) => page.totalTokens)).toEqual([
+      480, 480, 480,
+    ]);
+  });
+
+  it("should serve exploration scans from /api/scan", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/",
+      mode: "exploration",
+      crawl: { maxPages: 2 },
+      options: { concurrency: 1 },
+    });
+
+    expect(status).toBe(200);
+    expect(body.status).toBe("success");
+    expect(body.metadata).toMatchObject({
+      multiAgent: true,
+      pagesScanned: 2,
+      totalViolations: 2,
+      discoveredUrls: [
+        "https://shop.example/signup",
+        "https://shop.example/checkout",
+      ],
+      violationsBySeverity: {
+        critical: 1,
+        serious: 1,
+        moderate: 0,
+        minor: 0,
+      },
+    });
+    expect(body.findings?.map((page) => page.pageUrl)).toEqual([
+      "https://shop.example/signup",
+      "https://shop.example/checkout",
+    ]);
+    expect(body.pageResults).toEqual([
+      expect.objectContaining({
+        url: "https://shop.example/signup",
+        violations: 2,
+        timestamp: expect.any(String),
+      }),
+      expect.objectContaining({
+        url: "https://shop.example/checkout",
+        violations: 0,
+        timestamp: expect.any(String),
+      }),
+    ]);
+  });
+
+  it("should leave waived violations out of the counts but list them in the report", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/",
+      mode: "exploration",
+      crawl: { maxPages: 2 },
+      options: { concurrency: 1 },
+      waivers: [
+        {
+          id: "A11Y-12",
+          wcagCriterion: "1.4.3",
+          urlPattern: "https://shop.example/*",
+          justification: "Brand colours approved by the design board",
+          owner: "design-team",
+          expires: "2999-12-31",
+        },
+        {
+          ruleId: "label",
+          justification: "Legacy form",
+          owner: "web-team",
+          expires: "2020-01-01",
+        },
+      ],
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata).toMatchObject({
+      totalViolations: 1,
+      waivedViolations: 1,
+      violationsBySeverity: { critical: 1, serious: 0 },
+    });
+    expect(body.findings?.[0].violations.map((v) => v.ruleId)).toEqual([
+      "label",
+    ]);
+    expect(body.waived).toEqual([
+      expect.objectContaining({
+        ruleId: "color-contrast",
+        pageUrl: "https://shop.example/signup",
+        waiver: {
+          id: "A11Y-12",
+          justification: "Brand colours approved by the design board",
+          owner: "design-team",
+          expires: "2999-12-31",
+        },
+      }),
+    ]);
+    expect(body.data).toContain("## Waived Issues");
+    expect(body.data).toContain(
+      "**Expired waivers (not applied):** label (web-team, expired 2020-01-01)",
+    );
+    expect(body.pageResults?.map((page) => page.violations)).toEqual([1, 0]);
+  });
+
+  it("should stream page results and events without waived violations", async () => {
+    const pageResults: PageScanResult[] = [];
+    const events: ScanProgressEvent[] = [];
+    const { response } = await runScan(
+      {
+        url: "https://shop.example/about",
+        mode: "single",
+        waivers: [
+          {
+            ruleId: "heading-order",
+            justification: "Marketing layout",
+            owner: "web-team",
+            expires: "2999-12-31",
+          },
+        ],
+      },
+      {
+        onPageResult: (result) => pageResults.push(result),
+        onEvent: (event) => events.push(event),
+      },
+    );
+
+    expect(response.metadata?.totalViolations).toBe(0);
+    expect(pageResults).toEqual([
+      expect.objectContaining({
+        violations: 0,
+        findings: expect.objectContaining({ violations: [] }),
+      }),
+    ]);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "page_scan_finished", violations: 0 }),
+    );
+  });
+
+  it("should subtract waived violations from pages that redirected", async () => {
+    // Logged out, the account page redirects to the login page
+    const { status, body } = await postScan({
+      url: "https://shop.example/",
+      mode: "list",
+      urls: ["https://shop.example/account"],
+      waivers: [
+        {
+          ruleId: "autocomplete-valid",
+          justification: "Fixed in the next release",
+          owner: "web-team",
+          expires: "2999-12-31",
+        },
+      ],
+    });
+
+    expect(status).toBe(200);
+    expect(body.waived?.map((violation) => violation.pageUrl)).toEqual([
+      "https://shop.example/login",
+    ]);
+    expect(body.metadata?.totalViolations).toBe(0);
+    expect(body.pageResults).toEqual([
+      expect.objectContaining({
+        url: "https://shop.example/account",
+        violations: 0,
+      }),
+    ]);
+  });
+
+  it("should serve single-page scans from /api/scan", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/about",
+      mode: "single",
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toContain("**Total Violations Found:** 1");
+    expect(body.metadata).toMatchObject({
+      multiAgent: false,
+      pagesScanned: 1,
+      totalViolations: 1,
+    });
+    expect(body.findings?.[0].violations[0]).toMatchObject({
+      ruleId: "heading-order",
+      impact: "moderate",
+    });
+    expect(state.models.map((entry) => entry.role)).toEqual(["single"]);
+    expect(body.metadata?.usage).toMatchObject({
+      totalTokens: 480,
+      byAgent: { single: { totalTokens: 480 } },
+      byPage: [{ url: "https://shop.example/about", totalTokens: 480 }],
+    });
+  });
+
+  it("should run scans with browser options in their own MCP session", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/about",
+      mode: "single",
+      browser: {
+        headers: { Authorization: "Bearer abc" },
+        userAgent: "a11y-bot/1.0",
+      },
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata?.totalViolations).toBe(1);
+    expect(state.scanClients).toEqual([
+      {
+        contextOptions: { userAgent: "a11y-bot/1.0" },
+        // Headers stay on the scanned origin
+        originHeaders: {
+          origin: "https://shop.example",
+          headers: { Authorization: "Bearer abc" },
+        },
+        closed: true,
+      },
+    ]);
+  });
+
+  it("should scan each journey checkpoint in the state the steps reach", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/checkout",
+      mode: "journey",
+      journey: {
+        name: "Checkout errors",
+        steps: [
+          { action: "scan", name: "Checkout form" },
+          { action: "click", target: "e5" },
+          { action: "wait", text: "Card number is required" },
+          { action: "scan", name: "Validation errors" },
+          { action: "navigate", url: "https://shop.example/about" },
+          { action: "click", target: "e9" },
+          { action: "scan", name: "About page" },
+        ],
+      },
+    });
+
+    expect(status).toBe(200);
+    expect(body.checkpoints).toEqual([
+      expect.objectContaining({
+        name: "Checkout form",
+        url: "https://shop.example/checkout",
+        violations: 0,
+      }),
+      expect.objectContaining({
+        name: "Validation errors",
+        url: "https://shop.example/checkout?state=errors",
+        violations: 1,
+      }),
+      expect.objectContaining({
+        name: "About page",
+        url: "https://shop.example/about",
+        violations: 1,
+      }),
+    ]);
+    expect(body.metadata).toMatchObject({
+      pagesScanned: 3,
+      totalViolations: 2,
+    });
+    expect(body.data).toContain("## Journey Checkpoints");
+    expect(body.data).toContain(
+      "| 2 | Validation errors | https://shop.example/checkout?state=errors | 1 |",
+    );
+    expect(
+      state.server?.calls.filter((call) => call.name === "scan_page"),
+    ).toHaveLength(3);
+  });
+
+  it("should reject journeys without a scan checkpoint", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/checkout",
+      mode: "journey",
+      journey: { steps: [{ action: "click", target: "e5" }] },
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("journey.steps needs at least one 'scan' step");
+  });
+
+  it("should reject invalid requests before any agent runs", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/",
+      mode: "exploration",
+      options: { concurrency: 100 },
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("options.concurrency");
+    expect(state.models).toHaveLength(0);
+  });
+
+  it("should log in once and scan pages behind the login", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/account",
+      mode: "list",
+      urls: ["https://shop.example/account", "https://shop.example/orders"],
+      // Forced to 1 by the shared login session
+      options: { concurrency: 3 },
+      authentication: AUTHENTICATION,
+    });
+
+    expect(status).toBe(200);
+    expect(
+      body.findings?.map((page) => [
+        page.pageUrl,
+        page.violations.map((violation) => violation.ruleId),
+      ]),
+    ).toEqual([
+      ["https://shop.example/account", ["link-name"]],
+      ["https://shop.example/orders", []],
+    ]);
+
+    const calls = state.server?.calls ?? [];
+    expect(calls.filter((call) => call.name === "browser_fill_form")).toEqual([
+      {
+        name: "browser_fill_form",
+        args: {
+          fields: [
+            expect.objectContaining({ ref: "e1", value: LOGIN.username }),
+            expect.objectContaining({ ref: "e2", value: LOGIN.password }),
+          ],
+        },
+      },
+    ]);
+    expect(calls.at(-1)?.name).toBe("browser_close");
+
+    const serialized = JSON.stringify(body);
+    expect(serialized).not.toContain(LOGIN.username);
+    expect(serialized).not.toContain(LOGIN.password);
+    expect(serialized).toContain("[REDACTED]");
+  });
+
+  it("should report pages as failed when the login does not succeed", async () => {
+    vi.stubEnv("SCAN_AUTH_PASSWORD", "wrong-password");
+    try {
+      const { status, body } = await postScan({
+        url: "https://shop.example/account",
+        mode: "list",
+        urls: ["https://shop.example/account"],
+        options: { retry: { maxAttempts: 1 } },
+        authentication: AUTHENTICATION,
+      });
+
+      expect(status).toBe(500);
+      expect(body.details).toContain('Login failed: "Welcome back" not found');
+      expect(JSON.stringify(body)).not.toContain("wrong-password");
+    } finally {
+      vi.stubEnv("SCAN_AUTH_PASSWORD", LOGIN.password);
+    }
+  });
+
+  it("should only read credentials from SCAN_AUTH_ variables", async () => {
+    const { status, body } = await postScan({
+      url: "https://shop.example/account",
+      mode: "single",
+      authentication: { ...AUTHENTICATION, passwordEnv: "OPENAI_API_KEY" },
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("SCAN_AUTH_");
+    expect(state.server?.calls).toHaveLength(0);
+  });
+});
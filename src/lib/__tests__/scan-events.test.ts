@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyScanProgressEvent,
+  encodeSseEvent,
+  INITIAL_SCAN_PROGRESS,
+  parseSseEvents,
+  readScanEventStream,
+} from "../scan-events";
+import type { ScanProgressEvent } from "../types";
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe("encodeSseEvent / parseSseEvents", () => {
+  it("should round-trip events", () => {
+    const event: ScanProgressEvent = {
+      type: "page_scan_finished",
+      url: "https://example.com",
+      index: 0,
+      totalPages: 2,
+      violations: 4,
+    };
+
+    const encoded = encodeSseEvent(event);
+    expect(encoded).toMatch(/^event: page_scan_finished\n/);
+
+    const { events, remainder } = parseSseEvents(encoded);
+    expect(events).toEqual([event]);
+    expect(remainder).toBe("");
+  });
+
+  it("should keep incomplete messages as remainder", () => {
+    const first = encodeSseEvent({
+      type: "summarizer_started",
+      pagesScanned: 2,
+    });
+    const partial = 'event: report\ndata: {"type":"rep';
+
+    const { events, remainder } = parseSseEvents(first + partial);
+    expect(events).toHaveLength(1);
+    expect(remainder).toBe(partial);
+  });
+});
+
+describe("readScanEventStream", () => {
+  it("should forward events split across chunks and return the report", async () => {
+    const encoded =
+      encodeSseEvent({
+        type: "page_scan_started",
+        url: "https://example.com",
+        index: 0,
+        totalPages: 1,
+      }) +
+      encodeSseEvent({
+        type: "report",
+        response: { status: "success", data: "# Report" },
+      });
+    const response = streamResponse([encoded.slice(0, 30), encoded.slice(30)]);
+
+    const received: string[] = [];
+    const report = await readScanEventStream(response, (event) =>
+      received.push(event.type),
+    );
+
+    expect(received).toEqual(["page_scan_started", "report"]);
+    expect(report.data).toBe("# Report");
+  });
+
+  it("should reject on error events", async () => {
+    const response = streamResponse([
+      encodeSseEvent({ type: "error", error: "Discovery failed" }),
+    ]);
+
+    await expect(readScanEventStream(response, () => {})).rejects.toThrow(
+      "Discovery failed",
+    );
+  });
+
+  it("should reject when the stream ends without a report", async () => {
+    const response = streamResponse([]);
+
+    await expect(readScanEventStream(response, () => {})).rejects.toThrow(
+      "without a report",
+    );
+  });
+});
+
+describe("applyScanProgressEvent", () => {
+  it("should track pages through an exploration scan", () => {
+    const events: ScanProgressEvent[] = [
+      {
+        type: "discovery_complete",
+        discoveredUrls: ["https://a.com/1", "https://a.com/2"],
+        totalPages: 2,
+      },
+      {
+        type: "page_scan_started",
+        url: "https://a.com/1",
+        index: 0,
+        totalPages: 2,
+      },
+      {
+        type: "page_scan_finished",
+        url: "https://a.com/1",
+        index: 0,
+        totalPages: 2,
+        violations: 3,
+      },
+      { type: "summarizer_started", pagesScanned: 2 },
+    ];
+
+    const state = events.reduce(applyScanProgressEvent, INITIAL_SCAN_PROGRESS);
+
+    expect(state.totalPages).toBe(2);
+    expect(state.pagesScanned).toBe(1);
+    expect(state.currentPage).toBeUndefined();
+    expect(state.completedPages).toEqual([
+      { url: "https://a.com/1", violations: 3 },
+    ]);
+    expect(state.status).toBe("processing");
+  });
+});
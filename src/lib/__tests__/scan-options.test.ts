@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCAN_OPTIONS,
+  resolveScanOptions,
+  validateScanOptions,
+} from "../scan-options";
+
+describe("resolveScanOptions", () => {
+  it("should keep the previous hard-coded defaults", () => {
+    const resolved = resolveScanOptions();
+
+    expect(resolved).toEqual(DEFAULT_SCAN_OPTIONS);
+    expect(resolved.concurrency).toBe(3);
+    expect(resolved.timeouts.pageScanMs).toBe(120_000);
+    expect(resolved.recursionLimits.singleScan).toBe(200);
+  });
+
+  it("should override only the provided nested values", () => {
+    const resolved = resolveScanOptions({
+      concurrency: 6,
+      timeouts: { pageScanMs: 300_000 },
+      retry: { maxAttempts: 1 },
+    });
+
+    expect(resolved.concurrency).toBe(6);
+    expect(resolved.timeouts).toEqual({
+      ...DEFAULT_SCAN_OPTIONS.timeouts,
+      pageScanMs: 300_000,
+    });
+    expect(resolved.recursionLimits).toEqual(
+      DEFAULT_SCAN_OPTIONS.recursionLimits,
+    );
+    expect(resolved.retry).toEqual({ maxAttempts: 1, baseDelayMs: 2_000 });
+  });
+});
+
+describe("validateScanOptions", () => {
+  it("should accept missing and valid options", () => {
+    expect(validateScanOptions(undefined)).toBeNull();
+    expect(
+      validateScanOptions({
+        concurrency: 8,
+        timeouts: { discoveryMs: 600_000 },
+        recursionLimits: { pageScan: 60 },
+        retry: { maxAttempts: 5, baseDelayMs: 0 },
+      }),
+    ).toBeNull();
+  });
+
+  it("should reject values outside the bounds", () => {
+    expect(validateScanOptions({ concurrency: 0 })).toContain(
+      "options.concurrency",
+    );
+    expect(validateScanOptions({ concurrency: 2.5 })).toContain(
+      "options.concurrency",
+    );
+    expect(validateScanOptions({ timeouts: { summarizerMs: 500 } })).toBe(
+      "options.timeouts.summarizerMs must be an integer between 10000 and 900000",
+    );
+    expect(
+      validateScanOptions({ recursionLimits: { singleScan: 10_000 } }),
+    ).toContain("options.recursionLimits.singleScan");
+    expect(validateScanOptions({ retry: { maxAttempts: 10 } })).toContain(
+      "options.retry.maxAttempts",
+    );
+    expect(validateScanOptions({ retry: { baseDelayMs: -1 } })).toContain(
+      "options.retry.baseDelayMs",
+    );
+  });
+
+  it("should reject malformed option groups", () => {
+    expect(validateScanOptions("fast")).toBe("Invalid scan options");
+    expect(validateScanOptions({ timeouts: 5 })).toBe(
+      "Invalid options.timeouts",
+    );
+    expect(validateScanOptions({ retry: null })).toBe("Invalid options.retry");
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  classifyUrl,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  parseSitemapXml,
+  runSitemapDiscovery,
+} from "../sitemap-discovery";
+
+function mockFetch(routes: Record<string, string>): typeof fetch {
+  return vi.fn(async (input: string | URL | Request) => {
+    const url = String(input);
+    const body = routes[url];
+    return body === undefined
+      ? new Response("Not found", { status: 404 })
+      : new Response(body);
+  }) as unknown as typeof fetch;
+}
+
+const urlset = (urls: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((url) => `  <url><loc>${url}</loc></url>`).join("\n")}
+</urlset>`;
+
+describe("parseRobotsTxt", () => {
+  it("should collect rules for the wildcard agent and all sitemaps", () => {
+    const rules = parseRobotsTxt(`
+User-agent: Googlebot
+Disallow: /google-only
+
+User-agent: *
+Disallow: /admin
+Allow: /admin/public # comment
+Disallow:
+
+Sitemap: https://example.com/sitemap-index.xml
+`);
+
+    expect(rules.disallow).toEqual(["/admin"]);
+    expect(rules.allow).toEqual(["/admin/public"]);
+    expect(rules.sitemaps).toEqual(["https://example.com/sitemap-index.xml"]);
+  });
+});
+
+describe("isAllowedByRobots", () => {
+  const rules = {
+    allow: ["/admin/public"],
+    disallow: ["/admin", "/*.pdf$", "/search?"],
+    sitemaps: [],
+  };
+
+  it("should apply the longest matching rule", () => {
+    expect(isAllowedByRobots("https://example.com/admin/users", rules)).toBe(
+      false,
+    );
+    expect(
+      isAllowedByRobots("https://example.com/admin/public/help", rules),
+    ).toBe(true);
+    expect(isAllowedByRobots("https://example.com/about", rules)).toBe(true);
+  });
+
+  it("should support wildcards, end anchors and query strings", () => {
+    expect(isAllowedByRobots("https://example.com/docs/guide.pdf", rules)).toBe(
+      false,
+    );
+    expect(
+      isAllowedByRobots("https://example.com/docs/guide.pdf.html", rules),
+    ).toBe(true);
+    expect(isAllowedByRobots("https://example.com/search?q=a", rules)).toBe(
+      false,
+    );
+  });
+});
+
+describe("parseSitemapXml", () => {
+  it("should distinguish sitemap indexes and decode entities", () => {
+    const index = parseSitemapXml(`<sitemapindex>
+  <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+</sitemapindex>`);
+    expect(index).toEqual({
+      type: "sitemapindex",
+      locations: ["https://example.com/pages.xml"],
+    });
+
+    const pages = parseSitemapXml(
+      urlset(["https://example.com/search?a=1&amp;b=2"]),
+    );
+    expect(pages.type).toBe("urlset");
+    expect(pages.locations).toEqual(["https://example.com/search?a=1&b=2"]);
+  });
+});
+
+describe("classifyUrl", () => {
+  it("should derive priority from URL patterns", () => {
+    expect(classifyUrl("https://example.com/signup").priority).toBe("high");
+    expect(classifyUrl("https://example.com/products/shoes").priority).toBe(
+      "medium",
+    );
+    expect(classifyUrl("https://example.com/blog/2024/post").priority).toBe(
+      "low",
+    );
+    expect(classifyUrl("https://example.com/team").priority).toBe("medium");
+  });
+});
+
+describe("runSitemapDiscovery", () => {
+  it("should follow sitemap indexes and honour Disallow rules", async () => {
+    const fetchImpl = mockFetch({
+      "https://example.com/robots.txt":
+        "User-agent: *\nDisallow: /admin\nSitemap: https://example.com/index.xml",
+      "https://example.com/index.xml": `<sitemapindex>
+  <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/blog.xml</loc></sitemap>
+</sitemapindex>`,
+      "https://example.com/pages.xml": urlset([
+        "https://example.com/about",
+        "https://example.com/admin/settings",
+        "https://example.com/login",
+      ]),
+      "https://example.com/blog.xml": urlset([
+        "https://example.com/blog/first-post",
+        "https://cdn.other.com/asset",
+      ]),
+    });
+
+    const result = await runSitemapDiscovery("https://example.com", {
+      fetchImpl,
+    });
+
+    expect(result.mainPageUrl).toBe("https://example.com");
+    expect(result.discoveredUrls.map((entry) => entry.url)).toEqual([
+      "https://example.com/login",
+      "https://example.com/about",
+      "https://example.com/blog/first-post",
+    ]);
+  });
+
+  it("should fall back to /sitemap.xml and respect the page budget", async () => {
+    const fetchImpl = mockFetch({
+      "https://example.com/sitemap.xml": urlset([
+        "https://example.com/contact",
+        "https://example.com/pricing",
+        "https://example.com/checkout",
+      ]),
+    });
+
+    const result = await runSitemapDiscovery("https://example.com/", {
+      crawl: { maxPages: 2 },
+      fetchImpl,
+    });
+
+    expect(result.discoveredUrls.map((entry) => entry.url)).toEqual([
+      "https://example.com/contact",
+      "https://example.com/checkout",
+    ]);
+  });
+
+  it("should only send extra headers to the scanned site's origin", async () => {
+    const fetchImpl = mockFetch({
+      "https://example.com/robots.txt":
+        "Sitemap: https://cdn.example.net/sitemap.xml",
+    });
+
+    await runSitemapDiscovery("https://example.com", {
+      headers: { Authorization: "Bearer secret" },
+      fetchImpl,
+    });
+
+    const headersByUrl = vi
+      .mocked(fetchImpl)
+      .mock.calls.map(([url, init]) => [String(url), init?.headers]);
+    expect(headersByUrl).toEqual([
+      [
+        "https://example.com/robots.txt",
+        {
+          "User-Agent": "agentic-a11y-scanner",
+          Authorization: "Bearer secret",
+        },
+      ],
+      [
+        "https://cdn.example.net/sitemap.xml",
+        { "User-Agent": "agentic-a11y-scanner" },
+      ],
+    ]);
+  });
+
+  it("should return no URLs when no sitemap is available", async () => {
+    const result = await runSitemapDiscovery("https://example.com", {
+      fetchImpl: mockFetch({}),
+    });
+
+    expect(result.discoveredUrls).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  SqliteHistoryStore,
+  validateNewScanRecord,
+} from "../sqlite-history-store";
+
+const REPORT = `# Accessibility Scan Report
+
+**Total Violations Found:** 3
+
+## 🔴 Critical Issues
+### 1. Missing alt text
+`;
+
+describe("SqliteHistoryStore", () => {
+  let store: SqliteHistoryStore;
+
+  beforeEach(() => {
+    store = new SqliteHistoryStore(":memory:");
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.useRealTimers();
+  });
+
+  function addAt(timestamp: string, url: string, report = REPORT) {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(timestamp));
+    const result = store.add({ url, mode: "single", report });
+    vi.useRealTimers();
+    return result.data?.id as string;
+  }
+
+  it("should add scans with derived metadata and read them back", () => {
+    const result = store.add({
+      url: "https://example.com",
+      mode: "single",
+      report: REPORT,
+      label: "  Release 1.2  ",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.metadata.totalViolations).toBe(3);
+    expect(result.data?.label).toBe("Release 1.2");
+
+    const id = result.data?.id as string;
+    expect(store.getById(id).data).toEqual(result.data);
+    expect(store.getAll().data).toHaveLength(1);
+  });
+
+  it("should list scans most recent first without a size cap", () => {
+    for (let minute = 0; minute < 60; minute++) {
+      addAt(
+        new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+        `https://example.com/page-${minute}`,
+      );
+    }
+
+    const scans = store.getAll().data ?? [];
+    expect(scans).toHaveLength(60);
+    const timestamps = scans.map((scan) => scan.timestamp);
+    expect(timestamps).toEqual([...timestamps].sort().reverse());
+  });
+
+  it("should match URLs exactly or partially", () => {
+    store.add({ url: "https://example.com/", mode: "single", report: "" });
+    store.add({ url: "https://Example.com/Shop", mode: "single", report: "" });
+
+    expect(store.getByUrl("example.com/shop").data).toHaveLength(1);
+    expect(store.getByUrl("EXAMPLE.COM").data).toHaveLength(2);
+    expect(store.getByUrl("https://example.com/", true).data).toHaveLength(1);
+  });
+
+  it("should filter by mode, date range and violation count", () => {
+    const early = addAt("2025-01-01T10:00:00.000Z", "https://a.example");
+    addAt("2025-02-01T10:00:00.000Z", "https://b.example", "No issues");
+    store.add({
+      url: "https://c.example",
+      mode: "exploration",
+      report: REPORT,
+    });
+
+    expect(
+      store.filter({ mode: "exploration" }).data?.map((scan) => scan.url),
+    ).toEqual(["https://c.example"]);
+    expect(
+      store
+        .filter({ dateFrom: "2024-12-31", dateTo: "2025-01-15" })
+        .data?.map((scan) => scan.id),
+    ).toEqual([early]);
+    expect(store.filter({ minViolations: 1 }).data).toHaveLength(2);
+    expect(store.filter({ maxViolations: 0 }).data).toHaveLength(1);
+  });
+
+  it("should report invalid filter dates as errors", () => {
+    const result = store.filter({ dateFrom: "not a date" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Invalid dateFrom: not a date");
+  });
+
+  it("should update labels and delete scans", () => {
+    const id = store.add({
+      url: "https://example.com",
+      mode: "single",
+      report: REPORT,
+    }).data?.id as string;
+
+    expect(store.updateLabel(id, "Baseline").data?.label).toBe("Baseline");
+    expect(store.getById(id).data?.label).toBe("Baseline");
+    expect(store.updateLabel(id, "").data?.label).toBeUndefined();
+
+    expect(store.delete(id).success).toBe(true);
+    expect(store.getById(id).error).toBe(`Scan with ID ${id} not found`);
+    expect(store.delete(id).success).toBe(false);
+    expect(store.updateLabel(id, "x").success).toBe(false);
+  });
+
+  it("should clear all scans", () => {
+    store.add({ url: "https://example.com", mode: "single", report: "" });
+    store.clear();
+
+    expect(store.getAll().data).toEqual([]);
+  });
+});
+
+describe("validateNewScanRecord", () => {
+  it("should accept a complete record", () => {
+    expect(
+      validateNewScanRecord({
+        url: "https://example.com",
+        mode: "list",
+        report: "# Report",
+      }),
+    ).toBeNull();
+  });
+
+  it("should reject malformed records", () => {
+    expect(validateNewScanRecord(null)).toBe("Invalid scan record");
+    expect(
+      validateNewScanRecord({ url: "nope", mode: "single", report: "" }),
+    ).toBe("Invalid URL provided");
+    expect(
+      validateNewScanRecord({
+        url: "https://example.com",
+        mode: "crawl",
+        report: "",
+      }),
+    ).toContain("Invalid scan mode");
+    expect(
+      validateNewScanRecord({ url: "https://example.com", mode: "single" }),
+    ).toBe("Scan record requires a 'report' string");
+  });
+
+  it("should check the shape of findings, page results and checkpoints", () => {
+    const base = { url: "https://example.com", mode: "list", report: "" };
+    const violation = {
+      ruleId: "image-alt",
+      description: "Images must have alternate text",
+      wcagCriteria: ["1.1.1"],
+      impact: "critical",
+      selectors: ["img"],
+      html: "<img>",
+      pageUrl: "https://example.com/",
+    };
+    const page = {
+      pageUrl: "https://example.com/",
+      scannedAt: "2025-01-01T00:00:00.000Z",
+      violations: [violation],
+    };
+
+    expect(
+      validateNewScanRecord({
+        ...base,
+        findings: [page],
+        pageResults: [
+          {
+            url: "https://example.com/",
+            violations: 1,
+            report: "",
+            timestamp: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+        checkpoints: [
+          { name: "Cart", url: "https://example.com/", violations: 0 },
+        ],
+        waived: [
+          {
+            ...violation,
+            waiver: { justification: "Legacy", owner: "web", expires: "2999" },
+          },
+        ],
+      }),
+    ).toBeNull();
+    expect(validateNewScanRecord({ ...base, findings: {} })).toBe(
+      "findings must be an array of page findings",
+    );
+    expect(
+      validateNewScanRecord({
+        ...base,
+        findings: [
+          page,
+          { ...page, violations: [{ ...violation, impact: "high" }] },
+        ],
+      }),
+    ).toBe("findings[1] is not a valid page finding");
+    expect(
+      validateNewScanRecord({
+        ...base,
+        pageResults: [{ url: "https://example.com/", violations: "3" }],
+      }),
+    ).toBe("pageResults[0] is not a valid page result");
+    expect(validateNewScanRecord({ ...base, checkpoints: "none" })).toBe(
+      "checkpoints must be an array of checkpoints",
+    );
+    expect(validateNewScanRecord({ ...base, waived: [violation] })).toBe(
+      "waived[0] is not a valid waived violation",
+    );
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Fake MCP server - Serves the accessibility scanner's browser and scan_page
+ * tools from canned pages over an in-memory transport (no browser, no network)
+ */
+
+import { loadMcpTools } from "@langchain/mcp-adapters";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  type CallToolResult,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** axe-core style rule result, as returned by scan_page */
+export interface FakeViolation {
+  id: string;
+  impact: "critical" | "serious" | "moderate" | "minor";
+  description: string;
+  help?: string;
+  tags?: string[];
+  nodes: Array<{ target: string[]; html: string }>;
+}
+
+export interface FakePage {
+  html: string;
+  violations: FakeViolation[];
+  /** Logged-out visits are redirected to the login page */
+  requiresLogin?: boolean;
+  /** Element refs whose click shows another page (state), keyed by ref */
+  clickTargets?: Record<string, string>;
+}
+
+/** Login form the fake browser accepts (refs as in browser_snapshot output) */
+export interface FakeLogin {
+  loginUrl: string;
+  /** Page shown after a successful login */
+  landingUrl: string;
+  username: string;
+  password: string;
+  usernameRef: string;
+  passwordRef: string;
+  submitRef: string;
+}
+
+/** Pages keyed by absolute URL; unknown URLs fail to navigate */
+export type FakeSite = Record<string, FakePage>;
+
+export interface FakeMcpServer {
+  /** LangChain tools backed by the server, as MultiServerMCPClient returns */
+  tools: Awaited<ReturnType<typeof loadMcpTools>>;
+  /** Every tool call the server received, in order */
+  calls: Array<{ name: string; args: Record<string, unknown> }>;
+  close: () => Promise<void>;
+}
+
+const TOOLS = [
+  {
+    name: "browser_navigate",
+    description: "Navigate to a URL",
+    inputSchema: {
+      type: "object" as const,
+      properties: { url: { type: "string" } },
+      required: ["url"],
+    },
+  },
+  {
+    name: "browser_wait_for",
+    description: "Wait for text to appear or a number of seconds",
+    inputSchema: {
+      type: "object" as const,
+      properties: { time: { type: "number" }, text: { type: "string" } },
+    },
+  },
+  {
+    name: "browser_fill_form",
+    description: "Fill multiple form fields",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        fields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              type: { type: "string" },
+              ref: { type: "string" },
+              value: { type: "string" },
+            },
+          },
+        },
+      },
+      required: ["fields"],
+    },
+  },
+  {
+    name: "browser_click",
+    description: "Click an element",
+    inputSchema: {
+      type: "object" as const,
+      properties: { element: { type: "string" }, ref: { type: "string" } },
+    },
+  },
+  {
+    name: "browser_snapshot",
+    description: "Capture the current page",
+    inputSchema: { type: "object" as const, properties: {} },
+  },
+  {
+    name: "browser_close",
+    description: "Close the browser",
+    inputSchema: { type: "object" as const, properties: {} },
+  },
+  {
+    name: "scan_page",
+    description: "Run an axe-core accessibility scan of the current page",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        violationsTag: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+];
+
+function text(value: string, isError = false): CallToolResult {
+  return { content: [{ type: "text", text: value }], isError };
+}
+
+/**
+ * Starts a fake accessibility MCP server for a set of canned pages
+ * @param site Pages the fake browser can open
+ * @param login Login form for pages that require it; closing the browser
+ * logs out
+ * @returns Tools connected to the server, its call log and a close function
+ */
+export async function startFakeMcpServer(
+  site: FakeSite,
+  login?: FakeLogin,
+): Promise<FakeMcpServer> {
+  const calls: FakeMcpServer["calls"] = [];
+  const formValues = new Map<string, string>();
+  let currentUrl: string | null = null;
+  let loggedIn = false;
+
+  const server = new Server(
+    { name: "fake-accessibility-scanner", version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS,
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name } = request.params;
+    const args = request.params.arguments ?? {};
+    calls.push({ name, args });
+
+    switch (name) {
+      case "browser_navigate": {
+        const url = String(args.url);
+        if (!site[url]) {
+          return text(`Error: net::ERR_NAME_NOT_RESOLVED at ${url}`, true);
+        }
+        if (site[url].requiresLogin && !loggedIn && login) {
+          currentUrl = login.loginUrl;
+          return text(`Navigated to ${url}, redirected to ${login.loginUrl}`);
+        }
+        currentUrl = url;
+        return text(`Navigated to ${url}`);
+      }
+      case "browser_snapshot":
+        // Same header as Playwright MCP snapshots
+        return currentUrl
+          ? text(`- Page URL: ${currentUrl}\n${site[currentUrl].html}`)
+          : text("Error: no page is open", true);
+      case "browser_fill_form": {
+        const fields = (args.fields ?? []) as Array<{
+          ref: string;
+          value: string;
+        }>;
+        for (const field of fields) {
+          formValues.set(field.ref, field.value);
+        }
+        return text(`Filled ${fields.length} fields`);
+      }
+      case "browser_click":
+        if (
+          login &&
+          currentUrl === login.loginUrl &&
+          args.ref === login.submitRef &&
+          formValues.get(login.usernameRef) === login.username &&
+          formValues.get(login.passwordRef) === login.password
+        ) {
+          loggedIn = true;
+          currentUrl = login.landingUrl;
+        } else if (currentUrl && site[currentUrl].clickTargets) {
+          currentUrl =
+            site[currentUrl].clickTargets?.[String(args.ref)] ?? currentUrl;
+        }
+        return text("Clicked");
+      case "scan_page":
+        return currentUrl
+          ? text(
+              JSON.stringify({
+                url: currentUrl,
+                violations: site[currentUrl].violations,
+              }),
+            )
+          : text("Error: no page is open", true);
+      case "browser_close":
+        currentUrl = null;
+        loggedIn = false;
+        formValues.clear();
+        return text("Browser closed");
+      case "browser_wait_for":
+        return text("Done");
+      default:
+        return text(`Unknown tool: ${name}`, true);
+    }
+  });
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "scanner-tests", version: "1.0.0" });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+
+  // Same tool options as src/lib/mcp-client.ts
+  const tools = await loadMcpTools("accessibility", client, {
+    throwOnLoadError: true,
+    prefixToolNameWithServerName: false,
+    useStandardContentBlocks: true,
+  });
+
+  return {
+    tools,
+    calls,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
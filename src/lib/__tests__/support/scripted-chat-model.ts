@@ -0,0 +1,102 @@
+/**
+ * Scripted chat model - Replays tool calls and answers from a script so the
+ * real agent loop runs without an LLM
+ */
+
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  type BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+
+export interface ScriptedToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** One model turn: call tools, or answer and end the agent loop */
+export type ScriptedTurn =
+  | { toolCalls: ScriptedToolCall[] }
+  | { content: string };
+
+export interface ScriptContext {
+  /** Text of the first human message (the task prompt) */
+  prompt: string;
+  /** Model turns already taken in this conversation */
+  turn: number;
+  /** Text of every tool result so far, oldest first */
+  toolResults: string[];
+}
+
+export type ChatScript = (context: ScriptContext) => ScriptedTurn;
+
+/** Model name and token usage reported on every scripted turn */
+export const SCRIPTED_MODEL_NAME = "scripted-model";
+export const SCRIPTED_TURN_USAGE = {
+  input_tokens: 100,
+  output_tokens: 20,
+  total_tokens: 120,
+};
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((block) => ("text" in block ? String(block.text) : ""))
+        .join("");
+}
+
+export class ScriptedChatModel extends BaseChatModel {
+  /** Conversations seen by the model, one entry per turn */
+  readonly calls: BaseMessage[][] = [];
+
+  private readonly script: ChatScript;
+
+  constructor(script: ChatScript) {
+    super({});
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  // Tools run through the agent's ToolNode; the script only names them
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.calls.push(messages);
+
+    const prompt = messages.find((message) => HumanMessage.isInstance(message));
+    const turn = this.script({
+      prompt: prompt ? messageText(prompt) : "",
+      turn: messages.filter((message) => AIMessage.isInstance(message)).length,
+      toolResults: messages
+        .filter((message) => ToolMessage.isInstance(message))
+        .map(messageText),
+    });
+
+    const message = new AIMessage({
+      content: "content" in turn ? turn.content : "",
+      tool_calls:
+        "toolCalls" in turn
+          ? turn.toolCalls.map((call, index) => ({
+              ...call,
+              id: `call_${this.calls.length}_${index}`,
+              type: "tool_call" as const,
+            }))
+          : [],
+      usage_metadata: SCRIPTED_TURN_USAGE,
+      response_metadata: { model_name: SCRIPTED_MODEL_NAME },
+    });
+
+    return {
+      generations: [{ text: messageText(message), message }],
+    };
+  }
+}
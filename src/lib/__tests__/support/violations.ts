@@ -0,0 +1,24 @@
+/**
+ * Violation fixtures - Builds findings for tests that only care about a few
+ * fields of a violation
+ */
+
+import type { Violation } from "../../findings-types";
+
+/**
+ * Creates a color-contrast violation on the signup page
+ * @param overrides Fields to change
+ */
+export function createViolation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    ruleId: "color-contrast",
+    description: "Elements must meet minimum color contrast ratio",
+    wcagCriteria: ["1.4.3"],
+    impact: "serious",
+    selectors: [".hint"],
+    html: "<p class='hint'>",
+    helpUrl: "https://dequeuniversity.com/rules/axe/4.10/color-contrast",
+    pageUrl: "https://example.com/signup",
+    ...overrides,
+  };
+}
@@ -0,0 +1,121 @@
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { describe, expect, it } from "vitest";
+import {
+  addTokenUsage,
+  buildScanUsage,
+  findModelPricing,
+  getTokenUsage,
+} from "../token-usage";
+
+function turn(model: string, input: number, output: number): AIMessage {
+  return new AIMessage({
+    content: "",
+    usage_metadata: {
+      input_tokens: input,
+      output_tokens: output,
+      total_tokens: input + output,
+    },
+    response_metadata: { model_name: model },
+  });
+}
+
+describe("findModelPricing", () => {
+  it("should match dated snapshots by their longest prefix", () => {
+    expect(findModelPricing("gpt-5-nano-2025-08-07", {})).toEqual({
+      input: 0.05,
+      output: 0.4,
+    });
+    expect(findModelPricing("gpt-5-2025-08-07", {})).toEqual({
+      input: 1.25,
+      output: 10,
+    });
+  });
+
+  it("should return undefined for unknown models", () => {
+    expect(findModelPricing("llama3.1", {})).toBeUndefined();
+  });
+
+  it("should apply LLM_PRICING overrides", () => {
+    const env = {
+      LLM_PRICING: JSON.stringify({
+        "llama3.1": { input: 0, output: 0 },
+        "gpt-5-nano": { input: 1, output: 2 },
+      }),
+    };
+
+    expect(findModelPricing("llama3.1:8b", env)).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(findModelPricing("gpt-5-nano", env)).toEqual({
+      input: 1,
+      output: 2,
+    });
+  });
+
+  it("should ignore LLM_PRICING that is not JSON", () => {
+    expect(findModelPricing("gpt-4o", { LLM_PRICING: "{" })).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+  });
+});
+
+describe("getTokenUsage", () => {
+  it("should total usage and cost over the model turns", () => {
+    const usage = getTokenUsage(
+      [
+        new HumanMessage("Scan https://example.com"),
+        turn("gpt-4o-mini", 1_000_000, 0),
+        new ToolMessage({ content: "{}", tool_call_id: "call_1" }),
+        turn("gpt-4o-mini", 500_000, 1_000_000),
+      ],
+      {},
+    );
+
+    expect(usage).toMatchObject({
+      inputTokens: 1_500_000,
+      outputTokens: 1_000_000,
+      totalTokens: 2_500_000,
+    });
+    expect(usage.estimatedCostUsd).toBeCloseTo(0.15 * 1.5 + 0.6);
+  });
+
+  it("should leave the cost unknown when no model has a price", () => {
+    const usage = getTokenUsage([turn("my-local-model", 10, 5)], {});
+
+    expect(usage.totalTokens).toBe(15);
+    expect(usage.estimatedCostUsd).toBeUndefined();
+  });
+
+  it("should count messages without usage metadata as zero", () => {
+    expect(getTokenUsage([new AIMessage("done")], {})).toEqual({
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+    });
+  });
+});
+
+describe("buildScanUsage", () => {
+  it("should total every agent and keep the breakdowns", () => {
+    const discovery = { inputTokens: 10, outputTokens: 2, totalTokens: 12 };
+    const page = {
+      inputTokens: 20,
+      outputTokens: 5,
+      totalTokens: 25,
+      estimatedCostUsd: 0.01,
+    };
+
+    const usage = buildScanUsage(
+      { discovery, pageScanner: page, summarizer: undefined },
+      [{ url: "https://example.com/a", ...page }],
+    );
+
+    expect(usage).toMatchObject({
+      ...addTokenUsage(discovery, page),
+      byPage: [{ url: "https://example.com/a", totalTokens: 25 }],
+    });
+    expect(usage.estimatedCostUsd).toBe(0.01);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { ScanRecord } from "../history-types";
+import {
+  buildScanTrend,
+  getTrendSummaryText,
+  getTrendTarget,
+  summarizeTrend,
+} from "../trend-analysis";
+
+function record(
+  id: string,
+  url: string,
+  timestamp: string,
+  severity: Partial<ScanRecord["metadata"]["violationsBySeverity"]>,
+  label?: string,
+): ScanRecord {
+  const violationsBySeverity = {
+    critical: 0,
+    serious: 0,
+    moderate: 0,
+    minor: 0,
+    ...severity,
+  };
+
+  return {
+    id,
+    url,
+    mode: "single",
+    timestamp,
+    label,
+    report: "# Report",
+    metadata: {
+      totalViolations: Object.values(violationsBySeverity).reduce(
+        (sum, count) => sum + count,
+        0,
+      ),
+      violationsBySeverity,
+      pageCount: 1,
+    },
+  };
+}
+
+const SCANS = [
+  record(
+    "sprint-2",
+    "https://shop.example/checkout/",
+    "2025-02-14T09:00:00.000Z",
+    { serious: 2, minor: 1 },
+    "Sprint 2",
+  ),
+  record("sprint-1", "https://shop.example/checkout", "2025-01-31T09:00:00Z", {
+    critical: 2,
+    serious: 3,
+  }),
+  record("home", "https://shop.example/", "2025-02-01T09:00:00.000Z", {
+    moderate: 4,
+  }),
+  record("other", "https://blog.example/checkout", "2025-02-02T09:00:00Z", {
+    critical: 9,
+  }),
+];
+
+describe("getTrendTarget", () => {
+  it("should normalize URLs and reduce site targets to the origin", () => {
+    expect(getTrendTarget("https://Shop.example/checkout/", "url")).toBe(
+      "https://shop.example/checkout",
+    );
+    expect(getTrendTarget("https://shop.example/checkout?x=1", "site")).toBe(
+      "https://shop.example",
+    );
+  });
+});
+
+describe("buildScanTrend", () => {
+  it("should chart one URL oldest first with scores and labels", () => {
+    const trend = buildScanTrend(SCANS, "https://shop.example/checkout");
+
+    expect(trend.target).toBe("https://shop.example/checkout");
+    expect(trend.points).toEqual([
+      {
+        scanId: "sprint-1",
+        timestamp: "2025-01-31T09:00:00Z",
+        url: "https://shop.example/checkout",
+        label: undefined,
+        totalViolations: 5,
+        violationsBySeverity: {
+          critical: 2,
+          serious: 3,
+          moderate: 0,
+          minor: 0,
+        },
+        qualityScore: 65,
+      },
+      expect.objectContaining({
+        scanId: "sprint-2",
+        label: "Sprint 2",
+        totalViolations: 3,
+        qualityScore: 89,
+      }),
+    ]);
+    expect(trend.summary).toMatchObject({
+      violationChange: -2,
+      scoreChange: 24,
+      direction: "improving",
+    });
+  });
+
+  it("should include every page of the origin for site trends", () => {
+    const trend = buildScanTrend(SCANS, "https://shop.example/about", "site");
+
+    expect(trend.points.map((point) => point.scanId)).toEqual([
+      "sprint-1",
+      "home",
+      "sprint-2",
+    ]);
+  });
+});
+
+describe("summarizeTrend", () => {
+  it("should need two scans and treat small score moves as stable", () => {
+    const [first, second] = buildScanTrend(
+      [
+        record("a", "https://a.example/", "2025-01-01T00:00:00Z", {
+          minor: 1,
+        }),
+        record("b", "https://a.example/", "2025-01-15T00:00:00Z", {
+          minor: 2,
+        }),
+      ],
+      "https://a.example/",
+    ).points;
+
+    expect(summarizeTrend([first])).toBeNull();
+    expect(summarizeTrend([first, first])?.direction).toBe("stable");
+    expect(summarizeTrend([first, second])?.direction).toBe("regressing");
+  });
+});
+
+describe("getTrendSummaryText", () => {
+  it("should describe the change since the first scan", () => {
+    expect(
+      getTrendSummaryText(
+        buildScanTrend(SCANS, "https://shop.example/checkout"),
+      ),
+    ).toBe(
+      "2 scans: 2 fewer violation(s) and a quality score up 24 point(s) since the first scan (improving).",
+    );
+    expect(
+      getTrendSummaryText(buildScanTrend(SCANS, "https://shop.example/")),
+    ).toBe("Only one scan so far. Run another scan to see a trend.");
+  });
+});
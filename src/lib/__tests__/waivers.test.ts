@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { PageFindings } from "../findings-types";
+import type { WaiverRule } from "../types";
+import {
+  applyWaivers,
+  formatWaivedSection,
+  isWaiverActive,
+  matchesWaiver,
+  validateWaivers,
+} from "../waivers";
+import { createViolation } from "./support/violations";
+
+function waiver(overrides: Partial<WaiverRule>): WaiverRule {
+  return {
+    justification: "Third-party chat widget",
+    owner: "support-team",
+    expires: "2030-06-30",
+    ...overrides,
+  };
+}
+
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+describe("validateWaivers", () => {
+  it("should accept valid waivers and no waivers", () => {
+    expect(validateWaivers(undefined)).toBeNull();
+    expect(
+      validateWaivers([waiver({ ruleId: "label", id: "A11Y-1" })]),
+    ).toBeNull();
+  });
+
+  it("should reject invalid waivers", () => {
+    expect(validateWaivers({})).toBe("waivers must be an array");
+    expect(validateWaivers([waiver({})])).toBe(
+      "waivers[0] needs at least one of ruleId, wcagCriterion, urlPattern, selector",
+    );
+    expect(validateWaivers([waiver({ selector: " " })])).toBe(
+      "waivers[0].selector must be a non-empty string",
+    );
+    expect(validateWaivers([waiver({ ruleId: "label", owner: "" })])).toBe(
+      "waivers[0].owner must be a non-empty string",
+    );
+    expect(
+      validateWaivers([waiver({ ruleId: "label", expires: "next year" })]),
+    ).toBe("waivers[0].expires must be a date (YYYY-MM-DD)");
+  });
+});
+
+describe("matchesWaiver", () => {
+  it("should require every matcher the rule sets", () => {
+    const target = createViolation({});
+
+    expect(matchesWaiver(target, waiver({ ruleId: "color-contrast" }))).toBe(
+      true,
+    );
+    expect(matchesWaiver(target, waiver({ wcagCriterion: "1.4.3" }))).toBe(
+      true,
+    );
+    expect(
+      matchesWaiver(
+        target,
+        waiver({ ruleId: "color-contrast", wcagCriterion: "1.1.1" }),
+      ),
+    ).toBe(false);
+  });
+
+  it("should match URL and selector patterns with wildcards", () => {
+    const widget = createViolation({
+      selectors: ["iframe#chat", "div.widget  >  button:nth-child(2)"],
+      pageUrl: "https://example.com/help/contact?ref=nav",
+    });
+
+    expect(
+      matchesWaiver(
+        widget,
+        waiver({ urlPattern: "https://example.com/help/*" }),
+      ),
+    ).toBe(true);
+    expect(
+      matchesWaiver(
+        widget,
+        waiver({ urlPattern: "https://example.com/*/faq" }),
+      ),
+    ).toBe(false);
+    expect(
+      matchesWaiver(widget, waiver({ selector: "iframe#chat >>> *" })),
+    ).toBe(true);
+    expect(
+      matchesWaiver(
+        widget,
+        waiver({ selector: "iframe#chat >>> div.widget>button" }),
+      ),
+    ).toBe(true);
+    expect(matchesWaiver(widget, waiver({ selector: "iframe#chat" }))).toBe(
+      false,
+    );
+  });
+
+  it("should treat other regex characters literally", () => {
+    expect(
+      matchesWaiver(
+        createViolation({ pageUrl: "https://example.com/a+b" }),
+        waiver({ urlPattern: "https://example.com/a+b" }),
+      ),
+    ).toBe(true);
+    expect(
+      matchesWaiver(
+        createViolation({ pageUrl: "https://exampleXcom/" }),
+        waiver({ urlPattern: "https://example.com/" }),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("isWaiverActive", () => {
+  it("should apply until the end of the expiry date", () => {
+    expect(isWaiverActive(waiver({ expires: "2025-06-01" }), NOW)).toBe(true);
+    expect(isWaiverActive(waiver({ expires: "2025-05-31" }), NOW)).toBe(false);
+  });
+});
+
+describe("applyWaivers", () => {
+  const findings: PageFindings[] = [
+    {
+      pageUrl: "https://example.com/signup",
+      scannedAt: "2025-06-01T12:00:00.000Z",
+      violations: [
+        createViolation({}),
+        createViolation({ ruleId: "label", wcagCriteria: ["4.1.2"] }),
+      ],
+    },
+  ];
+
+  it("should move matching violations out of the findings", () => {
+    const expired = waiver({ ruleId: "label", expires: "2024-12-31" });
+    const result = applyWaivers(
+      findings,
+      [waiver({ id: "A11Y-7", wcagCriterion: "1.4.3" }), expired],
+      NOW,
+    );
+
+    expect(result.findings[0].violations.map((v) => v.ruleId)).toEqual([
+      "label",
+    ]);
+    expect(result.waived).toEqual([
+      {
+        ...findings[0].violations[0],
+        waiver: {
+          id: "A11Y-7",
+          justification: "Third-party chat widget",
+          owner: "support-team",
+          expires: "2030-06-30",
+        },
+      },
+    ]);
+    expect(result.expired).toEqual([expired]);
+    // The input is left untouched
+    expect(findings[0].violations).toHaveLength(2);
+  });
+});
+
+describe("formatWaivedSection", () => {
+  it("should list waived violations with their justification", () => {
+    const { waived } = applyWaivers(
+      [
+        {
+          pageUrl: "https://example.com/",
+          scannedAt: "2025-06-01T12:00:00.000Z",
+          violations: [createViolation({ pageUrl: "https://example.com/" })],
+        },
+      ],
+      [waiver({ ruleId: "color-contrast", justification: "Logo | brand" })],
+      NOW,
+    );
+
+    expect(formatWaivedSection(waived, [])).toBe(
+      [
+        "## Waived Issues",
+        "",
+        "1 violation(s) matched a waiver and are not included in the totals.",
+        "",
+        "| Rule | Impact | Page | Element | Justification | Owner | Expires |",
+        "| --- | --- | --- | --- | --- | --- | --- |",
+        "| color-contrast | serious | https://example.com/ | `.hint` | Logo \\| brand | support-team | 2030-06-30 |",
+      ].join("\n"),
+    );
+  });
+});
@@ -1,18 +1,24 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { createAgent } from "langchain";
-import { clientTools } from "@/lib/mcp-client";
-
-const DEFAULT_MODEL = "gpt-5-nano-2025-08-07";
-
-export async function createAgentWithPrompt(systemPrompt: string) {
-  const model = new ChatOpenAI({
-    model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-
-  const cachedTools = await clientTools.getTools();
-
-  model.bindTools(cachedTools);
+import { type AgentRole, createChatModel } from "@/lib/llm-providers";
+import { clientTools, type McpToolSource } from "@/lib/mcp-client";
+
+/**
+ * Creates an agent using the model configured for its role
+ * (see src/lib/llm-providers.ts)
+ * @param systemPrompt Agent instructions
+ * @param role Selects per-role model overrides
+ * @param mcpClient Browser tools (defaults to the shared MCP client)
+ */
+export async function createAgentWithPrompt(
+  systemPrompt: string,
+  role: AgentRole = "single",
+  mcpClient: McpToolSource = clientTools,
+) {
+  const model = await createChatModel(role);
+
+  const cachedTools = await mcpClient.getTools();
+
+  model.bindTools?.(cachedTools);
 
   const tools = process.env.environment === "local" ? cachedTools : undefined;
 
@@ -23,9 +29,13 @@ export async function createAgentWithPrompt(systemPrompt: string) {
   });
 }
 
-export async function initializeAgent() {
+export async function initializeAgent(mcpClient?: McpToolSource) {
   return {
-    agent: await createAgentWithPrompt(ACCESSIBILITY_SYSTEM_PROMPT),
+    agent: await createAgentWithPrompt(
+      ACCESSIBILITY_SYSTEM_PROMPT,
+      "single",
+      mcpClient,
+    ),
   };
 }
 
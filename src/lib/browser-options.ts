@@ -0,0 +1,289 @@
+/**
+ * Browser Options - Cookies, extra HTTP headers and a user agent for the
+ * browser session a scan runs in (e.g. a bearer token for a staging site)
+ */
+
+import type { ScanBrowserOptions, ScanCookie } from "@/lib/types";
+
+/** Maximum number of cookies accepted per scan */
+export const MAX_BROWSER_COOKIES = 50;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+const REDACTED = "[REDACTED]";
+
+/** RFC 9110 token characters */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const COOKIE_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const SAME_SITE_VALUES = ["Strict", "Lax", "None"];
+
+/** Browser-managed headers that cannot be overridden per scan */
+const FORBIDDEN_HEADERS = ["host", "content-length", "cookie", "user-agent"];
+
+const hasLineBreak = (value: string) => /[\r\n]/.test(value);
+
+/** Playwright cookie as stored in a storage state file */
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+}
+
+/** Playwright browser context options passed to the MCP server */
+export interface BrowserContextOptions {
+  userAgent?: string;
+  storageState?: { cookies: BrowserCookie[]; origins: [] };
+}
+
+/**
+ * Extra request headers for the scanned origin. They are added by request
+ * interception rather than as context-wide extraHTTPHeaders, which Playwright
+ * would also send to every third-party host the page loads from
+ */
+export interface OriginHeaders {
+  origin: string;
+  headers: Record<string, string>;
+}
+
+function validateCookie(cookie: unknown, index: number): string | null {
+  if (typeof cookie !== "object" || cookie === null) {
+    return `browser.cookies[${index}] must be an object`;
+  }
+
+  const { name, value, domain, path, secure, httpOnly, sameSite } =
+    cookie as Partial<ScanCookie>;
+
+  if (typeof name !== "string" || !COOKIE_NAME_PATTERN.test(name)) {
+    return `browser.cookies[${index}].name must be a valid cookie name`;
+  }
+  if (typeof value !== "string" || /[\r\n;]/.test(value)) {
+    return `browser.cookies[${index}].value must be a string without ';' or line breaks`;
+  }
+  if (domain !== undefined && (typeof domain !== "string" || !domain.trim())) {
+    return `browser.cookies[${index}].domain must be a non-empty string`;
+  }
+  if (
+    path !== undefined &&
+    (typeof path !== "string" || !path.startsWith("/"))
+  ) {
+    return `browser.cookies[${index}].path must start with '/'`;
+  }
+  if (
+    (secure !== undefined && typeof secure !== "boolean") ||
+    (httpOnly !== undefined && typeof httpOnly !== "boolean")
+  ) {
+    return `browser.cookies[${index}].secure and httpOnly must be booleans`;
+  }
+  if (sameSite !== undefined && !SAME_SITE_VALUES.includes(sameSite)) {
+    return `browser.cookies[${index}].sameSite must be 'Strict', 'Lax' or 'None'`;
+  }
+
+  return null;
+}
+
+function validateHeaders(headers: unknown): string | null {
+  if (
+    typeof headers !== "object" ||
+    headers === null ||
+    Array.isArray(headers)
+  ) {
+    return "browser.headers must be an object of header names to values";
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      return `Invalid header name: ${name}`;
+    }
+    if (FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+      return `Header ${name} cannot be set; use browser.cookies or browser.userAgent instead`;
+    }
+    if (typeof value !== "string" || hasLineBreak(value)) {
+      return `browser.headers.${name} must be a single-line string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates a scan request's browser session options
+ * @param browser Untrusted browser option
+ * @returns Error message, or null when the options are valid
+ */
+export function validateBrowserOptions(browser: unknown): string | null {
+  if (browser === undefined) {
+    return null;
+  }
+
+  if (typeof browser !== "object" || browser === null) {
+    return "Invalid browser options";
+  }
+
+  const { cookies, headers, userAgent } = browser as ScanBrowserOptions;
+
+  if (cookies !== undefined) {
+    if (!Array.isArray(cookies)) {
+      return "browser.cookies must be an array";
+    }
+    if (cookies.length > MAX_BROWSER_COOKIES) {
+      return `browser.cookies accepts at most ${MAX_BROWSER_COOKIES} cookies`;
+    }
+    for (const [index, cookie] of cookies.entries()) {
+      const error = validateCookie(cookie, index);
+      if (error) {
+        return error;
+      }
+    }
+  }
+
+  if (headers !== undefined) {
+    const error = validateHeaders(headers);
+    if (error) {
+      return error;
+    }
+  }
+
+  if (
+    userAgent !== undefined &&
+    (typeof userAgent !== "string" ||
+      !userAgent.trim() ||
+      userAgent.length > MAX_USER_AGENT_LENGTH ||
+      hasLineBreak(userAgent))
+  ) {
+    return `browser.userAgent must be a single-line string of at most ${MAX_USER_AGENT_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Converts browser options into Playwright context options. Cookies without
+ * a domain are scoped to the scanned URL's host; headers are left to
+ * buildOriginHeaders()
+ * @param browser Validated browser options
+ * @param scanUrl URL the scan starts from
+ */
+export function buildBrowserContextOptions(
+  browser: ScanBrowserOptions,
+  scanUrl: string,
+): BrowserContextOptions {
+  const { hostname, protocol } = new URL(scanUrl);
+  const options: BrowserContextOptions = {};
+
+  if (browser.userAgent) {
+    options.userAgent = browser.userAgent;
+  }
+
+  if (browser.cookies && browser.cookies.length > 0) {
+    options.storageState = {
+      cookies: browser.cookies.map((cookie) => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain ?? hostname,
+        path: cookie.path ?? "/",
+        expires: -1,
+        httpOnly: cookie.httpOnly ?? false,
+        secure: cookie.secure ?? protocol === "https:",
+        sameSite: cookie.sameSite ?? "Lax",
+      })),
+      origins: [],
+    };
+  }
+
+  return options;
+}
+
+/**
+ * Scopes the scan's extra headers (e.g. a bearer token) to the scanned
+ * origin
+ * @param browser Validated browser options
+ * @param scanUrl URL the scan starts from
+ * @returns Origin headers, or undefined when the scan sets no headers
+ */
+export function buildOriginHeaders(
+  browser: ScanBrowserOptions,
+  scanUrl: string,
+): OriginHeaders | undefined {
+  const headers = browser.headers ?? {};
+  if (Object.keys(headers).length === 0) {
+    return undefined;
+  }
+
+  return { origin: new URL(scanUrl).origin, headers: { ...headers } };
+}
+
+/**
+ * Builds a Playwright MCP init-page module (`browser.initPage`) that adds
+ * the headers to requests for their origin only. Every other request,
+ * including third-party scripts, images and redirects to other hosts, goes
+ * out unchanged
+ * @param originHeaders Headers and the origin they belong to
+ * @returns Module source, to be written to a file
+ */
+export function createOriginHeadersInitPage(
+  originHeaders: OriginHeaders,
+): string {
+  return `const origin = ${JSON.stringify(originHeaders.origin)};
+const headers = ${JSON.stringify(originHeaders.headers)};
+
+export default async ({ page }) => {
+  await page.route(
+    (url) => url.origin === origin,
+    (route) =>
+      route.continue({ headers: { ...route.request().headers(), ...headers } }),
+  );
+};
+`;
+}
+
+/**
+ * Request headers matching the browser session, for server-side fetches of
+ * the scanned site (e.g. robots.txt and sitemaps)
+ * @param browser Browser options, if any
+ * @returns Headers to merge into the fetch's own
+ */
+export function buildFetchHeaders(
+  browser?: ScanBrowserOptions,
+): Record<string, string> {
+  const headers: Record<string, string> = { ...browser?.headers };
+
+  if (browser?.userAgent) {
+    headers["User-Agent"] = browser.userAgent;
+  }
+
+  if (browser?.cookies && browser.cookies.length > 0) {
+    headers.Cookie = browser.cookies
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
+  }
+
+  return headers;
+}
+
+/**
+ * Hides cookie and header values so browser options can be stored or
+ * returned to clients; names and the user agent are kept
+ */
+export function redactBrowserOptions(
+  browser: ScanBrowserOptions,
+): ScanBrowserOptions {
+  return {
+    ...browser,
+    cookies: browser.cookies?.map((cookie) => ({
+      ...cookie,
+      value: REDACTED,
+    })),
+    headers: browser.headers
+      ? Object.fromEntries(
+          Object.keys(browser.headers).map((name) => [name, REDACTED]),
+        )
+      : undefined,
+  };
+}
@@ -2,14 +2,99 @@
  * Comparison Engine - Calculates diffs between scan reports
  */
 
+import type { PageFindings, Violation } from "./findings-types";
 import type {
+  IssueDiff,
   ScanComparison,
   ScanRecord,
   ViolationSeverity,
 } from "./history-types";
 
+/**
+ * Normalizes a CSS selector so cosmetic differences do not change fingerprints
+ * Collapses whitespace, tightens combinators and drops positional pseudo-classes
+ * @param selector CSS selector
+ * @returns Normalized selector
+ */
+export function normalizeSelector(selector: string): string {
+  return selector
+    .replace(
+      /:(nth-child|nth-of-type|nth-last-child|nth-last-of-type)\([^)]*\)/gi,
+      "",
+    )
+    .replace(/\s*([>+~])\s*/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalizes a page URL for fingerprinting
+ * Drops the hash and trailing slash and lowercases the origin
+ * @param url Page URL
+ * @returns Normalized URL
+ */
+export function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${parsed.origin.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url.trim().replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Builds a stable identifier for a violation (rule + selector + page URL)
+ * @param violation Violation to fingerprint
+ * @returns Fingerprint string
+ */
+export function fingerprintViolation(violation: Violation): string {
+  const selector = violation.selectors.map(normalizeSelector).join(" >>> ");
+  return [violation.ruleId, selector, normalizePageUrl(violation.pageUrl)].join(
+    "|",
+  );
+}
+
+/**
+ * Matches violations between two sets of findings by fingerprint
+ * Duplicate fingerprints are matched one-to-one
+ * @param baseline Findings from the earlier scan
+ * @param current Findings from the later scan
+ * @returns Fixed, introduced and persisting issues
+ */
+export function diffFindings(
+  baseline: PageFindings[],
+  current: PageFindings[],
+): IssueDiff {
+  const remaining = new Map<string, Violation[]>();
+  for (const violation of baseline.flatMap((page) => page.violations)) {
+    const key = fingerprintViolation(violation);
+    const bucket = remaining.get(key) ?? [];
+    bucket.push(violation);
+    remaining.set(key, bucket);
+  }
+
+  const introduced: Violation[] = [];
+  const persisting: Violation[] = [];
+  for (const violation of current.flatMap((page) => page.violations)) {
+    const bucket = remaining.get(fingerprintViolation(violation));
+    if (bucket && bucket.length > 0) {
+      bucket.shift();
+      persisting.push(violation);
+    } else {
+      introduced.push(violation);
+    }
+  }
+
+  const fixed = Array.from(remaining.values()).flat();
+
+  return { fixed, introduced, persisting };
+}
+
 /**
  * Compares two scan records and calculates the differences
+ * When both records carry structured findings, issues are matched by
+ * fingerprint; otherwise fixed/new counts are derived from the totals
  * @param baseline Earlier scan (baseline for comparison)
  * @param current Later scan (current state)
  * @returns Detailed comparison object
@@ -21,10 +106,21 @@ export function compareScanRecords(
   const baselineTotal = baseline.metadata.totalViolations;
   const currentTotal = current.metadata.totalViolations;
 
+  const issues =
+    baseline.findings && current.findings
+      ? diffFindings(baseline.findings, current.findings)
+      : undefined;
+
   // Calculate overall metrics
-  const fixed = Math.max(0, baselineTotal - currentTotal);
-  const newViolations = Math.max(0, currentTotal - baselineTotal);
-  const unchanged = Math.min(baselineTotal, currentTotal);
+  const fixed = issues
+    ? issues.fixed.length
+    : Math.max(0, baselineTotal - currentTotal);
+  const newViolations = issues
+    ? issues.introduced.length
+    : Math.max(0, currentTotal - baselineTotal);
+  const unchanged = issues
+    ? issues.persisting.length
+    : Math.min(baselineTotal, currentTotal);
 
   // Calculate percentage change (handle division by zero)
   let percentageChange = 0;
@@ -48,6 +144,24 @@ export function compareScanRecords(
     const baselineCount = baseline.metadata.violationsBySeverity[severity];
     const currentCount = current.metadata.violationsBySeverity[severity];
 
+    if (issues) {
+      const severityIssues: IssueDiff = {
+        fixed: issues.fixed.filter((v) => v.impact === severity),
+        introduced: issues.introduced.filter((v) => v.impact === severity),
+        persisting: issues.persisting.filter((v) => v.impact === severity),
+      };
+
+      bySeverity[severity] = {
+        baselineCount,
+        currentCount,
+        fixed: severityIssues.fixed.length,
+        new: severityIssues.introduced.length,
+        unchanged: severityIssues.persisting.length,
+        issues: severityIssues,
+      };
+      continue;
+    }
+
     bySeverity[severity] = {
       baselineCount,
       currentCount,
@@ -69,25 +183,39 @@ export function compareScanRecords(
       percentageChange: Math.round(percentageChange * 10) / 10, // Round to 1 decimal
     },
     bySeverity,
+    issues,
     comparedAt: new Date().toISOString(),
   };
 }
 
 /**
  * Determines if a comparison shows improvement
+ * With an issue-level diff, it takes at least one fix and no newly
+ * introduced issue, so a comparison is never both improvement and regression
  * @param comparison Comparison result
  * @returns True if current scan is better than baseline
  */
 export function isImprovement(comparison: ScanComparison): boolean {
+  if (comparison.issues) {
+    return (
+      comparison.issues.fixed.length > 0 &&
+      comparison.issues.introduced.length === 0
+    );
+  }
   return comparison.overall.currentTotal < comparison.overall.baselineTotal;
 }
 
 /**
  * Determines if a comparison shows regression
+ * With an issue-level diff, any newly introduced issue counts as a regression
+ * even when unrelated fixes keep the total flat
  * @param comparison Comparison result
  * @returns True if current scan is worse than baseline
  */
 export function isRegression(comparison: ScanComparison): boolean {
+  if (comparison.issues) {
+    return comparison.issues.introduced.length > 0;
+  }
   return comparison.overall.currentTotal > comparison.overall.baselineTotal;
 }
 
@@ -112,6 +240,9 @@ export function getComparisonSummary(comparison: ScanComparison): string {
   }
 
   if (overall.currentTotal === overall.baselineTotal) {
+    if (overall.fixed > 0 || overall.new > 0) {
+      return `${overall.fixed} fixed, ${overall.new} new`;
+    }
     return "No change in violation count";
   }
 
@@ -180,7 +311,8 @@ export function getMostSignificantChange(
 /**
  * Calculates a quality score for a scan (0-100)
  * Lower violations = higher score
- * Critical violations weighted more heavily
+ * Critical violations weighted more heavily; waived violations are not in the
+ * metadata counts, so they do not lower the score
  * @param record Scan record
  * @returns Quality score (0-100)
  */
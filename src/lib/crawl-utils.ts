@@ -0,0 +1,180 @@
+/**
+ * Crawl utilities - Limits, scope checks and URL deduplication for
+ * exploration-mode discovery
+ */
+
+import { normalizePageUrl } from "./comparison-engine";
+import type { DiscoveredUrl } from "./multi-agent-types";
+import type { CrawlOptions, CrawlScope } from "./types";
+
+export const DEFAULT_CRAWL_OPTIONS: Required<CrawlOptions> = {
+  maxPages: 4,
+  maxDepth: 1,
+  scope: "same-origin",
+};
+
+/** Upper bounds accepted from API clients */
+export const CRAWL_LIMITS = {
+  maxPages: 50,
+  maxDepth: 3,
+} as const;
+
+const CRAWL_SCOPES: CrawlScope[] = ["same-origin", "subdomains"];
+
+const PRIORITY_ORDER: Record<DiscoveredUrl["priority"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Fills in defaults for any crawl option the request left out
+ * @param crawl Crawl options from the scan request
+ * @returns Complete crawl options
+ */
+export function resolveCrawlOptions(
+  crawl: CrawlOptions = {},
+): Required<CrawlOptions> {
+  return {
+    maxPages: crawl.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages,
+    maxDepth: crawl.maxDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth,
+    scope: crawl.scope ?? DEFAULT_CRAWL_OPTIONS.scope,
+  };
+}
+
+/**
+ * Checks that an untrusted value is an integer within inclusive bounds
+ */
+export function isIntegerInRange(
+  value: unknown,
+  min: number,
+  max: number,
+): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Validates crawl options from an API request
+ * @param crawl Untrusted crawl options
+ * @returns Error message, or null when the options are valid
+ */
+export function validateCrawlOptions(crawl: unknown): string | null {
+  if (crawl === undefined) {
+    return null;
+  }
+
+  if (typeof crawl !== "object" || crawl === null) {
+    return "Invalid crawl options";
+  }
+
+  const { maxPages, maxDepth, scope } = crawl as CrawlOptions;
+
+  if (
+    maxPages !== undefined &&
+    !isIntegerInRange(maxPages, 1, CRAWL_LIMITS.maxPages)
+  ) {
+    return `crawl.maxPages must be an integer between 1 and ${CRAWL_LIMITS.maxPages}`;
+  }
+
+  if (
+    maxDepth !== undefined &&
+    !isIntegerInRange(maxDepth, 1, CRAWL_LIMITS.maxDepth)
+  ) {
+    return `crawl.maxDepth must be an integer between 1 and ${CRAWL_LIMITS.maxDepth}`;
+  }
+
+  if (scope !== undefined && !CRAWL_SCOPES.includes(scope)) {
+    return "crawl.scope must be 'same-origin' or 'subdomains'";
+  }
+
+  return null;
+}
+
+/**
+ * Strips a leading "www." so example.com and www.example.com share a site
+ */
+function siteHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Checks whether a discovered URL may be crawled from the start URL
+ * @param url Candidate URL
+ * @param rootUrl URL the scan started from
+ * @param scope Same origin only, or any subdomain of the start host
+ */
+export function isInCrawlScope(
+  url: string,
+  rootUrl: string,
+  scope: CrawlScope,
+): boolean {
+  let candidate: URL;
+  let root: URL;
+  try {
+    candidate = new URL(url);
+    root = new URL(rootUrl);
+  } catch {
+    return false;
+  }
+
+  if (candidate.protocol !== "http:" && candidate.protocol !== "https:") {
+    return false;
+  }
+
+  if (scope === "same-origin") {
+    return candidate.origin === root.origin;
+  }
+
+  const host = siteHost(candidate.hostname);
+  const rootHost = siteHost(root.hostname);
+  return host === rootHost || host.endsWith(`.${rootHost}`);
+}
+
+/**
+ * Adds newly discovered URLs to a crawl, skipping duplicates and
+ * out-of-scope links, without exceeding the page budget
+ * @param existing URLs already selected for scanning
+ * @param candidates URLs returned by the latest discovery pass
+ * @param rootUrl URL the scan started from
+ * @param options Resolved crawl options
+ * @returns The URLs that were added (highest priority first)
+ */
+export function mergeDiscoveredUrls(
+  existing: DiscoveredUrl[],
+  candidates: DiscoveredUrl[],
+  rootUrl: string,
+  options: Required<CrawlOptions>,
+): DiscoveredUrl[] {
+  const seen = new Set(existing.map((entry) => normalizePageUrl(entry.url)));
+  const added: DiscoveredUrl[] = [];
+
+  const ordered = [...candidates].sort(
+    (a, b) =>
+      (PRIORITY_ORDER[a.priority] ?? PRIORITY_ORDER.low) -
+      (PRIORITY_ORDER[b.priority] ?? PRIORITY_ORDER.low),
+  );
+
+  for (const candidate of ordered) {
+    if (existing.length + added.length >= options.maxPages) {
+      break;
+    }
+
+    const key = normalizePageUrl(candidate.url);
+    if (
+      seen.has(key) ||
+      !isInCrawlScope(candidate.url, rootUrl, options.scope)
+    ) {
+      continue;
+    }
+
+    seen.add(key);
+    added.push(candidate);
+  }
+
+  return added;
+}
@@ -0,0 +1,99 @@
+/**
+ * Export Source - Reads the findings exporters need from either a history
+ * record or a multi-agent scan result
+ */
+
+import type { PageFindings } from "./findings-types";
+import type { ScanRecord } from "./history-types";
+import { createScanRecord } from "./history-utils";
+import type { MultiAgentScanResult } from "./multi-agent-types";
+import type { ScanMode, ScanRequest, ScanResponse } from "./types";
+
+/** Anything an exporter can convert */
+export type ExportSource = ScanRecord | MultiAgentScanResult;
+
+/** Scan details shared by every export format */
+export interface ExportScan {
+  /** URL the scan started from */
+  url: string;
+  /** Absent for multi-agent results, which do not record their mode */
+  mode?: ScanMode;
+  /** ISO 8601 timestamp when the scan finished */
+  timestamp: string;
+  /** Structured findings per scanned page */
+  findings: PageFindings[];
+  /** Pages that failed or timed out after all retries */
+  failedPages: Array<{ url: string; error: string }>;
+}
+
+/**
+ * Picks what to export for a finished scan: the multi-agent result when there
+ * is one, otherwise a record built from the response (single and journey
+ * scans)
+ * @param request Scan request
+ * @param response Scan response
+ * @param multiAgentResult Raw orchestrator output, if any
+ * @param timestamp When the scan finished (defaults to now)
+ */
+export function toScanExportSource(
+  request: Pick<ScanRequest, "url" | "mode">,
+  response: ScanResponse,
+  multiAgentResult?: MultiAgentScanResult,
+  timestamp?: string,
+): ExportSource {
+  if (multiAgentResult) {
+    return multiAgentResult;
+  }
+
+  const record = createScanRecord({
+    url: request.url,
+    mode: request.mode,
+    report: response.data,
+    findings: response.findings,
+    pageResults: response.pageResults,
+    checkpoints: response.checkpoints,
+    waived: response.waived,
+  });
+  return timestamp ? { ...record, timestamp } : record;
+}
+
+function isMultiAgentResult(
+  source: ExportSource,
+): source is MultiAgentScanResult {
+  return "pageScanResults" in source;
+}
+
+/**
+ * Normalizes an export source
+ * @param source History record or multi-agent scan result
+ */
+export function toExportScan(source: ExportSource): ExportScan {
+  if (isMultiAgentResult(source)) {
+    const pages = source.pageScanResults;
+    const failed = pages.filter(
+      (page) => page.status === "failed" || page.status === "timed_out",
+    );
+
+    return {
+      url: source.mainUrl,
+      timestamp: source.timestamp,
+      findings: pages.flatMap((page) =>
+        page.findings && !failed.includes(page) ? [page.findings] : [],
+      ),
+      failedPages: failed.map((page) => ({
+        url: page.url,
+        error: page.error ?? "Scan failed",
+      })),
+    };
+  }
+
+  return {
+    url: source.url,
+    mode: source.mode,
+    timestamp: source.timestamp,
+    findings: source.findings ?? [],
+    failedPages: (source.pageResults ?? [])
+      .filter((page) => page.status !== undefined)
+      .map((page) => ({ url: page.url, error: page.error ?? "Scan failed" })),
+  };
+}
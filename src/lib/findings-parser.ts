@@ -0,0 +1,260 @@
+/**
+ * Findings Parser - Builds structured violations from scan_page tool output
+ */
+
+import { type BaseMessage, ToolMessage } from "@langchain/core/messages";
+import type { PageFindings, Violation } from "./findings-types";
+import type { ViolationSeverity } from "./history-types";
+
+/** Name of the MCP tool that runs the accessibility scan */
+const SCAN_TOOL_NAME = "scan_page";
+
+const SEVERITIES: ViolationSeverity[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+interface RawNode {
+  target?: unknown;
+  html?: unknown;
+  impact?: unknown;
+}
+
+interface RawRule {
+  id?: unknown;
+  impact?: unknown;
+  tags?: unknown;
+  description?: unknown;
+  help?: unknown;
+  helpUrl?: unknown;
+  nodes?: unknown;
+}
+
+/**
+ * Parses the raw text returned by scan_page into page findings
+ * Accepts axe-core style results (an object with a `violations` array or the
+ * array itself), optionally wrapped in surrounding text or a fenced code block
+ * @param raw Tool output text
+ * @param pageUrl URL used when the output does not name the scanned page
+ * @returns Parsed findings, or null if the output holds no scan results
+ */
+export function parseScanPageOutput(
+  raw: string,
+  pageUrl: string,
+): PageFindings | null {
+  const parsed = extractJson(raw);
+  if (parsed === undefined) {
+    return null;
+  }
+
+  let rules: unknown;
+  let resolvedUrl = pageUrl;
+
+  if (Array.isArray(parsed)) {
+    rules = parsed;
+  } else if (parsed && typeof parsed === "object") {
+    const result = parsed as { url?: unknown; violations?: unknown };
+    rules = result.violations;
+    if (typeof result.url === "string" && result.url) {
+      resolvedUrl = result.url;
+    }
+  }
+
+  if (!Array.isArray(rules)) {
+    return null;
+  }
+
+  const violations: Violation[] = [];
+  for (const rule of rules as RawRule[]) {
+    if (!rule || typeof rule !== "object" || typeof rule.id !== "string") {
+      continue;
+    }
+    violations.push(...ruleToViolations(rule, resolvedUrl));
+  }
+
+  return {
+    pageUrl: resolvedUrl,
+    violations,
+    scannedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Collects findings from every scan_page call in an agent conversation
+ * Repeated scans of the same page keep only the latest result
+ * @param messages Messages returned by agent.invoke
+ * @param pageUrl URL the agent was asked to scan
+ * @returns Findings in the order pages were first scanned
+ */
+export function extractFindingsFromMessages(
+  messages: BaseMessage[],
+  pageUrl: string,
+): PageFindings[] {
+  const byPage = new Map<string, PageFindings>();
+
+  for (const message of messages) {
+    if (!ToolMessage.isInstance(message) || message.name !== SCAN_TOOL_NAME) {
+      continue;
+    }
+
+    const findings = parseScanPageOutput(
+      messageContentToText(message.content),
+      pageUrl,
+    );
+    if (findings) {
+      byPage.set(findings.pageUrl, findings);
+    }
+  }
+
+  return Array.from(byPage.values());
+}
+
+/**
+ * Returns the text of every scan_page call in an agent conversation, in call
+ * order (journeys scan the same page several times, in different states)
+ * @param messages Messages returned by agent.invoke
+ */
+export function extractScanPageOutputs(messages: BaseMessage[]): string[] {
+  const outputs: string[] = [];
+
+  for (const message of messages) {
+    if (ToolMessage.isInstance(message) && message.name === SCAN_TOOL_NAME) {
+      outputs.push(messageContentToText(message.content));
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Counts violations by severity across pages
+ * @param findings Findings for one or more pages
+ * @returns Total and per-severity counts
+ */
+export function countFindings(findings: PageFindings[]): {
+  totalViolations: number;
+  violationsBySeverity: Record<ViolationSeverity, number>;
+} {
+  const violationsBySeverity: Record<ViolationSeverity, number> = {
+    critical: 0,
+    serious: 0,
+    moderate: 0,
+    minor: 0,
+  };
+
+  let totalViolations = 0;
+  for (const page of findings) {
+    for (const violation of page.violations) {
+      violationsBySeverity[violation.impact]++;
+      totalViolations++;
+    }
+  }
+
+  return { totalViolations, violationsBySeverity };
+}
+
+/**
+ * Converts axe-core tags (e.g. "wcag143") into success criteria ("1.4.3")
+ * Conformance level tags such as "wcag2aa" are ignored
+ * @param tags Rule tags
+ * @returns Unique WCAG criteria in tag order
+ */
+export function wcagCriteriaFromTags(tags: string[]): string[] {
+  const criteria: string[] = [];
+  for (const tag of tags) {
+    const match = tag.match(/^wcag(\d)(\d)(\d{1,2})$/i);
+    if (match) {
+      const criterion = `${match[1]}.${match[2]}.${match[3]}`;
+      if (!criteria.includes(criterion)) {
+        criteria.push(criterion);
+      }
+    }
+  }
+  return criteria;
+}
+
+function ruleToViolations(rule: RawRule, pageUrl: string): Violation[] {
+  const tags = Array.isArray(rule.tags)
+    ? rule.tags.filter((t): t is string => typeof t === "string")
+    : [];
+  const base = {
+    ruleId: rule.id as string,
+    description: asString(rule.help) || asString(rule.description),
+    wcagCriteria: wcagCriteriaFromTags(tags),
+    helpUrl: asString(rule.helpUrl) || undefined,
+    pageUrl,
+  };
+  const ruleImpact = toSeverity(rule.impact);
+
+  const nodes = Array.isArray(rule.nodes) ? (rule.nodes as RawNode[]) : [];
+  if (nodes.length === 0) {
+    return [{ ...base, impact: ruleImpact, selectors: [], html: "" }];
+  }
+
+  return nodes.map((node) => ({
+    ...base,
+    impact: node?.impact ? toSeverity(node.impact) : ruleImpact,
+    selectors: Array.isArray(node?.target)
+      ? node.target.map((t) => (Array.isArray(t) ? t.join(" ") : String(t)))
+      : [],
+    html: asString(node?.html),
+  }));
+}
+
+function toSeverity(value: unknown): ViolationSeverity {
+  const normalized = typeof value === "string" ? value.toLowerCase() : "";
+  return SEVERITIES.includes(normalized as ViolationSeverity)
+    ? (normalized as ViolationSeverity)
+    : "minor";
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function messageContentToText(content: ToolMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return content
+    .map((block) =>
+      typeof block === "object" && block && "text" in block
+        ? String(block.text)
+        : "",
+    )
+    .join("\n");
+}
+
+function extractJson(raw: string): unknown {
+  const candidates: string[] = [raw.trim()];
+
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) {
+    candidates.push(fenced[1]);
+  }
+
+  const objectStart = raw.indexOf("{");
+  const objectEnd = raw.lastIndexOf("}");
+  if (objectStart !== -1 && objectEnd > objectStart) {
+    candidates.push(raw.slice(objectStart, objectEnd + 1));
+  }
+
+  const arrayStart = raw.indexOf("[");
+  const arrayEnd = raw.lastIndexOf("]");
+  if (arrayStart !== -1 && arrayEnd > arrayStart) {
+    candidates.push(raw.slice(arrayStart, arrayEnd + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
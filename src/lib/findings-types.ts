@@ -0,0 +1,49 @@
+/**
+ * TypeScript interfaces for structured accessibility findings
+ * Produced directly from scan_page tool output instead of the agent's markdown
+ */
+
+import type { ViolationSeverity } from "./history-types";
+import type { WaiverRule } from "./types";
+
+/**
+ * A single failing element reported by the accessibility scanner
+ */
+export interface Violation {
+  /** Scanner rule identifier (e.g. "color-contrast") */
+  ruleId: string;
+  /** Short human-readable description of the rule */
+  description: string;
+  /** WCAG success criteria referenced by the rule (e.g. ["1.4.3"]) */
+  wcagCriteria: string[];
+  /** Severity reported by the scanner */
+  impact: ViolationSeverity;
+  /** CSS selector path to the element (one entry per frame/shadow root) */
+  selectors: string[];
+  /** Outer HTML snippet of the failing element */
+  html: string;
+  /** Link to remediation guidance for the rule */
+  helpUrl?: string;
+  /** URL of the page the element was found on */
+  pageUrl: string;
+}
+
+/**
+ * All violations found by one scan_page invocation
+ */
+export interface PageFindings {
+  /** URL of the scanned page */
+  pageUrl: string;
+  /** Individual violations, one per failing element */
+  violations: Violation[];
+  /** ISO 8601 timestamp when the findings were captured */
+  scannedAt: string;
+}
+
+/**
+ * A violation excluded from the counts by a waiver
+ */
+export interface WaivedViolation extends Violation {
+  /** The waiver that matched, without its matchers */
+  waiver: Pick<WaiverRule, "id" | "justification" | "owner" | "expires">;
+}
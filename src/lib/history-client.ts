@@ -0,0 +1,200 @@
+/**
+ * History client - Scan history for the UI: the shared server-side store when
+ * the server has HISTORY_DB_PATH configured, otherwise this browser's own
+ * storage (IndexedDB, or localStorage as a fallback) via ScanHistoryManager
+ */
+
+import type {
+  HistoryFilter,
+  NewScanRecord,
+  ScanHistory,
+  ScanRecord,
+  StorageQuota,
+  StorageResult,
+} from "@/lib/history-types";
+import { ScanHistoryManager } from "@/lib/scan-history-manager";
+
+let serverHistoryCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether the server keeps a shared history (checked once per page load)
+ */
+export function isServerHistoryEnabled(): Promise<boolean> {
+  if (!serverHistoryCheck) {
+    serverHistoryCheck = fetch("/api/history/status", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : { enabled: false }))
+      .then((status: { enabled?: boolean }) => status.enabled === true)
+      .catch(() => false);
+  }
+  return serverHistoryCheck;
+}
+
+async function requestHistory<T>(
+  path: string,
+  init?: RequestInit,
+): Promise<StorageResult<T>> {
+  try {
+    const response = await fetch(path, {
+      cache: "no-store",
+      ...init,
+      headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+    });
+
+    if (response.status === 204) {
+      return { success: true };
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return {
+        success: false,
+        error: body.error || `Request failed (${response.status})`,
+      };
+    }
+
+    return { success: true, data: body as T };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+function scanPath(id: string): string {
+  return `/api/history/${encodeURIComponent(id)}`;
+}
+
+function filterQuery(criteria: HistoryFilter, exact = false): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(criteria)) {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  if (exact) {
+    params.set("exact", "true");
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Retrieves all scan records, most recent first
+ */
+export async function getAllScans(): Promise<StorageResult<ScanRecord[]>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory("/api/history")
+    : ScanHistoryManager.getAll();
+}
+
+/**
+ * Retrieves a scan by ID
+ */
+export async function getScan(id: string): Promise<StorageResult<ScanRecord>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory(scanPath(id))
+    : ScanHistoryManager.getById(id);
+}
+
+/**
+ * Retrieves scans by URL (exact or partial match)
+ */
+export async function getScansByUrl(
+  url: string,
+  exactMatch = false,
+): Promise<StorageResult<ScanRecord[]>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory(`/api/history${filterQuery({ url }, exactMatch)}`)
+    : ScanHistoryManager.getByUrl(url, exactMatch);
+}
+
+/**
+ * Filters scans based on criteria
+ */
+export async function filterScans(
+  criteria: HistoryFilter,
+): Promise<StorageResult<ScanRecord[]>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory(`/api/history${filterQuery(criteria)}`)
+    : ScanHistoryManager.filter(criteria);
+}
+
+/**
+ * Saves a finished scan
+ */
+export async function saveScan(
+  input: NewScanRecord,
+): Promise<StorageResult<ScanRecord>> {
+  if (await isServerHistoryEnabled()) {
+    return requestHistory("/api/history", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  return ScanHistoryManager.add(input);
+}
+
+/**
+ * Deletes a scan by ID
+ */
+export async function deleteScan(id: string): Promise<StorageResult<void>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory(scanPath(id), { method: "DELETE" })
+    : ScanHistoryManager.delete(id);
+}
+
+/**
+ * Clears all scan history
+ */
+export async function clearScans(): Promise<StorageResult<void>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory("/api/history", { method: "DELETE" })
+    : ScanHistoryManager.clear();
+}
+
+/**
+ * Updates a scan's label
+ */
+export async function updateScanLabel(
+  id: string,
+  label: string,
+): Promise<StorageResult<ScanRecord>> {
+  return (await isServerHistoryEnabled())
+    ? requestHistory(scanPath(id), {
+        method: "PATCH",
+        body: JSON.stringify({ label }),
+      })
+    : ScanHistoryManager.updateLabel(id, label);
+}
+
+/**
+ * Exports history as JSON in the ScanHistoryManager export format
+ */
+export async function exportHistoryJson(): Promise<StorageResult<string>> {
+  if (!(await isServerHistoryEnabled())) {
+    return ScanHistoryManager.exportAsJson();
+  }
+
+  const result = await getAllScans();
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  const history: ScanHistory = {
+    version: 1,
+    scans: result.data,
+    lastModified: new Date().toISOString(),
+  };
+  return { success: true, data: JSON.stringify(history, null, 2) };
+}
+
+/**
+ * Browser storage usage, or null when history lives on the server
+ */
+export async function getHistoryQuota(): Promise<StorageQuota | null> {
+  return (await isServerHistoryEnabled())
+    ? null
+    : ScanHistoryManager.getQuota();
+}
@@ -0,0 +1,362 @@
+/**
+ * History storage - Browser backends that ScanHistoryManager persists scan
+ * history to (IndexedDB when available, localStorage otherwise)
+ */
+
+import type { ScanHistory, ScanRecord } from "./history-types";
+
+/** Current history schema version */
+export const HISTORY_SCHEMA_VERSION = 1;
+
+/**
+ * Where ScanHistoryManager keeps scan history
+ */
+export interface HistoryStorageBackend {
+  readonly name: "indexedDB" | "localStorage" | "memory";
+  /** Size budget in bytes used for quota warnings and pruning */
+  readonly limitBytes: number;
+  /** Maximum number of scans to keep (LRU eviction) */
+  readonly maxScans: number;
+  /** Returns the stored history, or null when nothing is stored */
+  read(): Promise<ScanHistory | null>;
+  /** Replaces the stored history; rejects with QuotaExceededError when full */
+  write(history: ScanHistory): Promise<void>;
+  /** Adds a scan, or replaces the stored scan with the same id */
+  put(scan: ScanRecord): Promise<void>;
+  /** Deletes one scan; unknown ids are ignored */
+  delete(id: string): Promise<void>;
+  /** Deletes the stored history */
+  remove(): Promise<void>;
+}
+
+/** localStorage key for scan history */
+export const LOCAL_STORAGE_KEY = "accessibility_scan_history";
+
+const DB_NAME = "accessibility_scanner";
+const DB_VERSION = 2;
+const SCANS_STORE = "scans";
+const TIMESTAMP_INDEX = "timestamp";
+/** Version 1 kept the whole history as one record in this store */
+const LEGACY_STORE = "history";
+const LEGACY_RECORD_KEY = "scan_history";
+
+function emptyHistory(): ScanHistory {
+  return {
+    version: HISTORY_SCHEMA_VERSION,
+    scans: [],
+    lastModified: new Date().toISOString(),
+  };
+}
+
+/**
+ * Puts a scan into a history document: replaced in place when its id is
+ * already there, otherwise added as the most recent
+ */
+function putScan(history: ScanHistory, scan: ScanRecord): ScanHistory {
+  const index = history.scans.findIndex((s) => s.id === scan.id);
+  const scans =
+    index === -1
+      ? [scan, ...history.scans]
+      : history.scans.map((s, i) => (i === index ? scan : s));
+  return { ...history, scans, lastModified: new Date().toISOString() };
+}
+
+function deleteScan(history: ScanHistory, id: string): ScanHistory {
+  return {
+    ...history,
+    scans: history.scans.filter((s) => s.id !== id),
+    lastModified: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stores the history as one JSON string in localStorage (~5MB per origin)
+ */
+export class LocalStorageHistoryBackend implements HistoryStorageBackend {
+  readonly name = "localStorage";
+  readonly limitBytes = 5 * 1024 * 1024;
+  readonly maxScans = 50;
+
+  /**
+   * Checks if localStorage is available and functional
+   */
+  static isAvailable(): boolean {
+    try {
+      const testKey = "__storage_test__";
+      localStorage.setItem(testKey, "test");
+      localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(): Promise<ScanHistory | null> {
+    const data = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return data ? (JSON.parse(data) as ScanHistory) : null;
+  }
+
+  async write(history: ScanHistory): Promise<void> {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(history));
+  }
+
+  // localStorage only holds strings, so single-scan changes rewrite the
+  // whole document
+  async put(scan: ScanRecord): Promise<void> {
+    await this.write(putScan((await this.read()) ?? emptyHistory(), scan));
+  }
+
+  async delete(id: string): Promise<void> {
+    const history = await this.read();
+    if (history) {
+      await this.write(deleteScan(history, id));
+    }
+  }
+
+  async remove(): Promise<void> {
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Moves a version 1 history document into the per-scan store, then drops the
+ * old store. Runs inside the upgrade transaction
+ */
+function upgradeFromLegacyStore(request: IDBOpenDBRequest): void {
+  const db = request.result;
+  const transaction = request.transaction;
+  if (!transaction || !db.objectStoreNames.contains(LEGACY_STORE)) {
+    return;
+  }
+
+  const legacy = transaction.objectStore(LEGACY_STORE);
+  const scans = transaction.objectStore(SCANS_STORE);
+  const get = legacy.get(LEGACY_RECORD_KEY);
+  get.onsuccess = () => {
+    const history = get.result as ScanHistory | undefined;
+    for (const scan of history?.scans ?? []) {
+      scans.put(scan);
+    }
+    db.deleteObjectStore(LEGACY_STORE);
+  };
+}
+
+/**
+ * Stores each scan as its own structured-clone record in IndexedDB, keyed by
+ * id with an index on timestamp, so saving or deleting a scan only touches
+ * that record. IndexedDB allows far more data per origin than localStorage
+ */
+export class IndexedDbHistoryBackend implements HistoryStorageBackend {
+  readonly name = "indexedDB";
+  readonly limitBytes = 200 * 1024 * 1024;
+  readonly maxScans = 1000;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCANS_STORE)) {
+          db.createObjectStore(SCANS_STORE, { keyPath: "id" }).createIndex(
+            TIMESTAMP_INDEX,
+            "timestamp",
+          );
+        }
+        upgradeFromLegacyStore(request);
+      };
+      this.dbPromise = promisifyRequest(request);
+      // Let a later call retry (e.g. after the user allows storage)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transact<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(SCANS_STORE, mode);
+
+    // Writes are only durable (and quota errors only surface) on complete
+    const [result] = await Promise.all([
+      promisifyRequest(operation(transaction.objectStore(SCANS_STORE))),
+      new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      }),
+    ]);
+
+    return result;
+  }
+
+  async read(): Promise<ScanHistory | null> {
+    const scans = await this.transact<ScanRecord[]>("readonly", (store) =>
+      store.index(TIMESTAMP_INDEX).getAll(),
+    );
+    if (scans.length === 0) {
+      return null;
+    }
+
+    // Most recent first, like the history document
+    scans.reverse();
+    return {
+      version: HISTORY_SCHEMA_VERSION,
+      scans,
+      lastModified: scans[0].timestamp,
+    };
+  }
+
+  async write(history: ScanHistory): Promise<void> {
+    // One transaction: the puts complete (or abort) together with the clear
+    await this.transact("readwrite", (store) => {
+      const cleared = store.clear();
+      for (const scan of history.scans) {
+        store.put(scan);
+      }
+      return cleared;
+    });
+  }
+
+  async put(scan: ScanRecord): Promise<void> {
+    await this.transact("readwrite", (store) => store.put(scan));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.transact("readwrite", (store) => store.delete(id));
+  }
+
+  async remove(): Promise<void> {
+    await this.transact("readwrite", (store) => store.clear());
+  }
+}
+
+/**
+ * Keeps the history in memory only (server rendering, private browsing with
+ * storage disabled, and tests)
+ */
+export class MemoryHistoryBackend implements HistoryStorageBackend {
+  readonly name = "memory";
+  readonly limitBytes: number;
+  readonly maxScans: number;
+
+  private history: ScanHistory | null = null;
+
+  constructor(limitBytes = 5 * 1024 * 1024, maxScans = 50) {
+    this.limitBytes = limitBytes;
+    this.maxScans = maxScans;
+  }
+
+  async read(): Promise<ScanHistory | null> {
+    return this.history ? structuredClone(this.history) : null;
+  }
+
+  async write(history: ScanHistory): Promise<void> {
+    this.history = structuredClone(history);
+  }
+
+  async put(scan: ScanRecord): Promise<void> {
+    this.history = putScan(
+      this.history ?? emptyHistory(),
+      structuredClone(scan),
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.history) {
+      this.history = deleteScan(this.history, id);
+    }
+  }
+
+  async remove(): Promise<void> {
+    this.history = null;
+  }
+}
+
+/**
+ * Moves history from one backend to another when the target is still empty,
+ * then removes it from the source
+ * @param source Backend the history used to live in
+ * @param target Backend that takes over
+ * @returns Number of scans migrated
+ */
+export async function migrateHistory(
+  source: HistoryStorageBackend,
+  target: HistoryStorageBackend,
+): Promise<number> {
+  const existing = await target.read();
+  if (existing && existing.scans.length > 0) {
+    return 0;
+  }
+
+  const history = await source.read();
+  if (!history || !Array.isArray(history.scans)) {
+    return 0;
+  }
+
+  await target.write(history);
+  await source.remove();
+  return history.scans.length;
+}
+
+/**
+ * Picks the best available backend, moving any localStorage history into
+ * IndexedDB on first use
+ */
+export async function createDefaultHistoryBackend(): Promise<HistoryStorageBackend> {
+  const hasLocalStorage = LocalStorageHistoryBackend.isAvailable();
+
+  if (IndexedDbHistoryBackend.isAvailable()) {
+    const indexedDb = new IndexedDbHistoryBackend();
+    let usable = false;
+    try {
+      await indexedDb.read();
+      usable = true;
+    } catch (error) {
+      // Some browsers block IndexedDB (e.g. Firefox private windows)
+      console.warn("[ScanHistory] IndexedDB unavailable:", error);
+    }
+
+    if (usable) {
+      if (hasLocalStorage) {
+        try {
+          const migrated = await migrateHistory(
+            new LocalStorageHistoryBackend(),
+            indexedDb,
+          );
+          if (migrated > 0) {
+            console.info(
+              `[ScanHistory] Migrated ${migrated} scans from localStorage to IndexedDB`,
+            );
+          }
+        } catch (error) {
+          console.error("[ScanHistory] Failed to migrate localStorage:", error);
+        }
+      }
+      return indexedDb;
+    }
+  }
+
+  if (hasLocalStorage) {
+    return new LocalStorageHistoryBackend();
+  }
+
+  console.warn("[ScanHistory] No persistent storage available");
+  return new MemoryHistoryBackend();
+}
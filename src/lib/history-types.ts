@@ -1,15 +1,22 @@
 /**
  * TypeScript interfaces for scan history and comparison features
- * Supports localStorage-based persistence with versioning
+ * Supports browser-storage persistence with versioning
  */
 
+import type {
+  PageFindings,
+  Violation,
+  WaivedViolation,
+} from "./findings-types";
+import type { ScanMode, ScanUsage } from "./types";
+
 /**
  * Severity levels for accessibility violations
  */
 export type ViolationSeverity = "critical" | "serious" | "moderate" | "minor";
 
 /**
- * Metadata extracted from markdown scan reports
+ * Metadata extracted from structured findings or markdown scan reports
  */
 export interface ScanMetadata {
   /** Total number of violations across all severities */
@@ -21,12 +28,16 @@ export interface ScanMetadata {
     moderate: number;
     minor: number;
   };
-  /** Number of pages scanned (1 for single mode, multiple for exploration) */
+  /** Number of pages scanned (1 for single mode, multiple otherwise) */
   pageCount: number;
   /** WCAG compliance level achieved */
   wcagLevel?: "A" | "AA" | "AAA" | "none";
   /** Duration of the scan in milliseconds */
   scanDuration?: number;
+  /** LLM tokens used and estimated cost (absent for older records) */
+  usage?: ScanUsage;
+  /** Violations excluded from the counts above by a waiver */
+  waivedViolations?: number;
 }
 
 /**
@@ -38,7 +49,7 @@ export interface ScanRecord {
   /** URL that was scanned */
   url: string;
   /** Scan mode used */
-  mode: "single" | "exploration";
+  mode: ScanMode;
   /** ISO 8601 timestamp when scan was performed */
   timestamp: string;
   /** Full markdown report from the scan */
@@ -49,6 +60,64 @@ export interface ScanRecord {
   label?: string;
   /** List of discovered URLs (for exploration mode) */
   discoveredUrls?: string[];
+  /** Structured findings per scanned page (absent for older records) */
+  findings?: PageFindings[];
+  /** Per-page reports for multi-page scans */
+  pageResults?: PageResultRecord[];
+  /** Findings per checkpoint (journey scans) */
+  checkpoints?: JourneyCheckpointRecord[];
+  /** Violations matched by a waiver (not in findings or metadata counts) */
+  waived?: WaivedViolation[];
+}
+
+/**
+ * Fields supplied when saving a scan; id, timestamp and metadata are derived
+ * (usage is copied into the metadata)
+ */
+export type NewScanRecord = Pick<
+  ScanRecord,
+  | "url"
+  | "mode"
+  | "report"
+  | "label"
+  | "discoveredUrls"
+  | "findings"
+  | "pageResults"
+  | "checkpoints"
+  | "waived"
+> & { usage?: ScanUsage };
+
+/**
+ * Outcome of scanning one page within a multi-page scan
+ */
+export interface PageResultRecord {
+  /** Page URL */
+  url: string;
+  /** Violations found on the page */
+  violations: number;
+  /** Markdown report from the page scanner agent */
+  report: string;
+  /** ISO 8601 timestamp when the page was scanned */
+  timestamp: string;
+  /** Set when the page could not be scanned */
+  status?: "failed" | "timed_out";
+  error?: string;
+}
+
+/**
+ * Outcome of one scan checkpoint within a journey scan
+ */
+export interface JourneyCheckpointRecord {
+  /** Checkpoint name from the journey's scan step */
+  name: string;
+  /** Page the checkpoint was scanned on */
+  url: string;
+  /** Violations found at the checkpoint */
+  violations: number;
+  /** Structured findings from the checkpoint's scan_page call */
+  findings?: PageFindings;
+  /** Set when the journey stopped before reaching the checkpoint */
+  status?: "not_reached";
 }
 
 /**
@@ -63,6 +132,18 @@ export interface ScanHistory {
   lastModified: string;
 }
 
+/**
+ * Concrete issues matched between two scans by fingerprint
+ */
+export interface IssueDiff {
+  /** Issues present in the baseline but not in the current scan */
+  fixed: Violation[];
+  /** Issues present in the current scan but not in the baseline */
+  introduced: Violation[];
+  /** Issues present in both scans (current scan's version) */
+  persisting: Violation[];
+}
+
 /**
  * Comparison result between two scans
  */
@@ -94,8 +175,12 @@ export interface ScanComparison {
       fixed: number;
       new: number;
       unchanged: number;
+      /** Issue-level diff for this severity (when both scans have findings) */
+      issues?: IssueDiff;
     };
   };
+  /** Issue-level diff (when both scans have structured findings) */
+  issues?: IssueDiff;
   /** Timestamp when comparison was performed */
   comparedAt: string;
 }
@@ -107,7 +192,7 @@ export interface HistoryFilter {
   /** Filter by URL (partial match) */
   url?: string;
   /** Filter by scan mode */
-  mode?: "single" | "exploration";
+  mode?: ScanMode;
   /** Filter by date range (ISO 8601) */
   dateFrom?: string;
   dateTo?: string;
@@ -2,7 +2,17 @@
  * Utility functions for scan history management
  */
 
-import type { ScanMetadata, ViolationSeverity } from "./history-types";
+import { countFindings } from "./findings-parser";
+import type { PageFindings, Violation } from "./findings-types";
+import type {
+  NewScanRecord,
+  PageResultRecord,
+  ScanMetadata,
+  ScanRecord,
+  ViolationSeverity,
+} from "./history-types";
+import type { PageScanResult } from "./multi-agent-types";
+import type { ScanMode } from "./types";
 
 /**
  * Generates a unique identifier using UUID v4 algorithm
@@ -20,7 +30,7 @@ export function generateScanId(): string {
  */
 export function parseReportMetadata(
   report: string,
-  mode: "single" | "exploration",
+  mode: ScanMode,
 ): ScanMetadata {
   const metadata: ScanMetadata = {
     totalViolations: 0,
@@ -113,9 +123,7 @@ export function parseReportMetadata(
       minor: /##\s*🔵\s*Minor\s*Issues?([\s\S]*?)(?=##|$)/i,
     };
 
-    for (const [severity, sectionPattern] of Object.entries(
-      severitySections,
-    )) {
+    for (const [severity, sectionPattern] of Object.entries(severitySections)) {
       const match = report.match(sectionPattern);
       if (match?.[1]) {
         const content = match[1];
@@ -130,15 +138,16 @@ export function parseReportMetadata(
   }
 
   // Calculate total violations from severity breakdown
-  const calculatedTotal = Object.values(
-    metadata.violationsBySeverity,
-  ).reduce((sum, count) => sum + count, 0);
+  const calculatedTotal = Object.values(metadata.violationsBySeverity).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
 
   // Use the explicitly stated total if available and greater, otherwise use calculated
   metadata.totalViolations = Math.max(totalFromReport, calculatedTotal);
 
-  // Try to extract page count for exploration mode
-  if (mode === "exploration") {
+  // Try to extract page count for multi-page modes
+  if (mode !== "single") {
     const pagePatterns = [
       /scanned\s+(\d+)\s+pages?/i,
       /(\d+)\s+pages?\s+scanned/i,
@@ -175,6 +184,148 @@ export function parseReportMetadata(
   return metadata;
 }
 
+/**
+ * Builds scan metadata from structured findings
+ * Violation counts come from the findings; the WCAG level is still read from
+ * the report because the scanner does not assess conformance
+ * @param findings Structured findings per scanned page
+ * @param report Markdown-formatted scan report
+ * @param mode Scan mode used
+ * @returns Metadata with deterministic violation counts
+ */
+export function buildMetadataFromFindings(
+  findings: PageFindings[],
+  report: string,
+  mode: ScanMode,
+): ScanMetadata {
+  const { totalViolations, violationsBySeverity } = countFindings(findings);
+  const reportMetadata = parseReportMetadata(report, mode);
+
+  return {
+    totalViolations,
+    violationsBySeverity,
+    pageCount: mode === "single" ? 1 : findings.length,
+    wcagLevel: reportMetadata.wcagLevel,
+  };
+}
+
+/**
+ * Whether structured findings can stand in for the report: there are some
+ * and, for multi-page scans, every scanned page returned scan_page output
+ * (partial findings would undercount the scan)
+ */
+function hasCompleteFindings(
+  findings: PageFindings[],
+  scannedPages?: number,
+): boolean {
+  return (
+    findings.length > 0 &&
+    (scannedPages === undefined || findings.length === scannedPages)
+  );
+}
+
+/**
+ * Builds scan metadata from structured findings when they cover the scan,
+ * and from the report otherwise
+ * @param findings Structured findings per scanned page
+ * @param report Markdown-formatted scan report
+ * @param mode Scan mode used
+ * @param scannedPages Pages scanned successfully, for multi-page scans
+ * @returns Metadata the scan response and its history record both use
+ */
+export function resolveScanMetadata(
+  findings: PageFindings[],
+  report: string,
+  mode: ScanMode,
+  scannedPages?: number,
+): ScanMetadata {
+  return hasCompleteFindings(findings, scannedPages)
+    ? buildMetadataFromFindings(findings, report, mode)
+    : parseReportMetadata(report, mode);
+}
+
+/**
+ * Takes waived violations out of counts parsed from a report, which still
+ * includes them
+ */
+function withoutWaived(
+  metadata: ScanMetadata,
+  waived: Violation[],
+): ScanMetadata {
+  const violationsBySeverity = { ...metadata.violationsBySeverity };
+  for (const violation of waived) {
+    violationsBySeverity[violation.impact] = Math.max(
+      0,
+      violationsBySeverity[violation.impact] - 1,
+    );
+  }
+
+  return {
+    ...metadata,
+    totalViolations: Math.max(0, metadata.totalViolations - waived.length),
+    violationsBySeverity,
+  };
+}
+
+/**
+ * Builds a history record for a finished scan. Metadata follows the same
+ * rule as the scan response (see resolveScanMetadata), so the saved totals
+ * match what the scan reported
+ * @param input Scan report and results to store
+ * @returns Record with a new id and the current timestamp
+ */
+export function createScanRecord(input: NewScanRecord): ScanRecord {
+  const { report, mode, usage, waived = [] } = input;
+  const findings = input.findings ?? [];
+  const scannedPages = input.pageResults?.filter((page) => !page.status).length;
+  // Findings are stored with waived violations already taken out
+  const parsed = hasCompleteFindings(findings, scannedPages)
+    ? buildMetadataFromFindings(findings, report, mode)
+    : withoutWaived(parseReportMetadata(report, mode), waived);
+  const metadata =
+    waived.length > 0 ? { ...parsed, waivedViolations: waived.length } : parsed;
+
+  return {
+    id: generateScanId(),
+    url: input.url,
+    mode,
+    timestamp: new Date().toISOString(),
+    report,
+    metadata: usage ? { ...metadata, usage } : metadata,
+    label: input.label,
+    discoveredUrls: input.discoveredUrls,
+    findings: input.findings,
+    pageResults: input.pageResults,
+    checkpoints: input.checkpoints,
+    waived: input.waived,
+  };
+}
+
+/**
+ * Converts orchestrator page results into the per-page records kept in history
+ * @param results Page scan results
+ * @returns Page records without the structured findings (stored separately)
+ */
+export function toPageResultRecords(
+  results: PageScanResult[],
+): PageResultRecord[] {
+  return results.map((result) => {
+    const record: PageResultRecord = {
+      url: result.url,
+      violations: result.violations,
+      report: result.scanData,
+      timestamp: result.timestamp,
+    };
+
+    if (result.status === "failed" || result.status === "timed_out") {
+      record.status = result.status;
+      record.error = result.error;
+    }
+
+    return record;
+  });
+}
+
 /**
  * Formats a date as a human-readable relative time
  * @param isoString ISO 8601 timestamp
@@ -266,6 +417,33 @@ export function formatDuration(ms: number): string {
   return `${remainingSeconds}s`;
 }
 
+/**
+ * Formats an estimated LLM cost in USD
+ * @param costUsd Cost in US dollars
+ * @returns Formatted string (e.g., "$0.0123", "$1.50", "<$0.0001")
+ */
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.0001) {
+    return "<$0.0001";
+  }
+  return `$${costUsd.toFixed(costUsd >= 1 ? 2 : 4)}`;
+}
+
+/**
+ * Formats a token count compactly
+ * @param tokens Number of tokens
+ * @returns Formatted string (e.g., "850", "12.3k", "1.2M")
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
 /**
  * Truncates a URL for display
  * @param url Full URL
@@ -299,7 +477,7 @@ export function truncateUrl(url: string, maxLength = 50): string {
 }
 
 /**
- * Estimates the size of an object in bytes (for localStorage quota management)
+ * Estimates the size of an object in bytes (for browser storage quota management)
  * @param obj Object to measure
  * @returns Estimated size in bytes
  */
@@ -0,0 +1,257 @@
+/**
+ * Journeys - Ordered interaction steps (navigate, click, fill, wait) with
+ * scan checkpoints, for states a single-URL scan never reaches such as open
+ * dialogs, form errors and checkout steps
+ */
+
+import { isIntegerInRange } from "@/lib/crawl-utils";
+import { parseScanPageOutput } from "@/lib/findings-parser";
+import type { JourneyCheckpointRecord } from "@/lib/history-types";
+import type { JourneyStep, ScanJourney } from "@/lib/types";
+
+/** Maximum number of steps accepted per journey */
+export const MAX_JOURNEY_STEPS = 30;
+
+/** Longest fixed wait a step may ask for */
+const MAX_WAIT_SECONDS = 30;
+
+const SEVERITY_ICONS = {
+  critical: "🔴",
+  serious: "🟠",
+  moderate: "🟡",
+  minor: "🔵",
+} as const;
+
+/** A scan step and the page it runs on */
+export interface JourneyCheckpoint {
+  name: string;
+  url: string;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function validateStep(step: unknown, index: number): string | null {
+  const field = `journey.steps[${index}]`;
+
+  if (typeof step !== "object" || step === null) {
+    return `${field} must be an object`;
+  }
+
+  const { action, url, target, value, text, seconds, name } = step as Record<
+    string,
+    unknown
+  >;
+
+  switch (action) {
+    case "navigate":
+      return typeof url === "string" && URL.canParse(url)
+        ? null
+        : `${field}.url must be a valid URL`;
+    case "click":
+    case "fill":
+      if (!isNonEmptyString(target)) {
+        return `${field}.target must be a non-empty string`;
+      }
+      return action === "fill" && typeof value !== "string"
+        ? `${field}.value must be a string`
+        : null;
+    case "wait":
+      if (text === undefined && seconds === undefined) {
+        return `${field} needs 'text' or 'seconds'`;
+      }
+      if (text !== undefined && !isNonEmptyString(text)) {
+        return `${field}.text must be a non-empty string`;
+      }
+      return seconds !== undefined &&
+        !isIntegerInRange(seconds, 1, MAX_WAIT_SECONDS)
+        ? `${field}.seconds must be an integer between 1 and ${MAX_WAIT_SECONDS}`
+        : null;
+    case "scan":
+      return isNonEmptyString(name)
+        ? null
+        : `${field}.name must be a non-empty string`;
+    default:
+      return `${field}.action must be 'navigate', 'click', 'fill', 'wait' or 'scan'`;
+  }
+}
+
+/**
+ * Validates a journey definition
+ * @param journey Untrusted journey option
+ * @returns Error message, or null when the journey can run
+ */
+export function validateJourney(journey: unknown): string | null {
+  if (typeof journey !== "object" || journey === null) {
+    return "Journey mode requires a 'journey' with steps";
+  }
+
+  const { name, steps } = journey as Partial<ScanJourney>;
+
+  if (name !== undefined && typeof name !== "string") {
+    return "journey.name must be a string";
+  }
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return "journey.steps must be a non-empty array";
+  }
+
+  if (steps.length > MAX_JOURNEY_STEPS) {
+    return `journey.steps accepts at most ${MAX_JOURNEY_STEPS} steps`;
+  }
+
+  const names = new Set<string>();
+  for (const [index, step] of steps.entries()) {
+    const error = validateStep(step, index);
+    if (error) {
+      return error;
+    }
+
+    if (step.action === "scan") {
+      if (names.has(step.name)) {
+        return `Duplicate checkpoint name: ${step.name}`;
+      }
+      names.add(step.name);
+    }
+  }
+
+  return names.size > 0 ? null : "journey.steps needs at least one 'scan' step";
+}
+
+/**
+ * Lists a journey's checkpoints with the page each one is expected on (the
+ * last navigate step before it, or the start URL)
+ * @param startUrl URL the journey opens first
+ * @param journey Validated journey
+ */
+export function getJourneyCheckpoints(
+  startUrl: string,
+  journey: ScanJourney,
+): JourneyCheckpoint[] {
+  const checkpoints: JourneyCheckpoint[] = [];
+  let url = startUrl;
+
+  for (const step of journey.steps) {
+    if (step.action === "navigate") {
+      url = step.url;
+    } else if (step.action === "scan") {
+      checkpoints.push({ name: step.name, url });
+    }
+  }
+
+  return checkpoints;
+}
+
+function describeStep(step: JourneyStep): string {
+  switch (step.action) {
+    case "navigate":
+      return `Navigate to ${step.url}`;
+    case "click":
+      return `Click ${step.target}`;
+    case "fill":
+      return `Fill ${step.target} with ${JSON.stringify(step.value)}`;
+    case "wait":
+      return step.text
+        ? `Wait for the text ${JSON.stringify(step.text)} to appear`
+        : `Wait ${step.seconds} seconds`;
+    case "scan":
+      return `CHECKPOINT "${step.name}": run scan_page once`;
+  }
+}
+
+/**
+ * Numbers a journey's steps for the journey agent's task prompt
+ * @param startUrl URL the journey opens first
+ * @param journey Validated journey
+ */
+export function formatJourneySteps(
+  startUrl: string,
+  journey: ScanJourney,
+): string {
+  return [`Navigate to ${startUrl}`, ...journey.steps.map(describeStep)]
+    .map((step, index) => `${index + 1}. ${step}`)
+    .join("\n");
+}
+
+/**
+ * Matches the journey agent's scan_page calls to checkpoints in order;
+ * checkpoints after the last call were not reached
+ * @param outputs scan_page output text in call order
+ * @param checkpoints Checkpoints from getJourneyCheckpoints
+ */
+export function collectCheckpointResults(
+  outputs: string[],
+  checkpoints: JourneyCheckpoint[],
+): JourneyCheckpointRecord[] {
+  if (outputs.length > checkpoints.length) {
+    console.warn(
+      `Journey agent ran scan_page ${outputs.length} times for ${checkpoints.length} checkpoints; ignoring the extra scans`,
+    );
+  }
+
+  return checkpoints.map((checkpoint, index) => {
+    const output = outputs[index];
+    if (output === undefined) {
+      return { ...checkpoint, violations: 0, status: "not_reached" };
+    }
+
+    const findings = parseScanPageOutput(output, checkpoint.url) ?? undefined;
+    return {
+      name: checkpoint.name,
+      url: findings?.pageUrl ?? checkpoint.url,
+      violations: findings?.violations.length ?? 0,
+      findings,
+    };
+  });
+}
+
+/**
+ * Renders the per-checkpoint findings section appended to a journey report
+ * @param checkpoints Checkpoint results
+ * @returns Markdown section
+ */
+export function formatCheckpointSection(
+  checkpoints: JourneyCheckpointRecord[],
+): string {
+  const rows = checkpoints.map(
+    (checkpoint, index) =>
+      `| ${index + 1} | ${checkpoint.name.replaceAll("|", "\\|")} | ${checkpoint.url} | ${
+        checkpoint.status === "not_reached"
+          ? "Not reached"
+          : checkpoint.violations
+      } |`,
+  );
+
+  const sections = checkpoints.map((checkpoint, index) => {
+    const heading = `### ${index + 1}. ${checkpoint.name}\n\n**Page:** ${checkpoint.url}`;
+
+    if (checkpoint.status === "not_reached") {
+      return `${heading}\n\n_Not reached: the journey stopped before this checkpoint._`;
+    }
+
+    const violations = checkpoint.findings?.violations ?? [];
+    if (violations.length === 0) {
+      return `${heading}\n\n_No violations found._`;
+    }
+
+    const items = violations.map((violation) => {
+      const criteria = violation.wcagCriteria.length
+        ? ` (WCAG ${violation.wcagCriteria.join(", ")})`
+        : "";
+      const selector = violation.selectors.length
+        ? ` - \`${violation.selectors.join(", ")}\``
+        : "";
+      return `- ${SEVERITY_ICONS[violation.impact]} **${violation.ruleId}**${criteria}: ${violation.description}${selector}`;
+    });
+
+    return `${heading}\n\n${items.join("\n")}`;
+  });
+
+  return [
+    "## Journey Checkpoints",
+    "| # | Checkpoint | Page | Violations |\n|---|---|---|---|\n" +
+      rows.join("\n"),
+    ...sections,
+  ].join("\n\n");
+}
@@ -0,0 +1,221 @@
+/**
+ * JUnit Exporter - Converts scan findings into JUnit XML so CI dashboards
+ * can show pages as test suites and gate pipelines on violations
+ */
+
+import { type ExportSource, toExportScan } from "./export-source";
+import type { Violation } from "./findings-types";
+import type { ViolationSeverity } from "./history-types";
+import { evaluateBaseline, type ScanBaseline } from "./scan-baseline";
+
+/** Every violation fails unless a higher threshold is given */
+export const JUNIT_DEFAULT_FAIL_ON: ViolationSeverity = "minor";
+
+const SEVERITY_RANK: Record<ViolationSeverity, number> = {
+  minor: 0,
+  moderate: 1,
+  serious: 2,
+  critical: 3,
+};
+
+export function isViolationSeverity(value: string): value is ViolationSeverity {
+  return Object.hasOwn(SEVERITY_RANK, value);
+}
+
+export interface JUnitOptions {
+  /** Least severe impact that counts as a failing testcase */
+  failOn?: ViolationSeverity;
+  /** Known violations, which pass instead of failing */
+  baseline?: ScanBaseline;
+}
+
+export interface JUnitSummary {
+  tests: number;
+  failures: number;
+  /** Pages that could not be scanned */
+  errors: number;
+}
+
+/**
+ * Whether a violation fails its testcase at the given threshold
+ * @param violation Violation to check
+ * @param failOn Least severe impact that fails
+ */
+export function isFailingViolation(
+  violation: Violation,
+  failOn: ViolationSeverity = JUNIT_DEFAULT_FAIL_ON,
+): boolean {
+  return SEVERITY_RANK[violation.impact] >= SEVERITY_RANK[failOn];
+}
+
+function knownViolations(
+  source: ExportSource,
+  baseline?: ScanBaseline,
+): Set<Violation> {
+  return new Set(baseline ? evaluateBaseline(baseline, source).suppressed : []);
+}
+
+/**
+ * Counts the testcases a JUnit export of the scan would contain, so callers
+ * can gate on failures without parsing the XML
+ * @param source History record or multi-agent scan result
+ * @param options Severity threshold and baseline
+ */
+export function summarizeJUnit(
+  source: ExportSource,
+  options: JUnitOptions = {},
+): JUnitSummary {
+  const scan = toExportScan(source);
+  const violations = scan.findings.flatMap((page) => page.violations);
+  const known = knownViolations(source, options.baseline);
+
+  return {
+    tests:
+      scan.failedPages.length +
+      scan.findings.reduce(
+        (total, page) => total + Math.max(page.violations.length, 1),
+        0,
+      ),
+    failures: violations.filter(
+      (violation) =>
+        !known.has(violation) && isFailingViolation(violation, options.failOn),
+    ).length,
+    errors: scan.failedPages.length,
+  };
+}
+
+/** XML 1.0 allows no control characters but tab, newline and carriage return */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlChar)
+    .join("")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(" ");
+}
+
+function violationDetails(violation: Violation): string {
+  return [
+    `Impact: ${violation.impact}`,
+    `WCAG: ${violation.wcagCriteria.join(", ") || "n/a"}`,
+    `Selector: ${violation.selectors.join(" >>> ") || "n/a"}`,
+    violation.html ? `HTML: ${violation.html}` : null,
+    violation.helpUrl ? `Help: ${violation.helpUrl}` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+function violationTestcase(
+  violation: Violation,
+  failOn: ViolationSeverity,
+  known: boolean,
+): string {
+  const testcase = attributes({
+    classname: violation.pageUrl,
+    name: `${violation.ruleId}: ${violation.selectors.join(" >>> ") || violation.description}`,
+  });
+  const details = escapeXml(violationDetails(violation));
+
+  if (known || !isFailingViolation(violation, failOn)) {
+    return [
+      `    <testcase ${testcase}>`,
+      `      <system-out>${known ? "Known issue (in baseline)\n" : ""}${details}</system-out>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+
+  return [
+    `    <testcase ${testcase}>`,
+    `      <failure ${attributes({ message: violation.description, type: violation.impact })}>${details}</failure>`,
+    "    </testcase>",
+  ].join("\n");
+}
+
+/**
+ * Converts a scan into JUnit XML: a testsuite per scanned page, a testcase
+ * per violation (failing at or above `failOn` unless the baseline lists it,
+ * passing otherwise) and an erroring testsuite per page that could not be
+ * scanned
+ * @param source History record or multi-agent scan result
+ * @param options Severity threshold and baseline
+ * @returns JUnit XML document
+ */
+export function toJUnitXml(
+  source: ExportSource,
+  options: JUnitOptions = {},
+): string {
+  const scan = toExportScan(source);
+  const failOn = options.failOn ?? JUNIT_DEFAULT_FAIL_ON;
+  const summary = summarizeJUnit(source, { ...options, failOn });
+  const known = knownViolations(source, options.baseline);
+  const suites: string[] = [];
+
+  for (const page of scan.findings) {
+    const failures = page.violations.filter(
+      (violation) =>
+        !known.has(violation) && isFailingViolation(violation, failOn),
+    ).length;
+    const testcases =
+      page.violations.length > 0
+        ? page.violations.map((violation) =>
+            violationTestcase(violation, failOn, known.has(violation)),
+          )
+        : [
+            `    <testcase ${attributes({ classname: page.pageUrl, name: "No accessibility violations" })}/>`,
+          ];
+
+    suites.push(
+      [
+        `  <testsuite ${attributes({
+          name: page.pageUrl,
+          tests: testcases.length,
+          failures,
+          errors: 0,
+          timestamp: page.scannedAt,
+        })}>`,
+        ...testcases,
+        "  </testsuite>",
+      ].join("\n"),
+    );
+  }
+
+  for (const page of scan.failedPages) {
+    suites.push(
+      [
+        `  <testsuite ${attributes({ name: page.url, tests: 1, failures: 0, errors: 1 })}>`,
+        `    <testcase ${attributes({ classname: page.url, name: "Page scan" })}>`,
+        `      <error ${attributes({ message: page.error })}/>`,
+        "    </testcase>",
+        "  </testsuite>",
+      ].join("\n"),
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attributes({
+      name: `Accessibility scan of ${scan.url}`,
+      tests: summary.tests,
+      failures: summary.failures,
+      errors: summary.errors,
+      timestamp: scan.timestamp,
+    })}>`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
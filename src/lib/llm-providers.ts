@@ -0,0 +1,149 @@
+/**
+ * LLM Providers - Picks the chat model for each agent role from environment
+ * configuration (provider type, base URL, model and per-role overrides)
+ */
+
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+
+export type LlmProviderType =
+  | "openai"
+  | "openai-compatible"
+  | "anthropic"
+  | "ollama";
+
+/** Which agent a model is created for */
+export type AgentRole = "discovery" | "pageScanner" | "summarizer" | "single";
+
+export interface LlmConfig {
+  provider: LlmProviderType;
+  model: string;
+  /** Endpoint override; required for openai-compatible */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+interface LlmProviderDefinition {
+  defaultModel: string;
+  /** Provider-specific API key variable used when LLM_API_KEY is unset */
+  apiKeyEnv?: string;
+  requiresBaseUrl?: boolean;
+  createModel: (config: LlmConfig) => Promise<BaseChatModel>;
+}
+
+type Env = Record<string, string | undefined>;
+
+const LLM_PROVIDERS: Record<LlmProviderType, LlmProviderDefinition> = {
+  openai: {
+    defaultModel: "gpt-5-nano-2025-08-07",
+    apiKeyEnv: "OPENAI_API_KEY",
+    createModel: async ({ model, apiKey, baseUrl }) =>
+      new ChatOpenAI({
+        model,
+        apiKey,
+        configuration: baseUrl ? { baseURL: baseUrl } : undefined,
+      }),
+  },
+  "openai-compatible": {
+    defaultModel: "gpt-5-nano-2025-08-07",
+    apiKeyEnv: "OPENAI_API_KEY",
+    requiresBaseUrl: true,
+    createModel: async ({ model, apiKey, baseUrl }) =>
+      new ChatOpenAI({
+        model,
+        // Self-hosted gateways often run without auth, but the client
+        // refuses to start without a key
+        apiKey: apiKey ?? "not-needed",
+        configuration: { baseURL: baseUrl },
+      }),
+  },
+  anthropic: {
+    defaultModel: "claude-sonnet-4-5",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    createModel: async ({ model, apiKey, baseUrl }) =>
+      new ChatAnthropic({
+        model,
+        apiKey,
+        anthropicApiUrl: baseUrl,
+      }),
+  },
+  ollama: {
+    defaultModel: "llama3.1",
+    createModel: async ({ model, baseUrl }) =>
+      new ChatOllama({
+        model,
+        baseUrl: baseUrl ?? "http://localhost:11434",
+      }),
+  },
+};
+
+/** Per-role model variables, checked before LLM_MODEL */
+const ROLE_MODEL_ENV: Record<AgentRole, string> = {
+  discovery: "LLM_DISCOVERY_MODEL",
+  pageScanner: "LLM_PAGE_SCANNER_MODEL",
+  summarizer: "LLM_SUMMARIZER_MODEL",
+  single: "LLM_SINGLE_SCAN_MODEL",
+};
+
+export function isLlmProviderType(value: string): value is LlmProviderType {
+  return Object.hasOwn(LLM_PROVIDERS, value);
+}
+
+/**
+ * Resolves the provider, model, endpoint and key for an agent role
+ * @param role Agent the model is for
+ * @param env Environment variables (defaults to process.env)
+ * @returns Model configuration
+ * @throws Error when LLM_PROVIDER is unknown or a required base URL is missing
+ */
+export function resolveLlmConfig(
+  role: AgentRole,
+  env: Env = process.env,
+): LlmConfig {
+  const provider = env.LLM_PROVIDER?.trim() || "openai";
+  if (!isLlmProviderType(provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER '${provider}'. Must be one of: ${Object.keys(LLM_PROVIDERS).join(", ")}`,
+    );
+  }
+
+  const definition = LLM_PROVIDERS[provider];
+  const baseUrl = env.LLM_BASE_URL?.trim() || undefined;
+  if (definition.requiresBaseUrl && !baseUrl) {
+    throw new Error(`LLM_BASE_URL is required for the ${provider} provider`);
+  }
+
+  // OPENAI_MODEL and OPENAI_SUMMARIZER_MODEL predate the registry and still
+  // apply to OpenAI models
+  const isOpenAi = provider === "openai" || provider === "openai-compatible";
+  const modelEnv = [
+    ROLE_MODEL_ENV[role],
+    ...(isOpenAi && role === "summarizer" ? ["OPENAI_SUMMARIZER_MODEL"] : []),
+    "LLM_MODEL",
+    ...(isOpenAi ? ["OPENAI_MODEL"] : []),
+  ];
+  const model =
+    modelEnv.map((name) => env[name]?.trim()).find(Boolean) ??
+    definition.defaultModel;
+
+  const apiKey =
+    env.LLM_API_KEY ??
+    (definition.apiKeyEnv ? env[definition.apiKeyEnv] : undefined);
+
+  return { provider, model, baseUrl, apiKey };
+}
+
+/**
+ * Creates the chat model configured for an agent role
+ * @param role Agent the model is for
+ * @param env Environment variables (defaults to process.env)
+ */
+export async function createChatModel(
+  role: AgentRole,
+  env: Env = process.env,
+): Promise<BaseChatModel> {
+  const config = resolveLlmConfig(role, env);
+  return LLM_PROVIDERS[config.provider].createModel(config);
+}
@@ -1,18 +1,92 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { MultiServerMCPClient } from "@langchain/mcp-adapters";
+import {
+  type BrowserContextOptions,
+  createOriginHeadersInitPage,
+  type OriginHeaders,
+} from "@/lib/browser-options";
 
-export const clientTools = new MultiServerMCPClient({
+const ACCESSIBILITY_SERVER = {
+  command: "npx",
+  args: ["-y", "mcp-accessibility-scanner"],
+  restart: {
+    enabled: true,
+    maxAttempts: 3,
+    delayMs: 1000,
+  },
+};
+
+const CLIENT_OPTIONS = {
   throwOnLoadError: true,
   prefixToolNameWithServerName: false,
   useStandardContentBlocks: true,
+};
+
+export const clientTools = new MultiServerMCPClient({
+  ...CLIENT_OPTIONS,
   mcpServers: {
-    accessibility: {
-      command: "npx",
-      args: ["-y", "mcp-accessibility-scanner"],
-      restart: {
-        enabled: true,
-        maxAttempts: 3,
-        delayMs: 1000,
-      },
-    },
+    accessibility: ACCESSIBILITY_SERVER,
   },
 });
+
+/** Where agents get their browser tools: the shared client or a scan's own */
+export type McpToolSource = Pick<MultiServerMCPClient, "getTools">;
+
+export interface ScanMcpClient extends McpToolSource {
+  /** Stops the scan's MCP server and deletes its config file */
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an MCP server whose browser uses the given context options, for
+ * scans that need their own cookies, headers or user agent. The options are
+ * written to a private temp config file (Playwright MCP `--config`), and
+ * extra headers to an init-page module next to it that adds them to
+ * requests for the scanned origin only
+ * @param contextOptions Playwright browser context options
+ * @param originHeaders Extra headers for the scanned origin, if any
+ * @returns Tool source for the scan's agents; close it when the scan ends
+ */
+export async function createScanMcpClient(
+  contextOptions: BrowserContextOptions,
+  originHeaders?: OriginHeaders,
+): Promise<ScanMcpClient> {
+  const dir = await mkdtemp(path.join(tmpdir(), "a11y-scan-"));
+  const configPath = path.join(dir, "config.json");
+  const initPage: string[] = [];
+  if (originHeaders) {
+    const initPagePath = path.join(dir, "init-page.ts");
+    await writeFile(initPagePath, createOriginHeadersInitPage(originHeaders), {
+      mode: 0o600,
+    });
+    initPage.push(initPagePath);
+  }
+  await writeFile(
+    configPath,
+    JSON.stringify({ browser: { isolated: true, contextOptions, initPage } }),
+    { mode: 0o600 },
+  );
+
+  const client = new MultiServerMCPClient({
+    ...CLIENT_OPTIONS,
+    mcpServers: {
+      accessibility: {
+        ...ACCESSIBILITY_SERVER,
+        args: [...ACCESSIBILITY_SERVER.args, "--config", configPath],
+      },
+    },
+  });
+
+  return {
+    getTools: () => client.getTools(),
+    close: async () => {
+      try {
+        await client.close();
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
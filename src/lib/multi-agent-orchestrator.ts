@@ -1,21 +1,81 @@
-import { HumanMessage } from "@langchain/core/messages";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  AIMessage,
+  type BaseMessage,
+  HumanMessage,
+} from "@langchain/core/messages";
 import { createAgentWithPrompt } from "@/lib/agent";
 import {
+  JOURNEY_AGENT_PROMPT,
   PAGE_SCANNER_AGENT_PROMPT,
   SUMMARIZER_AGENT_PROMPT,
   URL_DISCOVERY_AGENT_PROMPT,
 } from "@/lib/agent-prompts";
+import { normalizePageUrl } from "@/lib/comparison-engine";
+import {
+  DEFAULT_CRAWL_OPTIONS,
+  mergeDiscoveredUrls,
+  resolveCrawlOptions,
+} from "@/lib/crawl-utils";
+import { buildFetchHeaders } from "@/lib/browser-options";
+import {
+  extractFindingsFromMessages,
+  extractScanPageOutputs,
+} from "@/lib/findings-parser";
+import {
+  collectCheckpointResults,
+  formatCheckpointSection,
+  formatJourneySteps,
+  getJourneyCheckpoints,
+} from "@/lib/journey";
+import type { McpToolSource } from "@/lib/mcp-client";
 import type {
+  DiscoveredUrl,
+  JourneyScanResult,
+  MultiAgentScanOptions,
   MultiAgentScanResult,
   PageScanResult,
+  SummarizerResult,
   UrlDiscoveryResult,
 } from "@/lib/multi-agent-types";
+import { AuthSession } from "@/lib/scan-auth";
+import { resolveScanOptions } from "@/lib/scan-options";
+import { runSitemapDiscovery } from "@/lib/sitemap-discovery";
+import {
+  buildScanUsage,
+  getTokenUsage,
+  sumTokenUsage,
+} from "@/lib/token-usage";
+import type { ScanJourney, ScanOptions, TokenUsage } from "@/lib/types";
 import pMap from "p-map";
 
+/**
+ * Builds the signal for one agent invocation: aborts on timeout or when the
+ * caller's signal aborts (e.g. the client disconnected or cancelled the scan)
+ * @param timeoutMs Time budget for the invocation
+ * @param signal Optional caller-supplied signal
+ */
+export function createTimeoutSignal(
+  timeoutMs: number,
+  signal?: AbortSignal,
+): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
 export async function runDiscoveryAgent(
   mainUrl: string,
+  signal?: AbortSignal,
+  maxUrls: number = DEFAULT_CRAWL_OPTIONS.maxPages,
+  scanOptions?: ScanOptions,
+  mcpClient?: McpToolSource,
 ): Promise<UrlDiscoveryResult> {
-  const agent = await createAgentWithPrompt(URL_DISCOVERY_AGENT_PROMPT);
+  const { timeouts, recursionLimits } = resolveScanOptions(scanOptions);
+  const agent = await createAgentWithPrompt(
+    URL_DISCOVERY_AGENT_PROMPT,
+    "discovery",
+    mcpClient,
+  );
 
   const prompt = `Analyze this URL and discover the most important pages to scan: ${mainUrl}
 
@@ -23,7 +83,7 @@ Follow these steps:
 1. Navigate to the URL in headless mode
 2. Handle any cookie banners or modals
 3. Get the page HTML snapshot
-4. Identify 3-4 key URLs (prioritize: signup, login, checkout, forms, main features)
+4. Identify up to ${maxUrls} key URLs (prioritize: signup, login, checkout, forms, main features)
 5. Close the browser
 6. Return the results in the exact JSON format specified in your system prompt
 
@@ -33,30 +93,67 @@ Remember: Return ONLY the JSON object, no additional text or markdown.`;
   const invokeResult = await agent.invoke(
     { messages },
     {
-      recursionLimit: 26,
-      signal: AbortSignal.timeout(120000),
+      recursionLimit: recursionLimits.discovery,
+      signal: createTimeoutSignal(timeouts.discoveryMs, signal),
     },
   );
 
   const lastMessage = invokeResult.messages[invokeResult.messages.length - 1];
-  return parseDiscoveryResult(String(lastMessage.content));
+  return {
+    ...parseDiscoveryResult(String(lastMessage.content)),
+    usage: getTokenUsage(invokeResult.messages),
+  };
 }
 
-async function scanSingleUrl(url: string): Promise<PageScanResult> {
-  const agent = await createAgentWithPrompt(PAGE_SCANNER_AGENT_PROMPT);
+/**
+ * Whether an agent run called a tool (e.g. browser_close, which ends the
+ * logged-in session)
+ */
+function calledTool(messages: BaseMessage[], name: string): boolean {
+  return messages.some(
+    (message) =>
+      AIMessage.isInstance(message) &&
+      message.tool_calls?.some((call) => call.name === name),
+  );
+}
 
-  const messages = [
-    new HumanMessage(
-      `Scan this URL for accessibility violations: ${url}
+async function scanSingleUrl(
+  url: string,
+  signal: AbortSignal,
+  recursionLimit: number,
+  auth?: AuthSession,
+  mcpClient?: McpToolSource,
+): Promise<PageScanResult> {
+  await auth?.ensure(signal);
+
+  const agent = await createAgentWithPrompt(
+    PAGE_SCANNER_AGENT_PROMPT,
+    "pageScanner",
+    mcpClient,
+  );
 
-Follow these steps:
-1. Navigate to the URL in headless mode
+  const steps = auth
+    ? `1. Navigate to the URL in headless mode (the browser is already logged in)
+2. Handle any cookie banners or modals
+3. Wait for the page to fully load
+4. Run the scan_page tool
+5. Analyze the results
+6. Do NOT call browser_close: the logged-in session is reused for the next page
+7. Return a markdown-formatted accessibility report`
+    : `1. Navigate to the URL in headless mode
 2. Handle any cookie banners or modals
 3. Wait for the page to fully load
 4. Run the scan_page tool
 5. Analyze the results
 6. Close the browser
-7. Return a markdown-formatted accessibility report
+7. Return a markdown-formatted accessibility report`;
+
+  const messages = [
+    new HumanMessage(
+      `Scan this URL for accessibility violations: ${url}
+
+Follow these steps:
+${steps}
 
 Format your response as specified in your system prompt.`,
     ),
@@ -64,29 +161,165 @@ Format your response as specified in your system prompt.`,
 
   const invokeResult = await agent.invoke(
     { messages },
-    { recursionLimit: 30, signal: AbortSignal.timeout(120_000) },
+    { recursionLimit, signal },
   );
 
+  if (auth && calledTool(invokeResult.messages, "browser_close")) {
+    auth.invalidate();
+  }
+
   const lastMessage = invokeResult.messages[invokeResult.messages.length - 1];
-  const scanData = String(lastMessage.content);
-  const violations = extractViolationCount(scanData);
+  const scanData = auth
+    ? auth.redact(String(lastMessage.content))
+    : String(lastMessage.content);
+  const [extracted] = extractFindingsFromMessages(invokeResult.messages, url);
+  const findings = auth ? auth.redactFindings(extracted) : extracted;
+  const violations = findings
+    ? findings.violations.length
+    : extractViolationCount(scanData);
 
-  return { url, scanData, violations, timestamp: new Date().toISOString() };
+  return {
+    url,
+    scanData,
+    violations,
+    timestamp: new Date().toISOString(),
+    findings,
+    usage: getTokenUsage(invokeResult.messages),
+  };
 }
 
+/**
+ * Scans a page, retrying with exponential backoff when an attempt fails or
+ * times out. Never rejects unless the caller aborts
+ * @param url Page to scan
+ * @param options Scan options and optional caller-supplied abort signal
+ * @param auth Login session shared with the batch's other page scans
+ * @returns The successful result, or a failed/timed out result with the last error
+ */
+async function scanUrlWithRetries(
+  url: string,
+  options: MultiAgentScanOptions,
+  auth?: AuthSession,
+): Promise<PageScanResult> {
+  const { signal } = options;
+  const { timeouts, recursionLimits, retry } = resolveScanOptions(
+    options.scanOptions,
+  );
+  const { maxAttempts, baseDelayMs } = retry;
+  let lastError: unknown;
+  let timedOut = false;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    signal?.throwIfAborted();
+    const attemptSignal = createTimeoutSignal(timeouts.pageScanMs, signal);
+
+    try {
+      const result = await scanSingleUrl(
+        url,
+        attemptSignal,
+        recursionLimits.pageScan,
+        auth,
+        options.mcpClient,
+      );
+      return { ...result, status: "succeeded", attempts: attempt };
+    } catch (error) {
+      signal?.throwIfAborted();
+      lastError = error;
+      timedOut = attemptSignal.aborted;
+      // The browser may be left anywhere; log in again before retrying
+      auth?.invalidate();
+      console.warn(
+        `Page scan attempt ${attempt}/${maxAttempts} failed for ${url}:`,
+        error,
+      );
+    }
+
+    if (attempt < maxAttempts) {
+      await sleep(baseDelayMs * 2 ** (attempt - 1), undefined, { signal });
+    }
+  }
+
+  const message =
+    lastError instanceof Error ? lastError.message : String(lastError);
+
+  return {
+    url,
+    scanData: "",
+    violations: 0,
+    timestamp: new Date().toISOString(),
+    status: timedOut ? "timed_out" : "failed",
+    error: timedOut
+      ? `Timed out after ${timeouts.pageScanMs / 1000}s`
+      : auth
+        ? auth.redact(message)
+        : message,
+    attempts: maxAttempts,
+  };
+}
+
+/**
+ * Whether a page result holds a usable scan
+ */
+export function isPageScanSuccessful(result: PageScanResult): boolean {
+  return result.status === undefined || result.status === "succeeded";
+}
+
+/**
+ * Scans the given pages with up to `concurrency` page scanners at a time.
+ * With authentication the scanners share one logged-in browser, so pages are
+ * scanned one after another to keep each agent on the page it opened
+ */
 export async function runPageScannerAgentBatch(
   urls: string[],
+  options: MultiAgentScanOptions = {},
 ): Promise<PageScanResult[]> {
-  return pMap(urls, scanSingleUrl, { concurrency: 3 });
+  const { onEvent, onPageResult, signal } = options;
+  const concurrency = options.authentication
+    ? 1
+    : resolveScanOptions(options.scanOptions).concurrency;
+  const totalPages = urls.length;
+  const auth = options.authentication
+    ? new AuthSession(options.authentication, process.env, options.mcpClient)
+    : undefined;
+
+  return pMap(
+    urls,
+    async (url, index) => {
+      onEvent?.({ type: "page_scan_started", url, index, totalPages });
+      const result = await scanUrlWithRetries(url, options, auth);
+      onPageResult?.(result);
+      onEvent?.({
+        type: "page_scan_finished",
+        url,
+        index,
+        totalPages,
+        violations: result.violations,
+        status: result.status,
+      });
+      return result;
+    },
+    { concurrency, signal },
+  ).finally(() => auth?.close());
 }
 
 export async function runSummarizerAgent(
   discoveryResult: UrlDiscoveryResult,
   pageScanResults: PageScanResult[],
-): Promise<string> {
-  const agent = await createAgentWithPrompt(SUMMARIZER_AGENT_PROMPT);
+  signal?: AbortSignal,
+  scanOptions?: ScanOptions,
+): Promise<SummarizerResult> {
+  const { timeouts, recursionLimits } = resolveScanOptions(scanOptions);
+  const agent = await createAgentWithPrompt(
+    SUMMARIZER_AGENT_PROMPT,
+    "summarizer",
+  );
+
+  const scannedPages = pageScanResults.filter(isPageScanSuccessful);
+  const failedPages = pageScanResults.filter(
+    (scan) => !isPageScanSuccessful(scan),
+  );
 
-  const scanReports = pageScanResults
+  const scanReports = scannedPages
     .map(
       (scan, index) => `
 ## Page ${index + 1}: ${scan.url}
@@ -97,20 +330,36 @@ ${scan.scanData}
     )
     .join("\n\n---\n\n");
 
-  const totalViolations = pageScanResults.reduce(
+  const totalViolations = scannedPages.reduce(
     (sum, scan) => sum + scan.violations,
     0,
   );
 
+  const failedSection =
+    failedPages.length > 0
+      ? `
+
+**Pages That Could Not Be Scanned:**
+
+${failedPages
+  .map(
+    (scan) =>
+      `- ${scan.url} (${scan.status === "timed_out" ? "timed out" : "failed"} after ${scan.attempts ?? 1} attempts: ${scan.error ?? "unknown error"})`,
+  )
+  .join("\n")}
+
+List these pages in a "Pages Not Scanned" section of your report. Do NOT describe them as free of violations.`
+      : "";
+
   const prompt = `Create a comprehensive accessibility report combining the following scan results:
 
 **Main URL:** ${discoveryResult.mainPageUrl}
-**Pages Scanned:** ${pageScanResults.length}
+**Pages Scanned:** ${scannedPages.length}
 **Total Violations Across All Pages:** ${totalViolations}
 
 **Individual Page Scan Results:**
 
-${scanReports}
+${scanReports}${failedSection}
 
 IMPORTANT: The scan data above contains ${totalViolations} total violations. Make sure to include ALL violations from each page in your comprehensive report. Do NOT say there are 0 violations when violations are present in the scan data above.
 
@@ -120,30 +369,155 @@ Analyze all the above results and create a unified, comprehensive accessibility
   const invokeResult = await agent.invoke(
     { messages },
     {
-      recursionLimit: 26,
-      signal: AbortSignal.timeout(90000),
+      recursionLimit: recursionLimits.summarizer,
+      signal: createTimeoutSignal(timeouts.summarizerMs, signal),
     },
   );
 
   const lastMessage = invokeResult.messages[invokeResult.messages.length - 1];
-  return String(lastMessage.content);
+  return {
+    report: String(lastMessage.content),
+    usage: getTokenUsage(invokeResult.messages),
+  };
 }
 
-// ✅ OPTIMIZED: Use batch scanning instead of sequential Promise.all
-export async function runMultiAgentScan(
+/**
+ * Discovers pages to scan. The sitemap strategy reads robots.txt and
+ * sitemap.xml; the agent strategy follows discovered pages breadth-first
+ * until the crawl's depth or page budget is reached, and falls back to the
+ * sitemap when the agent returns malformed JSON
+ * @param mainUrl URL the scan starts from
+ * @param scanOptions Crawl limits, discovery strategy and abort signal
+ * @returns Discovery result for the start page with the merged URL list
+ */
+export async function discoverCrawlUrls(
   mainUrl: string,
-): Promise<MultiAgentScanResult> {
-  const discoveryResult = await runDiscoveryAgent(mainUrl);
+  scanOptions: MultiAgentScanOptions = {},
+): Promise<UrlDiscoveryResult> {
+  const {
+    crawl,
+    discoveryStrategy = "agent",
+    signal,
+    scanOptions: tuning,
+    mcpClient,
+  } = scanOptions;
+  const options = resolveCrawlOptions(crawl);
+  const headers = buildFetchHeaders(scanOptions.browser);
+
+  if (discoveryStrategy === "sitemap") {
+    return runSitemapDiscovery(mainUrl, { crawl, signal, headers });
+  }
 
-  const urlsToScan = discoveryResult.discoveredUrls
-    .slice(0, 4)
-    .map((u) => u.url);
+  let rootResult: UrlDiscoveryResult;
+  try {
+    rootResult = await runDiscoveryAgent(
+      mainUrl,
+      signal,
+      options.maxPages,
+      tuning,
+      mcpClient,
+    );
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+
+    console.warn(
+      "Discovery agent returned malformed JSON, falling back to sitemap discovery:",
+      error.message,
+    );
+    return runSitemapDiscovery(mainUrl, { crawl, signal, headers });
+  }
+
+  const discoveredUrls: DiscoveredUrl[] = [];
+  const usages: Array<TokenUsage | undefined> = [rootResult.usage];
+  let frontier = mergeDiscoveredUrls(
+    discoveredUrls,
+    rootResult.discoveredUrls,
+    mainUrl,
+    options,
+  );
+  discoveredUrls.push(...frontier);
+
+  for (let depth = 2; depth <= options.maxDepth; depth++) {
+    const nextFrontier: DiscoveredUrl[] = [];
+
+    for (const page of frontier) {
+      if (discoveredUrls.length >= options.maxPages) break;
+      signal?.throwIfAborted();
+
+      try {
+        const result = await runDiscoveryAgent(
+          page.url,
+          signal,
+          options.maxPages - discoveredUrls.length,
+          tuning,
+          mcpClient,
+        );
+        usages.push(result.usage);
+        const added = mergeDiscoveredUrls(
+          discoveredUrls,
+          result.discoveredUrls,
+          mainUrl,
+          options,
+        );
+        discoveredUrls.push(...added);
+        nextFrontier.push(...added);
+      } catch (error) {
+        signal?.throwIfAborted();
+        // A failed sub-page discovery should not lose what was found so far
+        console.warn(`Discovery failed for ${page.url}:`, error);
+      }
+    }
+
+    if (nextFrontier.length === 0) break;
+    frontier = nextFrontier;
+  }
 
-  const pageScanResults = await runPageScannerAgentBatch(urlsToScan);
+  return { ...rootResult, discoveredUrls, usage: sumTokenUsage(usages) };
+}
 
-  const finalReport = await runSummarizerAgent(
+/**
+ * Scans the discovered pages and combines their reports
+ * @param mainUrl URL the scan reports on
+ * @param discoveryResult Pages to scan
+ * @param options Progress listeners and abort signal
+ */
+async function scanAndSummarize(
+  mainUrl: string,
+  discoveryResult: UrlDiscoveryResult,
+  options: MultiAgentScanOptions,
+): Promise<MultiAgentScanResult> {
+  const { onEvent, signal } = options;
+  const urlsToScan = discoveryResult.discoveredUrls.map((u) => u.url);
+
+  onEvent?.({
+    type: "discovery_complete",
+    discoveredUrls: urlsToScan,
+    totalPages: urlsToScan.length,
+  });
+
+  const pageScanResults = await runPageScannerAgentBatch(urlsToScan, options);
+  signal?.throwIfAborted();
+
+  const scannedCount = pageScanResults.filter(isPageScanSuccessful).length;
+  if (pageScanResults.length > 0 && scannedCount === 0) {
+    const reasons = pageScanResults
+      .map((scan) => `${scan.url}: ${scan.error ?? "unknown error"}`)
+      .join("; ");
+    throw new Error(
+      `All ${pageScanResults.length} page scans failed (${reasons})`,
+    );
+  }
+
+  onEvent?.({
+    type: "summarizer_started",
+    pagesScanned: scannedCount,
+  });
+
+  const summary = await runSummarizerAgent(
     discoveryResult,
     pageScanResults,
+    signal,
+    options.scanOptions,
   );
 
   const totalViolations = pageScanResults.reduce(
@@ -151,16 +525,76 @@ export async function runMultiAgentScan(
     0,
   );
 
+  const usage = buildScanUsage(
+    {
+      discovery: discoveryResult.usage,
+      pageScanner: sumTokenUsage(pageScanResults.map((scan) => scan.usage)),
+      summarizer: summary.usage,
+    },
+    pageScanResults.flatMap((scan) =>
+      scan.usage ? [{ url: scan.url, ...scan.usage }] : [],
+    ),
+  );
+
   return {
     mainUrl,
     discoveryResult,
     pageScanResults,
-    finalReport,
+    finalReport: summary.report,
     totalViolations,
     timestamp: new Date().toISOString(),
+    usage,
   };
 }
 
+// ✅ OPTIMIZED: Use batch scanning instead of sequential Promise.all
+export async function runMultiAgentScan(
+  mainUrl: string,
+  options: MultiAgentScanOptions = {},
+): Promise<MultiAgentScanResult> {
+  const discoveryResult = await discoverCrawlUrls(mainUrl, options);
+  options.signal?.throwIfAborted();
+
+  return scanAndSummarize(mainUrl, discoveryResult, options);
+}
+
+/**
+ * Scans a known list of pages, skipping the Discovery Agent
+ * @param mainUrl URL the combined report is about
+ * @param urls Pages to scan (duplicates are scanned once)
+ * @param options Progress listeners and abort signal
+ */
+export async function runListScan(
+  mainUrl: string,
+  urls: string[],
+  options: MultiAgentScanOptions = {},
+): Promise<MultiAgentScanResult> {
+  const seen = new Set<string>();
+  const discoveredUrls: DiscoveredUrl[] = [];
+
+  for (const url of urls) {
+    const key = normalizePageUrl(url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    discoveredUrls.push({
+      url,
+      description: "Provided in the scan request",
+      priority: "high",
+    });
+  }
+
+  return scanAndSummarize(
+    mainUrl,
+    {
+      mainPageUrl: mainUrl,
+      mainPageHtml: "",
+      discoveredUrls,
+      timestamp: new Date().toISOString(),
+    },
+    options,
+  );
+}
+
 function parseDiscoveryResult(rawOutput: string): UrlDiscoveryResult {
   const timestamp = new Date().toISOString();
 
@@ -199,3 +633,79 @@ function extractViolationCount(scanData: string): number {
 
   return criticalCount + seriousCount + moderateCount + minorCount;
 }
+
+/**
+ * Runs a journey: the journey agent performs the steps and runs scan_page at
+ * each checkpoint. Checkpoint findings come from those scan_page calls in
+ * call order and are appended to the agent's report
+ * @param url URL the journey starts from
+ * @param journey Validated journey
+ * @param options Abort signal, scan options, login recipe and MCP client
+ */
+export async function runJourneyAgent(
+  url: string,
+  journey: ScanJourney,
+  options: MultiAgentScanOptions = {},
+): Promise<JourneyScanResult> {
+  const { signal, mcpClient } = options;
+  const { timeouts, recursionLimits } = resolveScanOptions(options.scanOptions);
+  const auth = options.authentication
+    ? new AuthSession(options.authentication, process.env, mcpClient)
+    : undefined;
+  const agent = await createAgentWithPrompt(
+    JOURNEY_AGENT_PROMPT,
+    "single",
+    mcpClient,
+  );
+
+  const finish = auth
+    ? "The browser is already logged in. Do NOT call browser_close at the end."
+    : "Close the browser when the journey is done.";
+  const messages = [
+    new HumanMessage(
+      `Run this accessibility journey${journey.name ? ` ("${journey.name}")` : ""}.
+
+Steps:
+${formatJourneySteps(url, journey)}
+
+${finish}
+
+Format your response as specified in your system prompt.`,
+    ),
+  ];
+
+  const journeySignal = createTimeoutSignal(timeouts.singleScanMs, signal);
+  // Close the login session even when logging in fails or is aborted
+  let invokeResult: Awaited<ReturnType<typeof agent.invoke>>;
+  try {
+    await auth?.ensure(journeySignal);
+    invokeResult = await agent.invoke(
+      { messages },
+      { recursionLimit: recursionLimits.singleScan, signal: journeySignal },
+    );
+  } finally {
+    await auth?.close();
+  }
+
+  const checkpoints = collectCheckpointResults(
+    extractScanPageOutputs(invokeResult.messages),
+    getJourneyCheckpoints(url, journey),
+  ).map((checkpoint) =>
+    auth
+      ? { ...checkpoint, findings: auth.redactFindings(checkpoint.findings) }
+      : checkpoint,
+  );
+
+  const lastMessage = invokeResult.messages[invokeResult.messages.length - 1];
+  const report = `${String(lastMessage.content)}
+
+---
+
+${formatCheckpointSection(checkpoints)}`;
+
+  return {
+    report: auth ? auth.redact(report) : report,
+    checkpoints,
+    usage: getTokenUsage(invokeResult.messages),
+  };
+}
@@ -1,3 +1,17 @@
+import type { PageFindings } from "@/lib/findings-types";
+import type { JourneyCheckpointRecord } from "@/lib/history-types";
+import type { McpToolSource } from "@/lib/mcp-client";
+import type {
+  CrawlOptions,
+  DiscoveryStrategy,
+  ScanAuthentication,
+  ScanBrowserOptions,
+  ScanOptions,
+  ScanProgressListener,
+  ScanUsage,
+  TokenUsage,
+} from "@/lib/types";
+
 export interface DiscoveredUrl {
   url: string;
   description: string;
@@ -9,13 +23,39 @@ export interface UrlDiscoveryResult {
   mainPageHtml: string;
   discoveredUrls: DiscoveredUrl[];
   timestamp: string;
+  /** Tokens used by the Discovery Agent (absent for sitemap discovery) */
+  usage?: TokenUsage;
 }
 
+/** Outcome of a page scan after retries */
+export type PageScanStatus = "succeeded" | "failed" | "timed_out";
+
 export interface PageScanResult {
   url: string;
   scanData: string;
   violations: number;
   timestamp: string;
+  findings?: PageFindings;
+  /** Absent means the page was scanned successfully */
+  status?: PageScanStatus;
+  /** Why the last attempt failed (failed or timed out pages) */
+  error?: string;
+  /** Number of scan attempts made */
+  attempts?: number;
+  /** Tokens used by the successful attempt */
+  usage?: TokenUsage;
+}
+
+export interface SummarizerResult {
+  report: string;
+  usage: TokenUsage;
+}
+
+export interface JourneyScanResult {
+  /** Agent report followed by the per-checkpoint findings section */
+  report: string;
+  checkpoints: JourneyCheckpointRecord[];
+  usage: TokenUsage;
 }
 
 export interface MultiAgentScanResult {
@@ -25,4 +65,26 @@ export interface MultiAgentScanResult {
   finalReport: string;
   totalViolations: number;
   timestamp: string;
+  /** Tokens used and estimated cost across every agent */
+  usage: ScanUsage;
+}
+
+export interface MultiAgentScanOptions {
+  /** Receives progress events as agents start and finish */
+  onEvent?: ScanProgressListener;
+  /** Receives each page's full result as soon as its scan finishes */
+  onPageResult?: (result: PageScanResult) => void;
+  /** Aborts the scan; combined with each agent's own timeout */
+  signal?: AbortSignal;
+  /** Page budget, depth and host scope for discovery */
+  crawl?: CrawlOptions;
+  discoveryStrategy?: DiscoveryStrategy;
+  /** Concurrency, timeouts, recursion limits and retry policy */
+  scanOptions?: ScanOptions;
+  /** Login recipe run before page scans; the session is shared by all pages */
+  authentication?: ScanAuthentication;
+  /** Cookies, headers and user agent, also sent with sitemap requests */
+  browser?: ScanBrowserOptions;
+  /** Browser tools for the agents (defaults to the shared MCP client) */
+  mcpClient?: McpToolSource;
 }
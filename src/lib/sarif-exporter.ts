@@ -0,0 +1,217 @@
+/**
+ * SARIF Exporter - Converts scan findings into a SARIF 2.1.0 log so
+ * accessibility issues show up in code-scanning UIs
+ */
+
+import { fingerprintViolation } from "./comparison-engine";
+import { type ExportSource, toExportScan } from "./export-source";
+import type { Violation } from "./findings-types";
+import type { ViolationSeverity } from "./history-types";
+import { evaluateBaseline, type ScanBaseline } from "./scan-baseline";
+
+export const SARIF_VERSION = "2.1.0";
+
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+const TOOL_NAME = "agentic-a11y-scanner";
+
+const TOOL_INFORMATION_URI =
+  "https://www.w3.org/WAI/standards-guidelines/wcag/";
+
+export type SarifLevel = "error" | "warning" | "note";
+
+/** Scanner severity to SARIF level */
+export const SARIF_LEVELS: Record<ViolationSeverity, SarifLevel> = {
+  critical: "error",
+  serious: "error",
+  moderate: "warning",
+  minor: "note",
+};
+
+const LEVEL_RANK: Record<SarifLevel, number> = {
+  note: 0,
+  warning: 1,
+  error: 2,
+};
+
+interface SarifMessage {
+  text: string;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+  };
+  logicalLocations?: Array<{ fullyQualifiedName: string; kind: string }>;
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  /** Set when the export is compared with a baseline */
+  baselineState?: "new" | "unchanged";
+  properties: { impact: ViolationSeverity; html?: string };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  invocations: Array<{
+    executionSuccessful: boolean;
+    endTimeUtc: string;
+    toolExecutionNotifications: Array<{
+      level: SarifLevel;
+      message: SarifMessage;
+      locations: SarifLocation[];
+    }>;
+  }>;
+  results: SarifResult[];
+  properties: { scanUrl: string; mode?: string };
+}
+
+export interface SarifOptions {
+  /** Known violations; results are marked "new" or "unchanged" */
+  baseline?: ScanBaseline;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: SarifRun[];
+}
+
+function pageLocation(url: string, selectors: string[] = []): SarifLocation {
+  const location: SarifLocation = {
+    physicalLocation: { artifactLocation: { uri: url } },
+  };
+
+  if (selectors.length > 0) {
+    location.logicalLocations = [
+      { fullyQualifiedName: selectors.join(" >>> "), kind: "element" },
+    ];
+  }
+
+  return location;
+}
+
+function ruleTags(violation: Violation): string[] {
+  return [
+    "accessibility",
+    ...violation.wcagCriteria.map((criterion) => `WCAG ${criterion}`),
+  ];
+}
+
+/**
+ * Converts a scan into a SARIF log with one run: a rule per scanner rule id,
+ * a result per failing element (located by page URL and selector) and a
+ * notification per page that could not be scanned
+ * @param source History record or multi-agent scan result
+ * @param options Baseline to mark results against
+ * @returns SARIF 2.1.0 log
+ */
+export function toSarifLog(
+  source: ExportSource,
+  options: SarifOptions = {},
+): SarifLog {
+  const scan = toExportScan(source);
+  const known = options.baseline
+    ? new Set(evaluateBaseline(options.baseline, source).suppressed)
+    : undefined;
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const violation of scan.findings.flatMap((page) => page.violations)) {
+    const level = SARIF_LEVELS[violation.impact];
+    let ruleIndex = ruleIndexes.get(violation.ruleId);
+
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexes.set(violation.ruleId, ruleIndex);
+      rules.push({
+        id: violation.ruleId,
+        shortDescription: { text: violation.description },
+        helpUri: violation.helpUrl,
+        defaultConfiguration: { level },
+        properties: { tags: ruleTags(violation) },
+      });
+    }
+
+    // A rule's default level is its most severe occurrence
+    const rule = rules[ruleIndex];
+    if (LEVEL_RANK[level] > LEVEL_RANK[rule.defaultConfiguration.level]) {
+      rule.defaultConfiguration.level = level;
+    }
+
+    results.push({
+      ruleId: violation.ruleId,
+      ruleIndex,
+      level,
+      message: {
+        text:
+          violation.selectors.length > 0
+            ? `${violation.description} (${violation.selectors.join(" >>> ")})`
+            : violation.description,
+      },
+      locations: [pageLocation(violation.pageUrl, violation.selectors)],
+      partialFingerprints: {
+        "a11yViolation/v1": fingerprintViolation(violation),
+      },
+      baselineState: known
+        ? known.has(violation)
+          ? "unchanged"
+          : "new"
+        : undefined,
+      properties: {
+        impact: violation.impact,
+        html: violation.html || undefined,
+      },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_INFORMATION_URI,
+            rules,
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: scan.failedPages.length === 0,
+            endTimeUtc: scan.timestamp,
+            toolExecutionNotifications: scan.failedPages.map((page) => ({
+              level: "error",
+              message: { text: `Page could not be scanned: ${page.error}` },
+              locations: [pageLocation(page.url)],
+            })),
+          },
+        ],
+        results,
+        properties: { scanUrl: scan.url, mode: scan.mode },
+      },
+    ],
+  };
+}
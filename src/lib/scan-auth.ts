@@ -0,0 +1,285 @@
+/**
+ * Scan Authentication - Logs the MCP browser in with a scripted recipe before
+ * page scans. Credentials are read from server environment variables, typed
+ * by direct tool calls (never shown to an agent) and redacted from results
+ */
+
+import type { PageFindings } from "@/lib/findings-types";
+import { clientTools, type McpToolSource } from "@/lib/mcp-client";
+import type { ScanAuthentication } from "@/lib/types";
+
+type Env = Record<string, string | undefined>;
+
+type McpTool = Awaited<ReturnType<typeof clientTools.getTools>>[number];
+
+/** Only variables with this prefix may be used as credentials */
+export const AUTH_ENV_PREFIX = "SCAN_AUTH_";
+
+const AUTH_ENV_PATTERN = /^SCAN_AUTH_[A-Z0-9_]+$/;
+
+const REDACTED = "[REDACTED]";
+
+const SELECTOR_FIELDS = [
+  "usernameSelector",
+  "passwordSelector",
+  "submitSelector",
+] as const;
+
+const ENV_FIELDS = ["usernameEnv", "passwordEnv"] as const;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Validates a scan request's login recipe
+ * @param auth Untrusted authentication option
+ * @param env Server environment the credentials are read from
+ * @returns Error message, or null when the recipe can run
+ */
+export function validateScanAuthentication(
+  auth: unknown,
+  env: Env = process.env,
+): string | null {
+  if (auth === undefined) {
+    return null;
+  }
+
+  if (typeof auth !== "object" || auth === null) {
+    return "Invalid authentication options";
+  }
+
+  const recipe = auth as Partial<ScanAuthentication>;
+
+  if (typeof recipe.loginUrl !== "string" || !URL.canParse(recipe.loginUrl)) {
+    return "authentication.loginUrl must be a valid URL";
+  }
+
+  for (const field of SELECTOR_FIELDS) {
+    if (!isNonEmptyString(recipe[field])) {
+      return `authentication.${field} must be a non-empty string`;
+    }
+  }
+
+  for (const field of ENV_FIELDS) {
+    const name = recipe[field];
+    if (typeof name !== "string" || !AUTH_ENV_PATTERN.test(name)) {
+      return `authentication.${field} must name an environment variable starting with ${AUTH_ENV_PREFIX}`;
+    }
+    if (!env[name]) {
+      return `Credential variable ${name} is not set on the server`;
+    }
+  }
+
+  const check = recipe.successCheck;
+  if (
+    typeof check !== "object" ||
+    check === null ||
+    !(isNonEmptyString(check.text) || isNonEmptyString(check.urlIncludes))
+  ) {
+    return "authentication.successCheck needs 'text' or 'urlIncludes'";
+  }
+
+  return null;
+}
+
+/**
+ * Finds the element ref for a selector in browser_snapshot output, e.g.
+ * `textbox "Email"` in the line `- textbox "Email" [ref=e12]`
+ * @param snapshot Snapshot text
+ * @param selector Text to look for on the element's line
+ * @returns The element's ref, or the selector itself when nothing matches
+ */
+export function findElementRef(snapshot: string, selector: string): string {
+  for (const line of snapshot.split("\n")) {
+    if (!line.includes(selector)) continue;
+
+    const ref = line.match(/\[ref=([^\]]+)\]/)?.[1];
+    if (ref) {
+      return ref;
+    }
+  }
+
+  return selector;
+}
+
+function toolText(result: unknown): string {
+  if (typeof result === "string") {
+    return result;
+  }
+
+  if (Array.isArray(result)) {
+    return result
+      .map((block) =>
+        block && typeof block === "object" && "text" in block
+          ? String(block.text)
+          : "",
+      )
+      .join("\n");
+  }
+
+  return JSON.stringify(result);
+}
+
+/**
+ * Browser login shared by the page scans of one scan. The first scan that
+ * needs it logs in; later scans reuse the session until it is invalidated
+ */
+export class AuthSession {
+  private readonly recipe: ScanAuthentication;
+  private readonly mcpClient: McpToolSource;
+  private readonly username: string;
+  private readonly password: string;
+  private login: Promise<void> | null = null;
+
+  /**
+   * @param recipe Validated login recipe
+   * @param env Server environment holding the credentials
+   * @param mcpClient Browser tools the page scans use
+   * @throws Error when a credential variable is missing or not allowed
+   */
+  constructor(
+    recipe: ScanAuthentication,
+    env: Env = process.env,
+    mcpClient: McpToolSource = clientTools,
+  ) {
+    const error = validateScanAuthentication(recipe, env);
+    if (error) {
+      throw new Error(error);
+    }
+
+    this.recipe = recipe;
+    this.mcpClient = mcpClient;
+    this.username = env[recipe.usernameEnv] ?? "";
+    this.password = env[recipe.passwordEnv] ?? "";
+  }
+
+  /**
+   * Logs in unless a previous page scan already did
+   * @param signal Aborts the login
+   * @throws Error starting with "Login failed" when the recipe fails
+   */
+  ensure(signal?: AbortSignal): Promise<void> {
+    if (!this.login) {
+      const login = this.runLogin(signal);
+      this.login = login;
+      // A failed login is retried by the next page scan
+      login.catch(() => {
+        if (this.login === login) {
+          this.login = null;
+        }
+      });
+    }
+    return this.login;
+  }
+
+  /**
+   * Forgets the session, e.g. after an agent closed the browser
+   */
+  invalidate(): void {
+    this.login = null;
+  }
+
+  /**
+   * Closes the browser if this session logged in (best effort)
+   */
+  async close(): Promise<void> {
+    if (!this.login) {
+      return;
+    }
+
+    this.login = null;
+    try {
+      const tools = await this.mcpClient.getTools();
+      await tools.find((tool) => tool.name === "browser_close")?.invoke({});
+    } catch (error) {
+      console.warn("Failed to close the authenticated browser:", error);
+    }
+  }
+
+  /**
+   * Replaces the credentials wherever they appear in text
+   */
+  redact(text: string): string {
+    return [this.password, this.username]
+      .filter(Boolean)
+      .reduce((result, secret) => result.replaceAll(secret, REDACTED), text);
+  }
+
+  /**
+   * Redacts credentials from structured findings (e.g. element HTML)
+   */
+  redactFindings<T extends PageFindings | PageFindings[] | undefined>(
+    findings: T,
+  ): T {
+    if (findings === undefined) {
+      return findings;
+    }
+
+    // Secrets appear JSON-escaped inside the serialized findings
+    const json = [this.password, this.username]
+      .filter(Boolean)
+      .reduce(
+        (result, secret) =>
+          result.replaceAll(JSON.stringify(secret).slice(1, -1), REDACTED),
+        JSON.stringify(findings),
+      );
+    return JSON.parse(json) as T;
+  }
+
+  private async runLogin(signal?: AbortSignal): Promise<void> {
+    const recipe = this.recipe;
+    const tools = await this.mcpClient.getTools();
+
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const tool: McpTool | undefined = tools.find((t) => t.name === name);
+      if (!tool) {
+        throw new Error(`the MCP server has no ${name} tool`);
+      }
+      return toolText(await tool.invoke(args, { signal }));
+    };
+
+    try {
+      await call("browser_navigate", { url: recipe.loginUrl });
+      const loginPage = await call("browser_snapshot", {});
+
+      await call("browser_fill_form", {
+        fields: [
+          {
+            name: "Username",
+            type: "textbox",
+            ref: findElementRef(loginPage, recipe.usernameSelector),
+            value: this.username,
+          },
+          {
+            name: "Password",
+            type: "textbox",
+            ref: findElementRef(loginPage, recipe.passwordSelector),
+            value: this.password,
+          },
+        ],
+      });
+      await call("browser_click", {
+        element: "Login form submit button",
+        ref: findElementRef(loginPage, recipe.submitSelector),
+      });
+
+      const { text, urlIncludes } = recipe.successCheck;
+      if (text) {
+        await call("browser_wait_for", { text });
+      }
+
+      const landingPage = await call("browser_snapshot", {});
+      const missing = [text, urlIncludes].find(
+        (expected) => expected && !landingPage.includes(expected),
+      );
+      if (missing) {
+        throw new Error(`"${missing}" not found after submitting the form`);
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Login failed: ${this.redact(message)}`);
+    }
+  }
+}
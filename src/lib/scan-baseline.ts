@@ -0,0 +1,229 @@
+/**
+ * Scan Baseline - Checked-in list of known violations, so CI can fail only on
+ * issues a change introduces
+ */
+
+import { normalizePageUrl, normalizeSelector } from "./comparison-engine";
+import { type ExportSource, toExportScan } from "./export-source";
+import type { Violation } from "./findings-types";
+import type { ViolationSeverity } from "./history-types";
+
+export const BASELINE_VERSION = 1;
+
+/** A known violation, stored with enough detail to review it in a diff */
+export interface BaselineEntry {
+  /** fingerprintBaselineViolation() of the violation (rule|selector|path) */
+  fingerprint: string;
+  ruleId: string;
+  impact: ViolationSeverity;
+  description: string;
+  wcagCriteria: string[];
+  selectors: string[];
+  pageUrl: string;
+}
+
+export interface ScanBaseline {
+  version: typeof BASELINE_VERSION;
+  /** URL the baseline scan started from */
+  url: string;
+  /** ISO 8601 timestamp of the scan the baseline was last updated from */
+  updatedAt: string;
+  /** Known violations, sorted by fingerprint */
+  violations: BaselineEntry[];
+}
+
+export interface BaselineEvaluation {
+  /** Violations not in the baseline */
+  introduced: Violation[];
+  /** Violations in the baseline (current scan's version) */
+  suppressed: Violation[];
+  /** Baseline violations no longer found */
+  fixed: Violation[];
+}
+
+const SEVERITIES: ViolationSeverity[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+/**
+ * Normalizes a page URL to its path and query, so a baseline recorded on one
+ * host also applies to preview and staging deployments of the same site
+ * @param url Page URL
+ * @returns Normalized path, e.g. "/checkout?step=2"
+ */
+export function normalizePagePath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, "") || "/";
+    return `${path}${parsed.search}`;
+  } catch {
+    return normalizePageUrl(url);
+  }
+}
+
+/**
+ * Builds the baseline identifier of a violation (rule + selector + page
+ * path). Unlike fingerprintViolation() it ignores the origin
+ * @param violation Violation to fingerprint
+ * @returns Fingerprint string
+ */
+export function fingerprintBaselineViolation(violation: Violation): string {
+  const selector = violation.selectors.map(normalizeSelector).join(" >>> ");
+  return [
+    violation.ruleId,
+    selector,
+    normalizePagePath(violation.pageUrl),
+  ].join("|");
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Validates a parsed baseline file
+ * @param value Parsed JSON
+ * @returns Error message, or null when the baseline is valid
+ */
+export function validateBaseline(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) {
+    return "Baseline must be a JSON object";
+  }
+
+  const baseline = value as Partial<ScanBaseline>;
+  if (baseline.version !== BASELINE_VERSION) {
+    return `Unsupported baseline version. Expected ${BASELINE_VERSION}`;
+  }
+  if (
+    typeof baseline.url !== "string" ||
+    typeof baseline.updatedAt !== "string"
+  ) {
+    return "Baseline must have a 'url' and an 'updatedAt' timestamp";
+  }
+  if (!Array.isArray(baseline.violations)) {
+    return "Baseline must have a 'violations' array";
+  }
+
+  const index = baseline.violations.findIndex(
+    (entry: Partial<BaselineEntry>) =>
+      typeof entry?.fingerprint !== "string" ||
+      typeof entry.ruleId !== "string" ||
+      typeof entry.pageUrl !== "string" ||
+      !SEVERITIES.includes(entry.impact as ViolationSeverity) ||
+      !isStringArray(entry.selectors),
+  );
+  if (index !== -1) {
+    return `baseline.violations[${index}] must have a fingerprint, ruleId, impact, selectors and pageUrl`;
+  }
+
+  return null;
+}
+
+function toBaselineEntry(violation: Violation): BaselineEntry {
+  return {
+    fingerprint: fingerprintBaselineViolation(violation),
+    ruleId: violation.ruleId,
+    impact: violation.impact,
+    description: violation.description,
+    wcagCriteria: violation.wcagCriteria,
+    selectors: violation.selectors,
+    pageUrl: violation.pageUrl,
+  };
+}
+
+function toViolation(entry: BaselineEntry): Violation {
+  return {
+    ruleId: entry.ruleId,
+    description: entry.description ?? "",
+    wcagCriteria: entry.wcagCriteria ?? [],
+    impact: entry.impact,
+    selectors: entry.selectors,
+    html: "",
+    pageUrl: entry.pageUrl,
+  };
+}
+
+function failedPagePaths(source: ExportSource): Set<string> {
+  return new Set(
+    toExportScan(source).failedPages.map((page) => normalizePagePath(page.url)),
+  );
+}
+
+/**
+ * Builds a baseline from a scan. When a previous baseline is given, its
+ * entries for pages that could not be scanned this time are kept, so a
+ * flaky page does not drop its known issues
+ * @param source Scan to accept as the new baseline
+ * @param previous Baseline being replaced, if any
+ */
+export function createBaseline(
+  source: ExportSource,
+  previous?: ScanBaseline,
+): ScanBaseline {
+  const scan = toExportScan(source);
+  const unscanned = failedPagePaths(source);
+  const kept = (previous?.violations ?? []).filter((entry) =>
+    unscanned.has(normalizePagePath(entry.pageUrl)),
+  );
+
+  const violations = [
+    ...scan.findings.flatMap((page) => page.violations.map(toBaselineEntry)),
+    ...kept,
+  ].sort((a, b) => a.fingerprint.localeCompare(b.fingerprint));
+
+  return {
+    version: BASELINE_VERSION,
+    url: scan.url,
+    updatedAt: scan.timestamp,
+    violations,
+  };
+}
+
+/**
+ * Compares a scan with a baseline: violations whose fingerprint it already
+ * lists are suppressed, the rest are regressions. Pages are matched by path,
+ * so the baseline of one host can gate another. Duplicate fingerprints are
+ * matched one-to-one. Baseline entries for pages that could not be scanned
+ * are left out rather than reported as fixed
+ * @param baseline Known violations
+ * @param source Current scan
+ */
+export function evaluateBaseline(
+  baseline: ScanBaseline,
+  source: ExportSource,
+): BaselineEvaluation {
+  const unscanned = failedPagePaths(source);
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.violations) {
+    if (unscanned.has(normalizePagePath(entry.pageUrl))) {
+      continue;
+    }
+
+    const bucket = remaining.get(entry.fingerprint) ?? [];
+    bucket.push(entry);
+    remaining.set(entry.fingerprint, bucket);
+  }
+
+  const introduced: Violation[] = [];
+  const suppressed: Violation[] = [];
+  for (const page of toExportScan(source).findings) {
+    for (const violation of page.violations) {
+      const bucket = remaining.get(fingerprintBaselineViolation(violation));
+      if (bucket && bucket.length > 0) {
+        bucket.shift();
+        suppressed.push(violation);
+      } else {
+        introduced.push(violation);
+      }
+    }
+  }
+
+  const fixed = Array.from(remaining.values()).flat().map(toViolation);
+
+  return { introduced, suppressed, fixed };
+}
@@ -0,0 +1,445 @@
+/**
+ * Scan CLI - Argument parsing, pass/fail gate and summary for the a11y-scan
+ * command, kept free of I/O so it can be tested without running a scan
+ */
+
+import { parseArgs } from "node:util";
+import { CRAWL_LIMITS } from "@/lib/crawl-utils";
+import type { ExportSource } from "@/lib/export-source";
+import type { Violation } from "@/lib/findings-types";
+import type { ViolationSeverity } from "@/lib/history-types";
+import {
+  isViolationSeverity,
+  JUNIT_DEFAULT_FAIL_ON,
+  summarizeJUnit,
+} from "@/lib/junit-exporter";
+import { evaluateBaseline, type ScanBaseline } from "@/lib/scan-baseline";
+import {
+  isScanExportFormat,
+  SCAN_EXPORT_FORMATS,
+  type ScanExportFormat,
+} from "@/lib/scan-exporters";
+import type {
+  CrawlOptions,
+  ScanMode,
+  ScanRequest,
+  ScanResponse,
+} from "@/lib/types";
+
+/** Exit codes: the gate passed, the gate failed, or the scan did not run */
+export const CLI_EXIT_CODES = {
+  passed: 0,
+  failed: 1,
+  error: 2,
+} as const;
+
+export const CLI_USAGE = `Usage: a11y-scan <url...> [options]
+
+Scans pages for accessibility violations, writes report files and exits
+non-zero when the findings exceed the thresholds.
+
+Options:
+  --mode <mode>            single (default), exploration, list or journey;
+                           several URLs default to list
+  --request <file>         JSON scan request (crawl, options, authentication,
+                           browser, journey); flags override its url and mode
+  --max-pages <n>          Exploration: pages to scan
+  --max-depth <n>          Exploration: link hops from the start page
+  --discovery <strategy>   Exploration: agent (default) or sitemap
+  --waivers <file>         JSON array of waiver rules; waived violations are
+                           left out of the counts and the gate
+  --format <format>        Extra report format, repeatable: ${SCAN_EXPORT_FORMATS.join(", ")}
+  --out-dir <dir>          Where report files are written (default a11y-report)
+  --fail-on <severity>     Least severe impact that fails the gate: critical,
+                           serious, moderate or minor (default ${JUNIT_DEFAULT_FAIL_ON})
+  --max-violations <n>     Failing violations allowed before the gate fails
+                           (default 0)
+  --allow-failed-pages     Pass the gate even if some pages could not be scanned
+  --baseline <file>        Known violations (JSON); only new ones count
+                           towards the thresholds
+  --update-baseline        Write this scan's violations to the --baseline file
+                           (creating it if needed) and exit 0
+  -h, --help               Show this help
+
+Exit codes: 0 passed, 1 thresholds exceeded, 2 invalid arguments or scan error`;
+
+export interface ScanCliOptions {
+  /** Request built from the flags; merged over the --request file */
+  request: Partial<ScanRequest>;
+  /** Path of a JSON scan request */
+  requestFile?: string;
+  /** Path of a JSON array of waiver rules */
+  waiversFile?: string;
+  formats: ScanExportFormat[];
+  outDir: string;
+  failOn: ViolationSeverity;
+  maxViolations: number;
+  allowFailedPages: boolean;
+  /** Path of the baseline file */
+  baselineFile?: string;
+  updateBaseline: boolean;
+}
+
+export type ParsedCliArgs =
+  | { help: true }
+  | { help: false; options: ScanCliOptions }
+  | { error: string };
+
+const CLI_MODES: ScanMode[] = ["single", "exploration", "list", "journey"];
+
+function parseCount(
+  value: string | undefined,
+  flag: string,
+  min: number,
+  max?: number,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  const inRange =
+    Number.isInteger(count) &&
+    count >= min &&
+    (max === undefined || count <= max);
+  if (!inRange) {
+    throw new Error(
+      max === undefined
+        ? `${flag} must be an integer of at least ${min}`
+        : `${flag} must be an integer between ${min} and ${max}`,
+    );
+  }
+  return count;
+}
+
+/**
+ * Parses the a11y-scan command line
+ * @param args Arguments after the script name
+ * @returns Options, a help request, or an error message
+ */
+export function parseScanCliArgs(args: string[]): ParsedCliArgs {
+  try {
+    return parseOrThrow(args);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function parseOrThrow(args: string[]): ParsedCliArgs {
+  const { values, positionals } = parseCliFlags(args);
+  if (values.help) {
+    return { help: true };
+  }
+
+  if (positionals.length === 0 && !values.request) {
+    throw new Error("Pass at least one URL or a --request file");
+  }
+
+  const mode = values.mode ?? (positionals.length > 1 ? "list" : undefined);
+  if (mode !== undefined && !CLI_MODES.includes(mode as ScanMode)) {
+    throw new Error(
+      "--mode must be 'single', 'exploration', 'list' or 'journey'",
+    );
+  }
+  if (positionals.length > 1 && mode !== "list") {
+    throw new Error("Several URLs can only be scanned in list mode");
+  }
+
+  const failOn = values["fail-on"] ?? JUNIT_DEFAULT_FAIL_ON;
+  if (!isViolationSeverity(failOn)) {
+    throw new Error(
+      "--fail-on must be 'critical', 'serious', 'moderate' or 'minor'",
+    );
+  }
+
+  const formats = values.format ?? [];
+  const unknownFormat = formats.find((format) => !isScanExportFormat(format));
+  if (unknownFormat !== undefined) {
+    throw new Error(
+      `Unknown --format '${unknownFormat}'. Must be one of: ${SCAN_EXPORT_FORMATS.join(", ")}`,
+    );
+  }
+
+  if (values["update-baseline"] && !values.baseline) {
+    throw new Error("--update-baseline needs --baseline <file>");
+  }
+
+  const discovery = values.discovery;
+  if (
+    discovery !== undefined &&
+    discovery !== "agent" &&
+    discovery !== "sitemap"
+  ) {
+    throw new Error("--discovery must be 'agent' or 'sitemap'");
+  }
+
+  const request: Partial<ScanRequest> = {};
+  if (positionals.length > 0) {
+    request.url = positionals[0];
+  }
+  if (mode) {
+    request.mode = mode as ScanMode;
+  }
+  if (mode === "list") {
+    request.urls = positionals;
+  }
+
+  const crawl: CrawlOptions = {};
+  // Same bounds as validateCrawlOptions, so bad values fail before any
+  // request file is read
+  const maxPages = parseCount(
+    values["max-pages"],
+    "--max-pages",
+    1,
+    CRAWL_LIMITS.maxPages,
+  );
+  const maxDepth = parseCount(
+    values["max-depth"],
+    "--max-depth",
+    1,
+    CRAWL_LIMITS.maxDepth,
+  );
+  if (maxPages !== undefined) {
+    crawl.maxPages = maxPages;
+  }
+  if (maxDepth !== undefined) {
+    crawl.maxDepth = maxDepth;
+  }
+  if (Object.keys(crawl).length > 0) {
+    request.crawl = crawl;
+  }
+  if (discovery) {
+    request.discoveryStrategy = discovery;
+  }
+
+  return {
+    help: false,
+    options: {
+      request,
+      requestFile: values.request,
+      waiversFile: values.waivers,
+      formats: [...new Set(formats as ScanExportFormat[])],
+      outDir: values["out-dir"] ?? "a11y-report",
+      failOn,
+      maxViolations:
+        parseCount(values["max-violations"], "--max-violations", 0) ?? 0,
+      allowFailedPages: values["allow-failed-pages"] ?? false,
+      baselineFile: values.baseline,
+      updateBaseline: values["update-baseline"] ?? false,
+    },
+  };
+}
+
+function parseCliFlags(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string" },
+      request: { type: "string" },
+      "max-pages": { type: "string" },
+      "max-depth": { type: "string" },
+      discovery: { type: "string" },
+      waivers: { type: "string" },
+      format: { type: "string", multiple: true },
+      "out-dir": { type: "string" },
+      "fail-on": { type: "string" },
+      "max-violations": { type: "string" },
+      "allow-failed-pages": { type: "boolean" },
+      baseline: { type: "string" },
+      "update-baseline": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/**
+ * Combines a --request file with the flags; flags win, and a file's crawl
+ * settings are kept unless a crawl flag replaces them
+ * @param fileRequest Parsed --request file, if any
+ * @param flags Request built from the flags
+ */
+export function mergeCliRequest(
+  fileRequest: Partial<ScanRequest> | undefined,
+  flags: Partial<ScanRequest>,
+): Partial<ScanRequest> {
+  const merged: Partial<ScanRequest> = {
+    mode: "single",
+    ...fileRequest,
+    ...flags,
+  };
+
+  if (fileRequest?.crawl && flags.crawl) {
+    merged.crawl = { ...fileRequest.crawl, ...flags.crawl };
+  }
+
+  return merged;
+}
+
+export interface ScanGateResult {
+  passed: boolean;
+  /** Violations at or above the fail-on severity */
+  failures: number;
+  /** Pages that could not be scanned */
+  failedPages: number;
+  /** Why the gate failed; empty when it passed */
+  reasons: string[];
+  /** Set when the scan was compared with a baseline */
+  baseline?: {
+    /** Violations not in the baseline */
+    introduced: Violation[];
+    /** Known violations found again */
+    suppressed: number;
+    /** Known violations no longer found */
+    fixed: number;
+  };
+}
+
+/**
+ * Checks that the gate can see every violation: completed pages must have
+ * structured findings, and a record's findings must account for all the
+ * violations its metadata counts (e.g. parsed from the report)
+ * @returns Reason to fail the gate, or null when the findings are complete
+ */
+function describeMissingFindings(source: ExportSource): string | null {
+  if ("pageScanResults" in source) {
+    const missing = source.pageScanResults.filter(
+      (page) =>
+        page.status !== "failed" &&
+        page.status !== "timed_out" &&
+        !page.findings,
+    );
+    return missing.length > 0
+      ? `${missing.length} scanned page(s) have no structured findings to check`
+      : null;
+  }
+
+  const itemized = (source.findings ?? []).reduce(
+    (sum, page) => sum + page.violations.length,
+    0,
+  );
+  const unitemized = source.metadata.totalViolations - itemized;
+  return unitemized > 0
+    ? `${unitemized} reported violation(s) have no structured findings to check`
+    : null;
+}
+
+/**
+ * Decides whether a scan passes the CLI thresholds. With a baseline only
+ * violations it does not list count (regressions-only gating). Violations
+ * the gate cannot inspect fail it rather than passing unchecked
+ * @param source Scan to check
+ * @param options Severity threshold, allowed failures and failed-page policy
+ * @param baseline Known violations, if any
+ */
+export function evaluateScanGate(
+  source: ExportSource,
+  options: Pick<
+    ScanCliOptions,
+    "failOn" | "maxViolations" | "allowFailedPages"
+  >,
+  baseline?: ScanBaseline,
+): ScanGateResult {
+  const { failures, errors } = summarizeJUnit(source, {
+    failOn: options.failOn,
+    baseline,
+  });
+  const reasons: string[] = [];
+
+  if (failures > options.maxViolations) {
+    reasons.push(
+      `${failures} ${baseline ? "new " : ""}${options.failOn}-or-worse violation(s) found, ${options.maxViolations} allowed`,
+    );
+  }
+  if (errors > 0 && !options.allowFailedPages) {
+    reasons.push(`${errors} page(s) could not be scanned`);
+  }
+
+  const missingFindings = describeMissingFindings(source);
+  if (missingFindings) {
+    reasons.push(missingFindings);
+  }
+
+  const result: ScanGateResult = {
+    passed: reasons.length === 0,
+    failures,
+    failedPages: errors,
+    reasons,
+  };
+
+  if (baseline) {
+    const { introduced, suppressed, fixed } = evaluateBaseline(
+      baseline,
+      source,
+    );
+    result.baseline = {
+      introduced,
+      suppressed: suppressed.length,
+      fixed: fixed.length,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Formats the summary printed when a CLI scan finishes
+ * @param url Scanned URL
+ * @param response Scan response
+ * @param gate Gate outcome
+ * @param files Report files written
+ */
+export function formatScanSummary(
+  url: string,
+  response: ScanResponse,
+  gate: ScanGateResult,
+  files: string[],
+): string {
+  const metadata = response.metadata;
+  const severity = metadata?.violationsBySeverity;
+  const usage = metadata?.usage;
+
+  const lines = [
+    `Accessibility scan of ${url}`,
+    `  Pages scanned:  ${metadata?.pagesScanned ?? 1}`,
+    `  Violations:     ${metadata?.totalViolations ?? 0}`,
+  ];
+  if (severity) {
+    lines.push(
+      `  By severity:    ${severity.critical} critical, ${severity.serious} serious, ${severity.moderate} moderate, ${severity.minor} minor`,
+    );
+  }
+  if (metadata?.wcagLevel) {
+    lines.push(`  WCAG level:     ${metadata.wcagLevel}`);
+  }
+  for (const page of metadata?.failedPages ?? []) {
+    lines.push(`  Not scanned:    ${page.url} (${page.error})`);
+  }
+  if (usage) {
+    const cost =
+      usage.estimatedCostUsd !== undefined
+        ? ` (~$${usage.estimatedCostUsd.toFixed(2)})`
+        : "";
+    lines.push(`  Tokens:         ${usage.totalTokens}${cost}`);
+  }
+  if (gate.baseline) {
+    const { introduced, suppressed, fixed } = gate.baseline;
+    lines.push(
+      `  Baseline:       ${introduced.length} new, ${suppressed} known, ${fixed} fixed`,
+    );
+    for (const violation of introduced) {
+      lines.push(
+        `    + [${violation.impact}] ${violation.ruleId} ${violation.selectors.join(" >>> ")} (${violation.pageUrl})`,
+      );
+    }
+  }
+
+  lines.push("", "Reports:", ...files.map((file) => `  ${file}`), "");
+  lines.push(
+    gate.passed
+      ? "PASSED"
+      : ["FAILED", ...gate.reasons.map((reason) => `  - ${reason}`)].join("\n"),
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,155 @@
+/**
+ * Scan progress events - SSE encoding and client-side progress state
+ */
+
+import type { PageScanStatus } from "@/lib/multi-agent-types";
+import type { ScanProgressEvent, ScanResponse } from "@/lib/types";
+
+/** Client-side view of a running scan, derived from progress events */
+export interface ScanProgressState {
+  currentPage?: string;
+  pagesScanned: number;
+  totalPages?: number;
+  status: "scanning" | "processing" | "complete";
+  /** Pages that finished scanning, with their violation counts */
+  completedPages: Array<{
+    url: string;
+    violations: number;
+    status?: PageScanStatus;
+  }>;
+}
+
+export const INITIAL_SCAN_PROGRESS: ScanProgressState = {
+  currentPage: undefined,
+  pagesScanned: 0,
+  totalPages: undefined,
+  status: "scanning",
+  completedPages: [],
+};
+
+/**
+ * Applies a progress event to the client-side progress state
+ * @param state Current progress
+ * @param event Event received from the server
+ * @returns Updated progress
+ */
+export function applyScanProgressEvent(
+  state: ScanProgressState,
+  event: ScanProgressEvent,
+): ScanProgressState {
+  switch (event.type) {
+    case "discovery_complete":
+      return { ...state, totalPages: event.totalPages };
+    case "page_scan_started":
+      return {
+        ...state,
+        currentPage: event.url,
+        totalPages: state.totalPages ?? event.totalPages,
+      };
+    case "page_scan_finished":
+      return {
+        ...state,
+        currentPage:
+          state.currentPage === event.url ? undefined : state.currentPage,
+        pagesScanned: state.pagesScanned + 1,
+        completedPages: [
+          ...state.completedPages,
+          {
+            url: event.url,
+            violations: event.violations,
+            status: event.status,
+          },
+        ],
+      };
+    case "summarizer_started":
+      return { ...state, currentPage: undefined, status: "processing" };
+    case "report":
+      return { ...state, currentPage: undefined, status: "complete" };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Serializes a progress event as an SSE message
+ * @param event Progress event
+ * @returns SSE message text (terminated by a blank line)
+ */
+export function encodeSseEvent(event: ScanProgressEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parses complete SSE messages from a buffer
+ * @param buffer Text received so far
+ * @returns Parsed events and any incomplete trailing text
+ */
+export function parseSseEvents(buffer: string): {
+  events: ScanProgressEvent[];
+  remainder: string;
+} {
+  const normalized = buffer.replace(/\r\n/g, "\n");
+  const messages = normalized.split("\n\n");
+  const remainder = messages.pop() ?? "";
+  const events: ScanProgressEvent[] = [];
+
+  for (const message of messages) {
+    const data = message
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+
+    if (!data) continue;
+
+    try {
+      events.push(JSON.parse(data) as ScanProgressEvent);
+    } catch {
+      console.warn("[ScanEvents] Ignoring malformed event:", data);
+    }
+  }
+
+  return { events, remainder };
+}
+
+/**
+ * Reads a streaming scan response and forwards each event, for API clients
+ * of the stream route (the web UI polls scan jobs instead)
+ * @param response Response from POST /api/scan/stream
+ * @param onEvent Called for every event in arrival order
+ * @returns The final report; rejects if the server reported an error
+ */
+export async function readScanEventStream(
+  response: Response,
+  onEvent: (event: ScanProgressEvent) => void,
+): Promise<ScanResponse> {
+  if (!response.body) {
+    throw new Error("Scan stream has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const { events, remainder } = parseSseEvents(buffer);
+    buffer = remainder;
+    for (const event of events) {
+      onEvent(event);
+
+      if (event.type === "report") {
+        return event.response;
+      }
+      if (event.type === "error") {
+        throw new Error(event.error);
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error("Scan ended without a report");
+}
@@ -0,0 +1,75 @@
+/**
+ * Scan Exporters - File formats a scan can be exported to, shared by the
+ * history sidebar and /api/export/[format]
+ */
+
+import { type ExportSource, toExportScan } from "./export-source";
+import { type JUnitOptions, toJUnitXml } from "./junit-exporter";
+import { type SarifOptions, toSarifLog } from "./sarif-exporter";
+
+export type ScanExportFormat = "sarif" | "junit";
+
+/** Options for formats that support them; others ignore them */
+export type ScanExportOptions = JUnitOptions & SarifOptions;
+
+export interface ScanExporter {
+  /** Button label in the history sidebar */
+  label: string;
+  contentType: string;
+  extension: string;
+  serialize: (source: ExportSource, options: ScanExportOptions) => string;
+}
+
+export const SCAN_EXPORTERS: Record<ScanExportFormat, ScanExporter> = {
+  sarif: {
+    label: "SARIF",
+    contentType: "application/sarif+json",
+    extension: "sarif",
+    serialize: (source, options) =>
+      JSON.stringify(toSarifLog(source, options), null, 2),
+  },
+  junit: {
+    label: "JUnit",
+    contentType: "application/xml",
+    extension: "xml",
+    serialize: (source, options) => toJUnitXml(source, options),
+  },
+};
+
+export const SCAN_EXPORT_FORMATS = Object.keys(
+  SCAN_EXPORTERS,
+) as ScanExportFormat[];
+
+export function isScanExportFormat(value: string): value is ScanExportFormat {
+  return (SCAN_EXPORT_FORMATS as string[]).includes(value);
+}
+
+export interface ScanExport {
+  content: string;
+  contentType: string;
+  /** e.g. a11y-example.com-2025-01-31.sarif */
+  fileName: string;
+}
+
+/**
+ * Serializes a scan in the given format
+ * @param source History record or multi-agent scan result
+ * @param format Export format
+ * @param options Format options, e.g. the JUnit failure threshold or a
+ * baseline
+ */
+export function exportScan(
+  source: ExportSource,
+  format: ScanExportFormat,
+  options: ScanExportOptions = {},
+): ScanExport {
+  const exporter = SCAN_EXPORTERS[format];
+  const { url, timestamp } = toExportScan(source);
+  const host = URL.canParse(url) ? new URL(url).hostname : "scan";
+
+  return {
+    content: exporter.serialize(source, options),
+    contentType: exporter.contentType,
+    fileName: `a11y-${host}-${timestamp.split("T")[0]}.${exporter.extension}`,
+  };
+}
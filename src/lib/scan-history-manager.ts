@@ -1,77 +1,100 @@
 /**
- * ScanHistoryManager - Manages scan history in localStorage
- * Handles CRUD operations, quota management, and LRU eviction
+ * ScanHistoryManager - Manages scan history in browser storage
+ * Handles CRUD operations, quota management, and LRU eviction on top of a
+ * HistoryStorageBackend (IndexedDB by default)
  */
 
+import {
+  createDefaultHistoryBackend,
+  HISTORY_SCHEMA_VERSION,
+  type HistoryStorageBackend,
+} from "./history-storage";
 import type {
   HistoryFilter,
+  NewScanRecord,
   ScanHistory,
   ScanRecord,
   StorageQuota,
   StorageResult,
 } from "./history-types";
 import {
+  createScanRecord,
   estimateObjectSize,
-  generateScanId,
-  parseReportMetadata,
   sanitizeLabel,
 } from "./history-utils";
 
-/** localStorage key for scan history */
-const STORAGE_KEY = "accessibility_scan_history";
-
 /** Current schema version */
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = HISTORY_SCHEMA_VERSION;
 
-/** Maximum number of scans to keep (LRU eviction) */
-const MAX_SCANS = 50;
+/** Warning threshold (80% of the backend's limit) */
+const WARNING_RATIO = 0.8;
 
-/** localStorage size limit (conservative estimate: 5MB) */
-const STORAGE_LIMIT_BYTES = 5 * 1024 * 1024;
+function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
 
-/** Warning threshold (80% of limit) */
-const WARNING_THRESHOLD = STORAGE_LIMIT_BYTES * 0.8;
+function capacityWarning(
+  size: number,
+  backend: HistoryStorageBackend,
+): StorageResult<void> {
+  if (size > backend.limitBytes * WARNING_RATIO) {
+    return {
+      success: true,
+      warning: `Storage is at ${Math.round((size / backend.limitBytes) * 100)}% capacity`,
+    };
+  }
 
-/** Auto-prune threshold (95% of limit) */
-const PRUNE_THRESHOLD = STORAGE_LIMIT_BYTES * 0.95;
+  return { success: true };
+}
 
 /**
  * ScanHistoryManager class for managing scan history
  */
 export class ScanHistoryManager {
+  private static backendPromise: Promise<HistoryStorageBackend> | null = null;
+
   /**
-   * Checks if localStorage is available and functional
+   * Resolves the storage backend, picking (and migrating to) the default one
+   * on first use
    */
-  private static isStorageAvailable(): boolean {
-    try {
-      const testKey = "__storage_test__";
-      localStorage.setItem(testKey, "test");
-      localStorage.removeItem(testKey);
-      return true;
-    } catch {
-      return false;
+  private static getBackend(): Promise<HistoryStorageBackend> {
+    if (!ScanHistoryManager.backendPromise) {
+      ScanHistoryManager.backendPromise = createDefaultHistoryBackend();
     }
+    return ScanHistoryManager.backendPromise;
+  }
+
+  /**
+   * Replaces the storage backend (tests, or callers that manage storage)
+   */
+  static useBackend(backend: HistoryStorageBackend): void {
+    ScanHistoryManager.backendPromise = Promise.resolve(backend);
   }
 
   /**
    * Gets the current storage quota information
    */
-  static getQuota(): StorageQuota {
+  static async getQuota(): Promise<StorageQuota> {
+    const backend = await ScanHistoryManager.getBackend();
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       const used = estimateObjectSize(history);
-      const percentageUsed = (used / STORAGE_LIMIT_BYTES) * 100;
+      const percentageUsed = (used / backend.limitBytes) * 100;
 
       return {
         used,
-        limit: STORAGE_LIMIT_BYTES,
+        limit: backend.limitBytes,
         percentageUsed: Math.min(percentageUsed, 100),
         scanCount: history.scans.length,
       };
     } catch {
       return {
         used: 0,
-        limit: STORAGE_LIMIT_BYTES,
+        limit: backend.limitBytes,
         percentageUsed: 0,
         scanCount: 0,
       };
@@ -79,22 +102,18 @@ export class ScanHistoryManager {
   }
 
   /**
-   * Loads scan history from localStorage
+   * Loads scan history from the storage backend
+   * Read failures are rethrown rather than treated as an empty history, so a
+   * following save cannot overwrite the scans that could not be read
    */
-  private static loadHistory(): ScanHistory {
-    if (!this.isStorageAvailable()) {
-      console.warn("[ScanHistory] localStorage not available");
-      return this.createEmptyHistory();
-    }
-
+  private static async loadHistory(): Promise<ScanHistory> {
     try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      if (!data) {
-        return this.createEmptyHistory();
+      const backend = await ScanHistoryManager.getBackend();
+      const parsed = await backend.read();
+      if (!parsed) {
+        return ScanHistoryManager.createEmptyHistory();
       }
 
-      const parsed = JSON.parse(data) as ScanHistory;
-
       // Validate structure
       if (
         !parsed ||
@@ -102,78 +121,65 @@ export class ScanHistoryManager {
         !Array.isArray(parsed.scans)
       ) {
         console.error("[ScanHistory] Invalid data structure, resetting");
-        return this.createEmptyHistory();
+        return ScanHistoryManager.createEmptyHistory();
       }
 
       // Handle schema migrations
       if (parsed.version !== SCHEMA_VERSION) {
-        return this.migrateSchema(parsed);
+        return ScanHistoryManager.migrateSchema(parsed);
       }
 
       return parsed;
     } catch (error) {
       console.error("[ScanHistory] Failed to load history:", error);
-      return this.createEmptyHistory();
+      throw new Error(
+        `Could not read scan history: ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
   }
 
   /**
-   * Saves scan history to localStorage
+   * Saves scan history to the storage backend
    */
-  private static saveHistory(history: ScanHistory): StorageResult<void> {
-    if (!this.isStorageAvailable()) {
-      return {
-        success: false,
-        error: "localStorage is not available (private browsing mode?)",
-      };
-    }
+  private static async saveHistory(
+    history: ScanHistory,
+  ): Promise<StorageResult<void>> {
+    const backend = await ScanHistoryManager.getBackend();
 
     try {
-      const serialized = JSON.stringify(history);
-      const size = serialized.length * 2; // Approximate bytes
+      const size = estimateObjectSize(history);
 
       // Check quota
-      if (size > STORAGE_LIMIT_BYTES) {
+      if (size > backend.limitBytes) {
         // Try to prune old scans
-        const pruned = this.pruneOldScans(history);
+        const pruned = ScanHistoryManager.pruneOldScans(history);
         const prunedSize = estimateObjectSize(pruned);
 
-        if (prunedSize > STORAGE_LIMIT_BYTES) {
+        if (prunedSize > backend.limitBytes) {
           return {
             success: false,
             error: "Storage quota exceeded even after pruning",
           };
         }
 
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(pruned));
+        await backend.write(pruned);
         return {
           success: true,
           warning: "Storage was near capacity. Oldest scans were removed.",
         };
       }
 
-      localStorage.setItem(STORAGE_KEY, serialized);
+      await backend.write(history);
 
       // Check if approaching quota
-      if (size > WARNING_THRESHOLD) {
-        return {
-          success: true,
-          warning: `Storage is at ${Math.round((size / STORAGE_LIMIT_BYTES) * 100)}% capacity`,
-        };
-      }
-
-      return { success: true };
+      return capacityWarning(size, backend);
     } catch (error) {
       // Handle QuotaExceededError
-      if (
-        error instanceof DOMException &&
-        (error.name === "QuotaExceededError" ||
-          error.name === "NS_ERROR_DOM_QUOTA_REACHED")
-      ) {
+      if (isQuotaExceeded(error)) {
         // Try aggressive pruning
         try {
-          const pruned = this.pruneOldScans(history, 0.5); // Remove 50% of scans
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(pruned));
+          const pruned = ScanHistoryManager.pruneOldScans(history, 0.5); // Remove 50% of scans
+          await backend.write(pruned);
           return {
             success: true,
             warning: "Storage quota exceeded. Removed 50% of oldest scans.",
@@ -194,6 +200,40 @@ export class ScanHistoryManager {
     }
   }
 
+  /**
+   * Stores one new or changed scan without rewriting the rest of the
+   * history. Falls back to saveHistory() when the history has to be pruned
+   * to fit
+   * @param history History as it will be once the scan is stored
+   * @param scan Scan to store
+   */
+  private static async saveScan(
+    history: ScanHistory,
+    scan: ScanRecord,
+  ): Promise<StorageResult<void>> {
+    const backend = await ScanHistoryManager.getBackend();
+    const size = estimateObjectSize(history);
+    if (size > backend.limitBytes) {
+      return ScanHistoryManager.saveHistory(history);
+    }
+
+    try {
+      await backend.put(scan);
+    } catch (error) {
+      if (isQuotaExceeded(error)) {
+        return ScanHistoryManager.saveHistory(history);
+      }
+
+      console.error("[ScanHistory] Failed to save scan:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    return capacityWarning(size, backend);
+  }
+
   /**
    * Creates an empty history object
    */
@@ -250,9 +290,9 @@ export class ScanHistoryManager {
   /**
    * Retrieves all scan records
    */
-  static getAll(): StorageResult<ScanRecord[]> {
+  static async getAll(): Promise<StorageResult<ScanRecord[]>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       return {
         success: true,
         data: history.scans,
@@ -268,9 +308,9 @@ export class ScanHistoryManager {
   /**
    * Retrieves a scan by ID
    */
-  static getById(id: string): StorageResult<ScanRecord> {
+  static async getById(id: string): Promise<StorageResult<ScanRecord>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       const scan = history.scans.find((s) => s.id === id);
 
       if (!scan) {
@@ -295,12 +335,12 @@ export class ScanHistoryManager {
   /**
    * Retrieves scans by URL (exact or partial match)
    */
-  static getByUrl(
+  static async getByUrl(
     url: string,
     exactMatch = false,
-  ): StorageResult<ScanRecord[]> {
+  ): Promise<StorageResult<ScanRecord[]>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       const scans = exactMatch
         ? history.scans.filter((s) => s.url === url)
         : history.scans.filter((s) =>
@@ -322,9 +362,11 @@ export class ScanHistoryManager {
   /**
    * Filters scans based on criteria
    */
-  static filter(criteria: HistoryFilter): StorageResult<ScanRecord[]> {
+  static async filter(
+    criteria: HistoryFilter,
+  ): Promise<StorageResult<ScanRecord[]>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       let filtered = history.scans;
 
       if (criteria.url) {
@@ -375,45 +417,36 @@ export class ScanHistoryManager {
 
   /**
    * Adds a new scan to history
+   * @param input Scan report and results; id, timestamp and metadata are
+   * derived
    */
-  static add(
-    url: string,
-    mode: "single" | "exploration",
-    report: string,
-    label?: string,
-    discoveredUrls?: string[],
-  ): StorageResult<ScanRecord> {
+  static async add(input: NewScanRecord): Promise<StorageResult<ScanRecord>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
 
       // Generate new scan record
-      const scan: ScanRecord = {
-        id: generateScanId(),
-        url,
-        mode,
-        timestamp: new Date().toISOString(),
-        report,
-        metadata: parseReportMetadata(report, mode),
-        label,
-        discoveredUrls,
-      };
+      const scan = createScanRecord(input);
 
       // Add to beginning (most recent first)
       history.scans.unshift(scan);
 
       // Enforce max scans limit
-      if (history.scans.length > MAX_SCANS) {
-        history.scans = history.scans.slice(0, MAX_SCANS);
-      }
+      const backend = await ScanHistoryManager.getBackend();
+      const evicted = history.scans.slice(backend.maxScans);
+      history.scans = history.scans.slice(0, backend.maxScans);
 
       history.lastModified = new Date().toISOString();
 
       // Save and check result
-      const saveResult = this.saveHistory(history);
+      const saveResult = await ScanHistoryManager.saveScan(history, scan);
       if (!saveResult.success) {
         return saveResult as StorageResult<ScanRecord>;
       }
 
+      for (const old of evicted) {
+        await backend.delete(old.id);
+      }
+
       return {
         success: true,
         data: scan,
@@ -430,22 +463,19 @@ export class ScanHistoryManager {
   /**
    * Deletes a scan by ID
    */
-  static delete(id: string): StorageResult<void> {
+  static async delete(id: string): Promise<StorageResult<void>> {
     try {
-      const history = this.loadHistory();
-      const index = history.scans.findIndex((s) => s.id === id);
-
-      if (index === -1) {
+      const history = await ScanHistoryManager.loadHistory();
+      if (!history.scans.some((s) => s.id === id)) {
         return {
           success: false,
           error: `Scan with ID ${id} not found`,
         };
       }
 
-      history.scans.splice(index, 1);
-      history.lastModified = new Date().toISOString();
-
-      return this.saveHistory(history);
+      const backend = await ScanHistoryManager.getBackend();
+      await backend.delete(id);
+      return { success: true };
     } catch (error) {
       return {
         success: false,
@@ -457,10 +487,10 @@ export class ScanHistoryManager {
   /**
    * Clears all scan history
    */
-  static clear(): StorageResult<void> {
+  static async clear(): Promise<StorageResult<void>> {
     try {
-      const emptyHistory = this.createEmptyHistory();
-      return this.saveHistory(emptyHistory);
+      const emptyHistory = ScanHistoryManager.createEmptyHistory();
+      return await ScanHistoryManager.saveHistory(emptyHistory);
     } catch (error) {
       return {
         success: false,
@@ -472,9 +502,12 @@ export class ScanHistoryManager {
   /**
    * Updates a scan's label
    */
-  static updateLabel(id: string, label: string): StorageResult<ScanRecord> {
+  static async updateLabel(
+    id: string,
+    label: string,
+  ): Promise<StorageResult<ScanRecord>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       const scan = history.scans.find((s) => s.id === id);
 
       if (!scan) {
@@ -488,7 +521,7 @@ export class ScanHistoryManager {
       scan.label = label ? sanitizeLabel(label) : undefined;
       history.lastModified = new Date().toISOString();
 
-      const saveResult = this.saveHistory(history);
+      const saveResult = await ScanHistoryManager.saveScan(history, scan);
       if (!saveResult.success) {
         return saveResult as StorageResult<ScanRecord>;
       }
@@ -508,9 +541,9 @@ export class ScanHistoryManager {
   /**
    * Exports history as JSON
    */
-  static exportAsJson(): StorageResult<string> {
+  static async exportAsJson(): Promise<StorageResult<string>> {
     try {
-      const history = this.loadHistory();
+      const history = await ScanHistoryManager.loadHistory();
       const json = JSON.stringify(history, null, 2);
       return {
         success: true,
@@ -527,7 +560,7 @@ export class ScanHistoryManager {
   /**
    * Imports history from JSON
    */
-  static importFromJson(json: string): StorageResult<void> {
+  static async importFromJson(json: string): Promise<StorageResult<void>> {
     try {
       const imported = JSON.parse(json) as ScanHistory;
 
@@ -547,9 +580,9 @@ export class ScanHistoryManager {
       const migrated =
         imported.version === SCHEMA_VERSION
           ? imported
-          : this.migrateSchema(imported);
+          : ScanHistoryManager.migrateSchema(imported);
 
-      return this.saveHistory(migrated);
+      return await ScanHistoryManager.saveHistory(migrated);
     } catch (error) {
       return {
         success: false,
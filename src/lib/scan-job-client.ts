@@ -0,0 +1,128 @@
+/**
+ * Scan job client - Browser helpers for the /api/scans job endpoints
+ */
+
+import {
+  applyScanProgressEvent,
+  INITIAL_SCAN_PROGRESS,
+  type ScanProgressState,
+} from "@/lib/scan-events";
+import type { ScanJob, ScanJobStatus, ScanRequest } from "@/lib/types";
+
+/** localStorage key for the job the page is currently following */
+const ACTIVE_JOB_KEY = "accessibility_active_scan_job";
+
+/** Default delay between status polls */
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+const FINISHED_STATUSES: ScanJobStatus[] = [
+  "succeeded",
+  "failed",
+  "cancelled",
+  "interrupted",
+];
+
+async function readJobResponse(response: Response): Promise<ScanJob> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Request failed (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Starts a background scan
+ * @returns The queued job
+ */
+export async function submitScanJob(request: ScanRequest): Promise<ScanJob> {
+  const response = await fetch("/api/scans", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(request),
+  });
+  return readJobResponse(response);
+}
+
+/**
+ * Fetches the latest state of a job
+ */
+export async function fetchScanJob(id: string): Promise<ScanJob> {
+  const response = await fetch(`/api/scans/${encodeURIComponent(id)}`, {
+    cache: "no-store",
+  });
+  return readJobResponse(response);
+}
+
+/**
+ * Asks the server to cancel a job
+ */
+export async function requestScanJobCancel(id: string): Promise<ScanJob> {
+  const response = await fetch(`/api/scans/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  return readJobResponse(response);
+}
+
+export function isJobFinished(job: ScanJob): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+/**
+ * Polls a job until it succeeds, fails, is cancelled or is interrupted
+ * @param id Job id
+ * @param onUpdate Called with every polled snapshot
+ * @param intervalMs Delay between polls
+ * @returns The job in its final state
+ */
+export async function waitForScanJob(
+  id: string,
+  onUpdate: (job: ScanJob) => void,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS,
+): Promise<ScanJob> {
+  while (true) {
+    const job = await fetchScanJob(id);
+    onUpdate(job);
+
+    if (isJobFinished(job)) {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Rebuilds the progress view from the events recorded on a job
+ */
+export function progressFromJob(job: ScanJob): ScanProgressState {
+  return job.events.reduce(applyScanProgressEvent, INITIAL_SCAN_PROGRESS);
+}
+
+/**
+ * Remembers the job being followed so a reload can resume it
+ */
+export function saveActiveJobId(id: string): void {
+  try {
+    localStorage.setItem(ACTIVE_JOB_KEY, id);
+  } catch {
+    // Resuming after reload is best-effort
+  }
+}
+
+export function loadActiveJobId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_JOB_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function clearActiveJobId(): void {
+  try {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+  } catch {
+    // Ignore unavailable storage
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * ScanJobStore - Persists background scan jobs as JSON files on disk
+ * Keeps job state across page reloads and lets any request read it back
+ */
+
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ScanJob } from "@/lib/types";
+
+/** Default directory for job files (override with SCAN_JOBS_DIR) */
+const DEFAULT_JOBS_DIR = ".scan-jobs";
+
+/** Job ids are UUIDs; anything else is rejected before touching the disk */
+const JOB_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class ScanJobStore {
+  /** Pending writes per job, so concurrent updates land in order */
+  private writeQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly directory: string = process.env.SCAN_JOBS_DIR ||
+      path.join(process.cwd(), DEFAULT_JOBS_DIR),
+  ) {}
+
+  /**
+   * Checks whether a string is a well-formed job id
+   */
+  static isValidId(id: string): boolean {
+    return JOB_ID_PATTERN.test(id);
+  }
+
+  /**
+   * Reads a job by id
+   * @returns The job, or null if it does not exist
+   */
+  async get(id: string): Promise<ScanJob | null> {
+    if (!ScanJobStore.isValidId(id)) {
+      return null;
+    }
+
+    await this.writeQueues.get(id);
+
+    try {
+      const data = await readFile(this.filePath(id), "utf8");
+      const job = JSON.parse(data) as ScanJob;
+      return (await this.isCancelRequested(id))
+        ? { ...job, cancelRequested: true }
+        : job;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a snapshot of the job, replacing the previous file atomically
+   */
+  save(job: ScanJob): Promise<void> {
+    const snapshot = JSON.stringify(job);
+    const previous = this.writeQueues.get(job.id) ?? Promise.resolve();
+
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(this.directory, { recursive: true });
+        const target = this.filePath(job.id);
+        const temp = `${target}.${process.pid}.tmp`;
+        await writeFile(temp, snapshot, "utf8");
+        await rename(temp, target);
+      });
+
+    this.writeQueues.set(job.id, write);
+    write
+      .finally(() => {
+        if (this.writeQueues.get(job.id) === write) {
+          this.writeQueues.delete(job.id);
+        }
+      })
+      .catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Records that a job should be cancelled. Kept in a marker file next to the
+   * job, so snapshots saved by the process running it cannot overwrite it
+   */
+  async requestCancel(id: string): Promise<void> {
+    if (!ScanJobStore.isValidId(id)) {
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.cancelPath(id), "", "utf8");
+  }
+
+  /**
+   * Checks whether cancellation of a job has been requested
+   */
+  async isCancelRequested(id: string): Promise<boolean> {
+    try {
+      await access(this.cancelPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private cancelPath(id: string): string {
+    return path.join(this.directory, `${id}.cancel`);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Scan Jobs - Runs scans in the background and records their progress
+ * in the job store so clients can poll for results
+ */
+
+import { randomUUID } from "node:crypto";
+import { redactBrowserOptions } from "@/lib/browser-options";
+import { ScanJobStore } from "@/lib/scan-job-store";
+import { SCAN_OPTION_LIMITS } from "@/lib/scan-options";
+import { runScan } from "@/lib/scan-service";
+import type { ScanJob, ScanJobStatus, ScanRequest } from "@/lib/types";
+
+const TERMINAL_STATUSES: ScanJobStatus[] = ["succeeded", "failed", "cancelled"];
+
+/**
+ * How long a job owned by another process may go without an update before
+ * it is reported as interrupted; twice the longest step timeout
+ */
+const STALE_JOB_MS = 2 * SCAN_OPTION_LIMITS.timeoutMs.max;
+
+/** How often a running job checks for cancel requests from other processes */
+const CANCEL_POLL_MS = 2_000;
+
+const store = new ScanJobStore();
+
+interface ActiveJob {
+  job: ScanJob;
+  controller: AbortController;
+}
+
+/**
+ * Jobs running in this server process, keyed by id
+ * Kept on globalThis so every route bundle (and dev hot reloads) share it
+ */
+const globalForJobs = globalThis as typeof globalThis & {
+  scanJobs?: Map<string, ActiveJob>;
+};
+if (!globalForJobs.scanJobs) {
+  globalForJobs.scanJobs = new Map<string, ActiveJob>();
+}
+const activeJobs = globalForJobs.scanJobs;
+
+export function isTerminalStatus(status: ScanJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Applies an update to a running job and persists the new snapshot
+ */
+function updateJob(job: ScanJob, changes: Partial<ScanJob>): Promise<void> {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  return store.save(job).catch((error) => {
+    console.error(`Failed to persist scan job ${job.id}:`, error);
+  });
+}
+
+/**
+ * Executes the scan for a job, updating the store as events arrive
+ * @param request The unredacted request (job.request hides browser secrets)
+ */
+async function executeJob(
+  job: ScanJob,
+  request: ScanRequest,
+  controller: AbortController,
+) {
+  const cancelPoll = setInterval(() => {
+    void store.isCancelRequested(job.id).then((requested) => {
+      if (!requested) return;
+
+      clearInterval(cancelPoll);
+      const active = activeJobs.get(job.id);
+      if (active) {
+        void cancelActiveJob(active);
+      }
+    });
+  }, CANCEL_POLL_MS);
+  cancelPoll.unref();
+
+  await updateJob(job, { status: "running" });
+
+  try {
+    const { response, multiAgentResult } = await runScan(request, {
+      onEvent: (event) => {
+        if (controller.signal.aborted) return;
+        void updateJob(job, { events: [...job.events, event] });
+      },
+      onPageResult: (result) => {
+        if (controller.signal.aborted) return;
+        void updateJob(job, { pageResults: [...job.pageResults, result] });
+      },
+      signal: controller.signal,
+    });
+
+    // A cancelled job keeps its status even if the scan still completes
+    if (controller.signal.aborted) return;
+
+    await updateJob(job, {
+      status: "succeeded",
+      result: response,
+      multiAgentResult,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error(`Scan job ${job.id} failed:`, error);
+    await updateJob(job, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    clearInterval(cancelPoll);
+    activeJobs.delete(job.id);
+  }
+}
+
+/**
+ * Creates a job for a validated scan request and starts it in the background
+ * @returns The queued job
+ */
+export async function createScanJob(request: ScanRequest): Promise<ScanJob> {
+  const now = new Date().toISOString();
+  const job: ScanJob = {
+    id: randomUUID(),
+    // Cookie and header values are kept out of the store and API responses
+    request: request.browser
+      ? { ...request, browser: redactBrowserOptions(request.browser) }
+      : request,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    events: [],
+    pageResults: [],
+  };
+
+  await store.save(job);
+
+  const queued = { ...job };
+  const controller = new AbortController();
+  activeJobs.set(job.id, { job, controller });
+  void executeJob(job, request, controller);
+
+  return queued;
+}
+
+/**
+ * Reads the latest state of a job. Unfinished jobs owned by another process
+ * (another worker, or a server that stopped) are returned as stored while
+ * they keep updating, and as interrupted once they go quiet; the store is
+ * left alone, so a job that does finish later still reports its outcome
+ * @returns The job, or null if no job has this id
+ */
+export async function getScanJob(id: string): Promise<ScanJob | null> {
+  const active = activeJobs.get(id);
+  if (active) {
+    return { ...active.job };
+  }
+
+  const job = await store.get(id);
+  if (!job) {
+    return null;
+  }
+
+  const idleMs = Date.now() - Date.parse(job.updatedAt);
+  if (!isTerminalStatus(job.status) && idleMs > STALE_JOB_MS) {
+    return {
+      ...job,
+      status: "interrupted",
+      error: `Scan was interrupted: no progress for ${Math.round(idleMs / 60_000)} minutes. The server running it may have stopped`,
+    };
+  }
+
+  return job;
+}
+
+/**
+ * Aborts a job running in this process and marks it cancelled
+ */
+async function cancelActiveJob(active: ActiveJob): Promise<ScanJob> {
+  active.controller.abort();
+  activeJobs.delete(active.job.id);
+  await updateJob(active.job, { status: "cancelled" });
+
+  return { ...active.job };
+}
+
+/**
+ * Cancels a queued or running job. A job run by another process is flagged
+ * with cancelRequested and cancelled once that process polls the flag
+ * @returns The job after cancellation, or null if no job has this id
+ */
+export async function cancelScanJob(id: string): Promise<ScanJob | null> {
+  const active = activeJobs.get(id);
+  if (active) {
+    return cancelActiveJob(active);
+  }
+
+  const job = await getScanJob(id);
+  if (!job || isTerminalStatus(job.status) || job.status === "interrupted") {
+    // Finished jobs are returned unchanged
+    return job;
+  }
+
+  await store.requestCancel(id);
+  return { ...job, cancelRequested: true };
+}
@@ -0,0 +1,142 @@
+/**
+ * Scan options - Defaults, bounds and validation for concurrency, agent
+ * timeouts, recursion limits and page retries
+ */
+
+import { isIntegerInRange } from "./crawl-utils";
+import type {
+  ScanOptions,
+  ScanRecursionLimits,
+  ScanRetryPolicy,
+  ScanTimeouts,
+} from "./types";
+
+export interface ResolvedScanOptions {
+  concurrency: number;
+  timeouts: Required<ScanTimeouts>;
+  recursionLimits: Required<ScanRecursionLimits>;
+  retry: Required<ScanRetryPolicy>;
+}
+
+export const DEFAULT_SCAN_OPTIONS: ResolvedScanOptions = {
+  concurrency: 3,
+  timeouts: {
+    discoveryMs: 120_000,
+    pageScanMs: 120_000,
+    summarizerMs: 90_000,
+    singleScanMs: 180_000,
+  },
+  recursionLimits: {
+    discovery: 26,
+    pageScan: 30,
+    summarizer: 26,
+    singleScan: 200,
+  },
+  retry: {
+    maxAttempts: 3,
+    baseDelayMs: 2_000,
+  },
+};
+
+/** Inclusive bounds accepted from API clients */
+export const SCAN_OPTION_LIMITS = {
+  concurrency: { min: 1, max: 10 },
+  timeoutMs: { min: 10_000, max: 900_000 },
+  recursionLimit: { min: 5, max: 500 },
+  maxAttempts: { min: 1, max: 5 },
+  baseDelayMs: { min: 0, max: 60_000 },
+} as const;
+
+/**
+ * Fills in defaults for any scan option the request left out
+ * @param options Scan options from the request
+ * @returns Complete scan options
+ */
+export function resolveScanOptions(
+  options: ScanOptions = {},
+): ResolvedScanOptions {
+  return {
+    concurrency: options.concurrency ?? DEFAULT_SCAN_OPTIONS.concurrency,
+    timeouts: { ...DEFAULT_SCAN_OPTIONS.timeouts, ...options.timeouts },
+    recursionLimits: {
+      ...DEFAULT_SCAN_OPTIONS.recursionLimits,
+      ...options.recursionLimits,
+    },
+    retry: { ...DEFAULT_SCAN_OPTIONS.retry, ...options.retry },
+  };
+}
+
+/**
+ * Checks every known key of a nested option group against one range
+ * @returns Error message for the first invalid value, or null
+ */
+function validateGroup(
+  name: string,
+  group: unknown,
+  keys: string[],
+  range: { min: number; max: number },
+): string | null {
+  if (group === undefined) {
+    return null;
+  }
+
+  if (typeof group !== "object" || group === null) {
+    return `Invalid options.${name}`;
+  }
+
+  for (const key of keys) {
+    const value = (group as Record<string, unknown>)[key];
+    if (value !== undefined && !isIntegerInRange(value, range.min, range.max)) {
+      return `options.${name}.${key} must be an integer between ${range.min} and ${range.max}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates scan options from an API request
+ * @param options Untrusted scan options
+ * @returns Error message, or null when the options are valid
+ */
+export function validateScanOptions(options: unknown): string | null {
+  if (options === undefined) {
+    return null;
+  }
+
+  if (typeof options !== "object" || options === null) {
+    return "Invalid scan options";
+  }
+
+  const { concurrency, timeouts, recursionLimits, retry } =
+    options as ScanOptions;
+  const limits = SCAN_OPTION_LIMITS;
+
+  if (
+    concurrency !== undefined &&
+    !isIntegerInRange(
+      concurrency,
+      limits.concurrency.min,
+      limits.concurrency.max,
+    )
+  ) {
+    return `options.concurrency must be an integer between ${limits.concurrency.min} and ${limits.concurrency.max}`;
+  }
+
+  return (
+    validateGroup(
+      "timeouts",
+      timeouts,
+      Object.keys(DEFAULT_SCAN_OPTIONS.timeouts),
+      limits.timeoutMs,
+    ) ??
+    validateGroup(
+      "recursionLimits",
+      recursionLimits,
+      Object.keys(DEFAULT_SCAN_OPTIONS.recursionLimits),
+      limits.recursionLimit,
+    ) ??
+    validateGroup("retry", retry, ["maxAttempts"], limits.maxAttempts) ??
+    validateGroup("retry", retry, ["baseDelayMs"], limits.baseDelayMs)
+  );
+}
@@ -0,0 +1,527 @@
+/**
+ * Scan Service - Runs single-page and multi-agent scans for the API routes
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { initializeAgent } from "@/lib/agent";
+import {
+  buildBrowserContextOptions,
+  buildOriginHeaders,
+  validateBrowserOptions,
+} from "@/lib/browser-options";
+import { validateCrawlOptions } from "@/lib/crawl-utils";
+import { extractFindingsFromMessages } from "@/lib/findings-parser";
+import type { PageFindings } from "@/lib/findings-types";
+import { resolveScanMetadata, toPageResultRecords } from "@/lib/history-utils";
+import { validateJourney } from "@/lib/journey";
+import { createScanMcpClient } from "@/lib/mcp-client";
+import {
+  createTimeoutSignal,
+  isPageScanSuccessful,
+  runJourneyAgent,
+  runListScan,
+  runMultiAgentScan,
+} from "@/lib/multi-agent-orchestrator";
+import type {
+  MultiAgentScanOptions,
+  MultiAgentScanResult,
+} from "@/lib/multi-agent-types";
+import { AuthSession, validateScanAuthentication } from "@/lib/scan-auth";
+import { resolveScanOptions, validateScanOptions } from "@/lib/scan-options";
+import { buildScanUsage, getTokenUsage } from "@/lib/token-usage";
+import type {
+  ScanMode,
+  ScanRequest,
+  ScanResponse,
+  WaiverRule,
+} from "@/lib/types";
+import {
+  applyWaivers,
+  formatWaivedSection,
+  validateWaivers,
+} from "@/lib/waivers";
+
+export type ScanServiceOptions = MultiAgentScanOptions;
+
+export interface ScanOutcome {
+  /** Payload returned to API clients */
+  response: ScanResponse;
+  /** Raw orchestrator output (exploration and list modes) */
+  multiAgentResult?: MultiAgentScanResult;
+}
+
+export const isValidUrl = (url: string) => URL.canParse(url);
+
+/** Maximum number of pages accepted in list mode */
+export const MAX_LIST_URLS = 50;
+
+const SCAN_MODES: ScanMode[] = ["single", "exploration", "list", "journey"];
+
+function validateUrlList(urls: unknown): string | null {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return "List mode requires a non-empty 'urls' array";
+  }
+
+  if (urls.length > MAX_LIST_URLS) {
+    return `List mode accepts at most ${MAX_LIST_URLS} URLs`;
+  }
+
+  const invalid = urls.find(
+    (url) => typeof url !== "string" || !isValidUrl(url),
+  );
+  if (invalid !== undefined) {
+    return `Invalid URL in list: ${String(invalid)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates an incoming scan request body
+ * @param body Parsed request body
+ * @returns Error message, or null when the request is valid
+ */
+export function validateScanRequest(body: Partial<ScanRequest>): string | null {
+  if (body?.mode === "list") {
+    const listError = validateUrlList(body.urls);
+    if (listError) {
+      return listError;
+    }
+  }
+
+  // List mode reports on the first URL unless the request names a site
+  const url = body?.url ?? (body?.mode === "list" ? body.urls?.[0] : undefined);
+  if (typeof url !== "string" || !isValidUrl(url)) {
+    return "Invalid URL provided";
+  }
+
+  if (!body.mode || !SCAN_MODES.includes(body.mode)) {
+    return "Invalid scan mode. Must be 'single', 'exploration', 'list' or 'journey'";
+  }
+
+  if (body.mode === "journey") {
+    const journeyError = validateJourney(body.journey);
+    if (journeyError) {
+      return journeyError;
+    }
+  }
+
+  if (
+    body.discoveryStrategy !== undefined &&
+    !["agent", "sitemap"].includes(body.discoveryStrategy)
+  ) {
+    return "Invalid discovery strategy. Must be 'agent' or 'sitemap'";
+  }
+
+  return (
+    validateCrawlOptions(body.crawl) ??
+    validateScanOptions(body.options) ??
+    validateScanAuthentication(body.authentication) ??
+    validateBrowserOptions(body.browser) ??
+    validateWaivers(body.waivers)
+  );
+}
+
+/**
+ * Copies the supported fields of a validated request body, filling in the
+ * list-mode default URL
+ * @param body Request body that passed validateScanRequest
+ * @returns Scan request without unknown fields
+ */
+export function normalizeScanRequest(body: ScanRequest): ScanRequest {
+  const urls = body.mode === "list" ? body.urls : undefined;
+
+  return {
+    url: body.url ?? urls?.[0],
+    mode: body.mode,
+    urls,
+    crawl: body.crawl,
+    discoveryStrategy: body.discoveryStrategy,
+    options: body.options,
+    authentication: body.authentication,
+    browser: body.browser,
+    journey: body.mode === "journey" ? body.journey : undefined,
+    waivers: body.waivers,
+  };
+}
+
+/**
+ * Runs a scan in the requested mode
+ * @param request Validated scan request
+ * @param options Progress and per-page result listeners, and an abort signal
+ * @returns Scan response with report, metadata and structured findings
+ */
+export async function runScan(
+  request: ScanRequest,
+  options: ScanServiceOptions = {},
+): Promise<ScanOutcome> {
+  const scanOptions = withPageWaivers(options, request.waivers);
+  if (!request.browser) {
+    return withWaivers(
+      await executeScan(request, scanOptions),
+      request.waivers,
+    );
+  }
+
+  // Cookies and headers need a browser of their own, not the shared one
+  const mcpClient = await createScanMcpClient(
+    buildBrowserContextOptions(request.browser, request.url),
+    buildOriginHeaders(request.browser, request.url),
+  );
+  try {
+    return withWaivers(
+      await executeScan(request, { ...scanOptions, mcpClient }),
+      request.waivers,
+    );
+  } finally {
+    await mcpClient.close();
+  }
+}
+
+/**
+ * Wraps the per-page listeners so page results and page_scan_finished events
+ * leave out waived violations as they stream, matching the final response
+ * @param options Scan service options
+ * @param waivers Waiver rules from the request
+ */
+function withPageWaivers(
+  options: ScanServiceOptions,
+  waivers: WaiverRule[] = [],
+): ScanServiceOptions {
+  if (waivers.length === 0) {
+    return options;
+  }
+
+  // Each page's result is reported before its page_scan_finished event
+  const removedByUrl = new Map<string, number>();
+  const { onEvent, onPageResult } = options;
+
+  return {
+    ...options,
+    onPageResult: (result) => {
+      if (!result.findings) {
+        onPageResult?.(result);
+        return;
+      }
+
+      const [findings] = applyWaivers([result.findings], waivers).findings;
+      const removed =
+        result.findings.violations.length - findings.violations.length;
+      removedByUrl.set(result.url, removed);
+      onPageResult?.({
+        ...result,
+        violations: result.violations - removed,
+        findings,
+      });
+    },
+    onEvent:
+      onEvent &&
+      ((event) =>
+        onEvent(
+          event.type === "page_scan_finished"
+            ? {
+                ...event,
+                violations:
+                  event.violations - (removedByUrl.get(event.url) ?? 0),
+              }
+            : event,
+        )),
+  };
+}
+
+/**
+ * Takes waived violations out of a finished scan's findings and counts
+ * (response, per-page results and checkpoints alike) and appends the
+ * "Waived Issues" section to the report
+ * @param outcome Finished scan
+ * @param waivers Waiver rules from the request
+ */
+function withWaivers(
+  outcome: ScanOutcome,
+  waivers: WaiverRule[] = [],
+): ScanOutcome {
+  const { response, multiAgentResult } = outcome;
+  const original = response.findings ?? [];
+  const { findings, waived, expired } = applyWaivers(original, waivers);
+  if (waived.length === 0 && expired.length === 0) {
+    return outcome;
+  }
+
+  // Pages are matched by object identity: checkpoints and page results
+  // share their findings with the response
+  const waivedPages = new Map(
+    original.map((page, index) => [page, findings[index]]),
+  );
+  const waivedPage = (page?: PageFindings) =>
+    (page && waivedPages.get(page)) ?? page;
+  const removedFrom = (page?: PageFindings) =>
+    page
+      ? page.violations.length - (waivedPage(page)?.violations.length ?? 0)
+      : 0;
+  const pageScanResults = multiAgentResult?.pageScanResults.map((page) => ({
+    ...page,
+    violations: page.violations - removedFrom(page.findings),
+    findings: waivedPage(page.findings),
+  }));
+
+  const section = formatWaivedSection(waived, expired);
+  const metadata = response.metadata ?? { multiAgent: false };
+  const violationsBySeverity = metadata.violationsBySeverity && {
+    ...metadata.violationsBySeverity,
+  };
+  for (const violation of waived) {
+    if (violationsBySeverity) {
+      violationsBySeverity[violation.impact] = Math.max(
+        0,
+        violationsBySeverity[violation.impact] - 1,
+      );
+    }
+  }
+
+  return {
+    response: {
+      ...response,
+      data: `${response.data}\n\n${section}`,
+      metadata: {
+        ...metadata,
+        totalViolations:
+          metadata.totalViolations !== undefined
+            ? Math.max(0, metadata.totalViolations - waived.length)
+            : undefined,
+        violationsBySeverity,
+        waivedViolations: waived.length,
+      },
+      findings: response.findings && findings,
+      // Rebuilt from the page scan results, whose findings may carry a
+      // different (e.g. redirected) URL than the page that was requested
+      pageResults:
+        response.pageResults && pageScanResults
+          ? toPageResultRecords(pageScanResults)
+          : response.pageResults,
+      checkpoints: response.checkpoints?.map((checkpoint) => ({
+        ...checkpoint,
+        violations: checkpoint.violations - removedFrom(checkpoint.findings),
+        findings: waivedPage(checkpoint.findings),
+      })),
+      waived,
+    },
+    multiAgentResult: multiAgentResult && {
+      ...multiAgentResult,
+      finalReport: `${multiAgentResult.finalReport}\n\n${section}`,
+      totalViolations: Math.max(
+        0,
+        multiAgentResult.totalViolations - waived.length,
+      ),
+      pageScanResults: pageScanResults ?? [],
+    },
+  };
+}
+
+async function executeScan(
+  request: ScanRequest,
+  options: ScanServiceOptions,
+): Promise<ScanOutcome> {
+  const { url, mode } = request;
+  const { onEvent, onPageResult, signal } = options;
+  const scanOptions = request.options ?? options.scanOptions;
+
+  const startTime = Date.now();
+  console.log("🚀 Starting scan request...");
+
+  if (mode === "exploration" || mode === "list") {
+    const result =
+      mode === "list"
+        ? await runListScan(url, request.urls ?? [], {
+            ...options,
+            scanOptions,
+            authentication: request.authentication,
+            browser: request.browser,
+          })
+        : await runMultiAgentScan(url, {
+            ...options,
+            scanOptions,
+            authentication: request.authentication,
+            browser: request.browser,
+            crawl: request.crawl,
+            discoveryStrategy: request.discoveryStrategy,
+          });
+
+    const scannedPages = result.pageScanResults.filter(isPageScanSuccessful);
+    const failedPages = result.pageScanResults
+      .filter((page) => !isPageScanSuccessful(page))
+      .map((page) => ({ url: page.url, error: page.error ?? "Scan failed" }));
+
+    // Prefer structured findings; fall back to parsing the report when any
+    // scanned page did not return scan_page output
+    const findings = scannedPages.flatMap((page) =>
+      page.findings ? [page.findings] : [],
+    );
+    const parsedMetadata = resolveScanMetadata(
+      findings,
+      result.finalReport,
+      mode,
+      scannedPages.length,
+    );
+
+    return {
+      response: {
+        status: "success",
+        data: result.finalReport,
+        metadata: {
+          multiAgent: true,
+          pagesScanned: scannedPages.length,
+          totalViolations: result.totalViolations,
+          discoveredUrls: result.discoveryResult.discoveredUrls.map(
+            (u) => u.url,
+          ),
+          violationsBySeverity: parsedMetadata.violationsBySeverity,
+          wcagLevel: parsedMetadata.wcagLevel,
+          failedPages: failedPages.length > 0 ? failedPages : undefined,
+          usage: result.usage,
+        },
+        findings,
+        pageResults: toPageResultRecords(result.pageScanResults),
+      },
+      multiAgentResult: result,
+    };
+  }
+
+  if (mode === "journey" && request.journey) {
+    onEvent?.({ type: "page_scan_started", url, index: 0, totalPages: 1 });
+    const result = await runJourneyAgent(url, request.journey, {
+      ...options,
+      scanOptions,
+      authentication: request.authentication,
+    });
+
+    const findings = result.checkpoints.flatMap((checkpoint) =>
+      checkpoint.findings ? [checkpoint.findings] : [],
+    );
+    const parsedMetadata = resolveScanMetadata(findings, result.report, mode);
+
+    onEvent?.({
+      type: "page_scan_finished",
+      url,
+      index: 0,
+      totalPages: 1,
+      violations: parsedMetadata.totalViolations,
+    });
+
+    return {
+      response: {
+        status: "success",
+        data: result.report,
+        metadata: {
+          totalTime: Date.now() - startTime,
+          multiAgent: false,
+          pagesScanned: findings.length,
+          totalViolations: parsedMetadata.totalViolations,
+          violationsBySeverity: parsedMetadata.violationsBySeverity,
+          wcagLevel: parsedMetadata.wcagLevel,
+          usage: buildScanUsage({ single: result.usage }, [
+            { url, ...result.usage },
+          ]),
+        },
+        findings,
+        checkpoints: result.checkpoints,
+      },
+    };
+  }
+
+  const { agent } = await initializeAgent(options.mcpClient);
+  signal?.throwIfAborted();
+
+  const initTime = Date.now() - startTime;
+  console.log(`⚡ Agent initialized in ${initTime}ms`);
+
+  const auth = request.authentication
+    ? new AuthSession(request.authentication, process.env, options.mcpClient)
+    : undefined;
+
+  const scanPrompt = auth
+    ? `Scan the following URL for accessibility violations: ${url}
+
+The browser is already logged in. Use the scan_url tool to scan this page. Analyze the results and report all violations found. Do not close the browser`
+    : `Scan the following URL for accessibility violations: ${url}
+
+Use the scan_url tool to scan this page. Analyze the results and report all violations found. Close the browser`;
+
+  const messages = [new HumanMessage(scanPrompt)];
+  const input = { messages };
+
+  console.log("🔍 Invoking agent...");
+  onEvent?.({ type: "page_scan_started", url, index: 0, totalPages: 1 });
+  const scanStartTime = Date.now();
+
+  const { timeouts, recursionLimits } = resolveScanOptions(scanOptions);
+  const scanSignal = createTimeoutSignal(timeouts.singleScanMs, signal);
+  // Close the login session even when logging in fails or is aborted
+  let result: Awaited<ReturnType<typeof agent.invoke>>;
+  try {
+    await auth?.ensure(scanSignal);
+    result = await agent.invoke(input, {
+      recursionLimit: recursionLimits.singleScan,
+      signal: scanSignal,
+    });
+  } finally {
+    await auth?.close();
+  }
+
+  const scanTime = Date.now() - scanStartTime;
+  console.log(`✅ Scan completed in ${scanTime}ms`);
+
+  const lastMessage = result.messages[result.messages.length - 1];
+  let finalOutput = "";
+  if (lastMessage.content) {
+    finalOutput = auth
+      ? auth.redact(String(lastMessage.content))
+      : String(lastMessage.content);
+  }
+
+  const totalTime = Date.now() - startTime;
+  console.log(`🏁 Total request time: ${totalTime}ms`);
+
+  const tokenUsage = getTokenUsage(result.messages);
+
+  // Prefer structured findings from scan_page over parsing the report
+  const extracted = extractFindingsFromMessages(result.messages, url);
+  const findings = auth ? auth.redactFindings(extracted) : extracted;
+  const parsedMetadata = resolveScanMetadata(findings, finalOutput, "single");
+
+  onPageResult?.({
+    url,
+    scanData: finalOutput,
+    violations: parsedMetadata.totalViolations,
+    timestamp: new Date().toISOString(),
+    findings: findings[0],
+    status: "succeeded",
+    attempts: 1,
+    usage: tokenUsage,
+  });
+  onEvent?.({
+    type: "page_scan_finished",
+    url,
+    index: 0,
+    totalPages: 1,
+    violations: parsedMetadata.totalViolations,
+  });
+
+  return {
+    response: {
+      status: "success",
+      data: finalOutput,
+      metadata: {
+        initTime,
+        scanTime,
+        totalTime,
+        multiAgent: false,
+        pagesScanned: 1,
+        totalViolations: parsedMetadata.totalViolations,
+        violationsBySeverity: parsedMetadata.violationsBySeverity,
+        wcagLevel: parsedMetadata.wcagLevel,
+        usage: buildScanUsage({ single: tokenUsage }, [{ url, ...tokenUsage }]),
+      },
+      findings,
+    },
+  };
+}
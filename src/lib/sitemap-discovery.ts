@@ -0,0 +1,313 @@
+/**
+ * Sitemap Discovery - Finds pages to scan from robots.txt and sitemap.xml
+ * without an LLM round-trip
+ */
+
+import { mergeDiscoveredUrls, resolveCrawlOptions } from "./crawl-utils";
+import type { DiscoveredUrl, UrlDiscoveryResult } from "./multi-agent-types";
+import type { CrawlOptions } from "./types";
+
+/** Time budget for each robots.txt / sitemap request */
+const FETCH_TIMEOUT_MS = 10_000;
+
+/** Upper bound on sitemap files read per scan (indexes can be huge) */
+const MAX_SITEMAP_FILES = 10;
+
+const USER_AGENT = "agentic-a11y-scanner";
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  sitemaps: string[];
+}
+
+export interface ParsedSitemap {
+  type: "urlset" | "sitemapindex";
+  locations: string[];
+}
+
+export interface SitemapDiscoveryOptions {
+  crawl?: CrawlOptions;
+  signal?: AbortSignal;
+  /** Extra request headers, e.g. the scan's cookies or Authorization */
+  headers?: Record<string, string>;
+  /** Injectable for tests; defaults to the global fetch */
+  fetchImpl?: typeof fetch;
+}
+
+/** URL patterns mapped to scan priority, checked in order */
+const PRIORITY_PATTERNS: Array<{
+  pattern: RegExp;
+  priority: DiscoveredUrl["priority"];
+  description: string;
+}> = [
+  {
+    pattern: /\/(sign-?up|register|join)\b/i,
+    priority: "high",
+    description: "Registration page",
+  },
+  {
+    pattern: /\/(log-?in|sign-?in|auth)\b/i,
+    priority: "high",
+    description: "Login page",
+  },
+  {
+    pattern: /\/(checkout|cart|basket|payment)\b/i,
+    priority: "high",
+    description: "Checkout flow",
+  },
+  {
+    pattern: /\/(contact|support|help|feedback)\b/i,
+    priority: "high",
+    description: "Contact or support form",
+  },
+  {
+    pattern: /\/(search|products?|shop|pricing|services?|account)\b/i,
+    priority: "medium",
+    description: "Key feature page",
+  },
+  {
+    pattern: /\/(about|faq|features?)\b/i,
+    priority: "medium",
+    description: "Informational page",
+  },
+  {
+    pattern: /\/(blog|news|articles?|posts?|tags?|categor(y|ies)|archive)\b/i,
+    priority: "low",
+    description: "Content page",
+  },
+  {
+    pattern: /\/(privacy|terms|legal|cookies?|sitemap)\b/i,
+    priority: "low",
+    description: "Legal page",
+  },
+];
+
+/**
+ * Parses the rules that apply to all crawlers (User-agent: *)
+ * @param text robots.txt contents
+ * @returns Allow/Disallow path patterns and declared sitemaps
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const rules: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+
+  let groupAgents: string[] = [];
+  let groupHasRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "sitemap") {
+      if (value) rules.sitemaps.push(value);
+      continue;
+    }
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (groupHasRules) {
+        groupAgents = [];
+        groupHasRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+
+    if (field !== "allow" && field !== "disallow") continue;
+
+    groupHasRules = true;
+    if (!groupAgents.includes("*") || !value) continue;
+
+    rules[field].push(value);
+  }
+
+  return rules;
+}
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Checks a URL against robots.txt rules; the longest matching rule wins and
+ * Allow wins ties
+ * @param url Absolute URL
+ * @param rules Parsed robots.txt rules
+ */
+export function isAllowedByRobots(url: string, rules: RobotsRules): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return false;
+  }
+
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce(
+      (longest, pattern) =>
+        robotsPatternToRegExp(pattern).test(path)
+          ? Math.max(longest, pattern.length)
+          : longest,
+      -1,
+    );
+
+  const disallowed = longestMatch(rules.disallow);
+  if (disallowed === -1) return true;
+
+  return longestMatch(rules.allow) >= disallowed;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Extracts page or child-sitemap locations from a sitemap document
+ * @param xml sitemap.xml or sitemap index contents
+ * @returns Document type and its <loc> values
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const type = /<(\w+:)?sitemapindex[\s>]/i.test(xml)
+    ? "sitemapindex"
+    : "urlset";
+
+  const locations = Array.from(
+    xml.matchAll(
+      /<(?:\w+:)?loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/(?:\w+:)?loc>/gi,
+    ),
+    (match) => decodeXmlEntities(match[1].trim()),
+  ).filter(Boolean);
+
+  return { type, locations };
+}
+
+/**
+ * Derives a scan priority and short description from a URL's path
+ * @param url Page URL
+ */
+export function classifyUrl(
+  url: string,
+): Pick<DiscoveredUrl, "priority" | "description"> {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Fall back to matching the raw string
+  }
+
+  const match = PRIORITY_PATTERNS.find((entry) => entry.pattern.test(path));
+  if (match) {
+    return { priority: match.priority, description: match.description };
+  }
+
+  // Shallow pages are usually section landing pages
+  const depth = path.split("/").filter(Boolean).length;
+  return depth <= 1
+    ? { priority: "medium", description: "Top-level page" }
+    : { priority: "low", description: "Page from sitemap" };
+}
+
+async function fetchText(
+  url: string,
+  fetchImpl: typeof fetch,
+  signal?: AbortSignal,
+  headers: Record<string, string> = {},
+): Promise<string | null> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetchImpl(url, {
+      headers: { "User-Agent": USER_AGENT, ...headers },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    return response.ok ? await response.text() : null;
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn(`Failed to fetch ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Discovers pages from robots.txt and sitemap.xml (following sitemap
+ * indexes), honouring Disallow rules and the crawl's scope and page budget
+ * @param mainUrl URL the scan starts from
+ * @param options Crawl limits, abort signal, request headers and fetch
+ * implementation. Headers are only sent to the scanned site's origin
+ * @returns Discovery result in the same shape as the Discovery Agent's
+ */
+export async function runSitemapDiscovery(
+  mainUrl: string,
+  options: SitemapDiscoveryOptions = {},
+): Promise<UrlDiscoveryResult> {
+  const { signal, fetchImpl = fetch } = options;
+  const crawl = resolveCrawlOptions(options.crawl);
+  const origin = new URL(mainUrl).origin;
+  // Sitemaps may live on another host that must not see the scan's secrets
+  const headersFor = (url: string) =>
+    URL.canParse(url) && new URL(url).origin === origin
+      ? options.headers
+      : undefined;
+
+  const robotsText = await fetchText(
+    `${origin}/robots.txt`,
+    fetchImpl,
+    signal,
+    options.headers,
+  );
+  const rules = robotsText
+    ? parseRobotsTxt(robotsText)
+    : { allow: [], disallow: [], sitemaps: [] };
+
+  const queue =
+    rules.sitemaps.length > 0 ? [...rules.sitemaps] : [`${origin}/sitemap.xml`];
+  const visitedSitemaps = new Set<string>();
+  const candidates: DiscoveredUrl[] = [];
+
+  while (queue.length > 0 && visitedSitemaps.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = queue.shift() as string;
+    if (visitedSitemaps.has(sitemapUrl)) continue;
+    visitedSitemaps.add(sitemapUrl);
+
+    const xml = await fetchText(
+      sitemapUrl,
+      fetchImpl,
+      signal,
+      headersFor(sitemapUrl),
+    );
+    if (!xml) continue;
+
+    const sitemap = parseSitemapXml(xml);
+    if (sitemap.type === "sitemapindex") {
+      queue.push(...sitemap.locations);
+      continue;
+    }
+
+    for (const url of sitemap.locations) {
+      if (isAllowedByRobots(url, rules)) {
+        candidates.push({ url, ...classifyUrl(url) });
+      }
+    }
+  }
+
+  return {
+    mainPageUrl: mainUrl,
+    mainPageHtml: "",
+    discoveredUrls: mergeDiscoveredUrls([], candidates, mainUrl, crawl),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * SqliteHistoryStore - Shared, server-side scan history in a SQLite file
+ * Mirrors ScanHistoryManager's operations without its size and count caps
+ */
+
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { PageFindings, Violation } from "./findings-types";
+import type {
+  HistoryFilter,
+  NewScanRecord,
+  ScanRecord,
+  StorageResult,
+  ViolationSeverity,
+} from "./history-types";
+import { createScanRecord, sanitizeLabel } from "./history-utils";
+import type { ScanMode } from "./types";
+
+const SCAN_MODES: ScanMode[] = ["single", "exploration", "list", "journey"];
+
+const SEVERITIES: ViolationSeverity[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS scans (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  label TEXT,
+  total_violations INTEGER NOT NULL,
+  record TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS scans_url ON scans (url);
+CREATE INDEX IF NOT EXISTS scans_timestamp ON scans (timestamp);
+`;
+
+interface ScanRow {
+  record: string;
+}
+
+function toResult<T>(operation: () => StorageResult<T>): StorageResult<T> {
+  try {
+    return operation();
+  } catch (error) {
+    console.error("[SqliteHistory] Operation failed:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+function notFound<T>(id: string): StorageResult<T> {
+  return { success: false, error: `Scan with ID ${id} not found` };
+}
+
+function toIsoDate(value: string, name: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new RangeError(`Invalid ${name}: ${value}`);
+  }
+  return date.toISOString();
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || typeof value === "string";
+
+const isCount = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function isViolation(value: unknown): value is Violation {
+  return (
+    isObject(value) &&
+    typeof value.ruleId === "string" &&
+    typeof value.description === "string" &&
+    isStringArray(value.wcagCriteria) &&
+    SEVERITIES.includes(value.impact as ViolationSeverity) &&
+    isStringArray(value.selectors) &&
+    typeof value.html === "string" &&
+    isOptionalString(value.helpUrl) &&
+    typeof value.pageUrl === "string"
+  );
+}
+
+function isPageFindings(value: unknown): value is PageFindings {
+  return (
+    isObject(value) &&
+    typeof value.pageUrl === "string" &&
+    typeof value.scannedAt === "string" &&
+    Array.isArray(value.violations) &&
+    value.violations.every(isViolation)
+  );
+}
+
+function isPageResult(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.url === "string" &&
+    isCount(value.violations) &&
+    typeof value.report === "string" &&
+    typeof value.timestamp === "string" &&
+    [undefined, "failed", "timed_out"].includes(value.status as string) &&
+    isOptionalString(value.error)
+  );
+}
+
+function isCheckpoint(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.name === "string" &&
+    typeof value.url === "string" &&
+    isCount(value.violations) &&
+    (value.findings === undefined || isPageFindings(value.findings)) &&
+    [undefined, "not_reached"].includes(value.status as string)
+  );
+}
+
+function isWaivedViolation(value: unknown): boolean {
+  const waiver = isObject(value) ? value.waiver : undefined;
+  return (
+    isViolation(value) &&
+    isObject(waiver) &&
+    isOptionalString(waiver.id) &&
+    typeof waiver.justification === "string" &&
+    typeof waiver.owner === "string" &&
+    typeof waiver.expires === "string"
+  );
+}
+
+/**
+ * Checks an optional array field of a posted scan, item by item
+ * @returns Error message naming the first bad item, or null
+ */
+function validateList(
+  value: unknown,
+  field: string,
+  isItem: (item: unknown) => boolean,
+  itemName: string,
+): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return `${field} must be an array of ${itemName}s`;
+  }
+
+  const index = value.findIndex((item) => !isItem(item));
+  return index === -1 ? null : `${field}[${index}] is not a valid ${itemName}`;
+}
+
+/**
+ * Validates a scan posted to the history API
+ * @param body Untrusted request body
+ * @returns Error message, or null when the body can be stored
+ */
+export function validateNewScanRecord(body: unknown): string | null {
+  if (typeof body !== "object" || body === null) {
+    return "Invalid scan record";
+  }
+
+  const { url, mode, report, label, usage } = body as Partial<NewScanRecord>;
+  const record = body as Fields;
+
+  if (typeof url !== "string" || !URL.canParse(url)) {
+    return "Invalid URL provided";
+  }
+
+  if (!mode || !SCAN_MODES.includes(mode)) {
+    return "Invalid scan mode. Must be 'single', 'exploration', 'list' or 'journey'";
+  }
+
+  if (typeof report !== "string") {
+    return "Scan record requires a 'report' string";
+  }
+
+  if (label !== undefined && typeof label !== "string") {
+    return "Label must be a string";
+  }
+
+  if (
+    usage !== undefined &&
+    (typeof usage !== "object" ||
+      usage === null ||
+      typeof usage.totalTokens !== "number")
+  ) {
+    return "Usage must be a token usage object";
+  }
+
+  return (
+    validateList(
+      record.discoveredUrls,
+      "discoveredUrls",
+      (item) => typeof item === "string",
+      "URL string",
+    ) ??
+    validateList(record.findings, "findings", isPageFindings, "page finding") ??
+    validateList(
+      record.pageResults,
+      "pageResults",
+      isPageResult,
+      "page result",
+    ) ??
+    validateList(
+      record.checkpoints,
+      "checkpoints",
+      isCheckpoint,
+      "checkpoint",
+    ) ??
+    validateList(record.waived, "waived", isWaivedViolation, "waived violation")
+  );
+}
+
+export class SqliteHistoryStore {
+  private readonly db: Database.Database;
+
+  /**
+   * Opens (or creates) the history database
+   * @param filename SQLite file path, or ":memory:"
+   */
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  private rowsToRecords(rows: unknown[]): ScanRecord[] {
+    return (rows as ScanRow[]).map((row) => JSON.parse(row.record));
+  }
+
+  private findRecord(id: string): ScanRecord | null {
+    const row = this.db
+      .prepare("SELECT record FROM scans WHERE id = ?")
+      .get(id) as ScanRow | undefined;
+    return row ? JSON.parse(row.record) : null;
+  }
+
+  /**
+   * Retrieves all scan records, most recent first
+   */
+  getAll(): StorageResult<ScanRecord[]> {
+    return this.filter({});
+  }
+
+  /**
+   * Retrieves a scan by ID
+   */
+  getById(id: string): StorageResult<ScanRecord> {
+    return toResult(() => {
+      const scan = this.findRecord(id);
+      return scan ? { success: true, data: scan } : notFound(id);
+    });
+  }
+
+  /**
+   * Retrieves scans by URL (exact or partial match)
+   */
+  getByUrl(url: string, exactMatch = false): StorageResult<ScanRecord[]> {
+    if (!exactMatch) {
+      return this.filter({ url });
+    }
+
+    return toResult(() => ({
+      success: true,
+      data: this.rowsToRecords(
+        this.db
+          .prepare(
+            "SELECT record FROM scans WHERE url = ? ORDER BY timestamp DESC",
+          )
+          .all(url),
+      ),
+    }));
+  }
+
+  /**
+   * Filters scans based on criteria
+   */
+  filter(criteria: HistoryFilter): StorageResult<ScanRecord[]> {
+    return toResult(() => {
+      const conditions: string[] = [];
+      const params: Array<string | number> = [];
+
+      if (criteria.url) {
+        conditions.push("instr(lower(url), lower(?)) > 0");
+        params.push(criteria.url);
+      }
+
+      if (criteria.mode) {
+        conditions.push("mode = ?");
+        params.push(criteria.mode);
+      }
+
+      if (criteria.dateFrom) {
+        conditions.push("timestamp >= ?");
+        params.push(toIsoDate(criteria.dateFrom, "dateFrom"));
+      }
+
+      if (criteria.dateTo) {
+        conditions.push("timestamp <= ?");
+        params.push(toIsoDate(criteria.dateTo, "dateTo"));
+      }
+
+      if (criteria.minViolations !== undefined) {
+        conditions.push("total_violations >= ?");
+        params.push(criteria.minViolations);
+      }
+
+      if (criteria.maxViolations !== undefined) {
+        conditions.push("total_violations <= ?");
+        params.push(criteria.maxViolations);
+      }
+
+      const where =
+        conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      return {
+        success: true,
+        data: this.rowsToRecords(
+          this.db
+            .prepare(
+              `SELECT record FROM scans ${where} ORDER BY timestamp DESC`,
+            )
+            .all(...params),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Adds a new scan to history
+   */
+  add(input: NewScanRecord): StorageResult<ScanRecord> {
+    return toResult(() => {
+      const scan = createScanRecord({
+        ...input,
+        label: input.label ? sanitizeLabel(input.label) : undefined,
+      });
+
+      this.db
+        .prepare(
+          `INSERT INTO scans (id, url, mode, timestamp, label, total_violations, record)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          scan.id,
+          scan.url,
+          scan.mode,
+          scan.timestamp,
+          scan.label ?? null,
+          scan.metadata.totalViolations,
+          JSON.stringify(scan),
+        );
+
+      return { success: true, data: scan };
+    });
+  }
+
+  /**
+   * Deletes a scan by ID
+   */
+  delete(id: string): StorageResult<void> {
+    return toResult(() => {
+      const { changes } = this.db
+        .prepare("DELETE FROM scans WHERE id = ?")
+        .run(id);
+      return changes > 0 ? { success: true } : notFound(id);
+    });
+  }
+
+  /**
+   * Clears all scan history
+   */
+  clear(): StorageResult<void> {
+    return toResult(() => {
+      this.db.prepare("DELETE FROM scans").run();
+      return { success: true };
+    });
+  }
+
+  /**
+   * Updates a scan's label
+   */
+  updateLabel(id: string, label: string): StorageResult<ScanRecord> {
+    return toResult(() => {
+      const scan = this.findRecord(id);
+      if (!scan) {
+        return notFound(id);
+      }
+
+      scan.label = label ? sanitizeLabel(label) : undefined;
+      this.db
+        .prepare("UPDATE scans SET label = ?, record = ? WHERE id = ?")
+        .run(scan.label ?? null, JSON.stringify(scan), id);
+
+      return { success: true, data: scan };
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Store opened from HISTORY_DB_PATH
+ * Kept on globalThis so every route bundle (and dev hot reloads) share one
+ * connection
+ */
+const globalForHistory = globalThis as typeof globalThis & {
+  sqliteHistoryStore?: SqliteHistoryStore;
+};
+
+/**
+ * Returns the shared history store, or null when HISTORY_DB_PATH is unset
+ * (history then stays in each browser's own storage)
+ */
+export function getSqliteHistoryStore(): SqliteHistoryStore | null {
+  const filename = process.env.HISTORY_DB_PATH;
+  if (!filename) {
+    return null;
+  }
+
+  if (!globalForHistory.sqliteHistoryStore) {
+    globalForHistory.sqliteHistoryStore = new SqliteHistoryStore(
+      path.resolve(filename),
+    );
+  }
+
+  return globalForHistory.sqliteHistoryStore;
+}
@@ -0,0 +1,158 @@
+/**
+ * Token usage - Totals the usage_metadata models report on each agent turn
+ * and estimates what it cost
+ */
+
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { AgentRole } from "@/lib/llm-providers";
+import type { ScanUsage, TokenUsage } from "@/lib/types";
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * List prices for common models, matched by model name prefix (dated
+ * snapshots such as gpt-5-nano-2025-08-07 use their family's price).
+ * Override or extend with LLM_PRICING
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+};
+
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Adds two usage totals; the cost stays unknown only when both are unknown
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const usage: TokenUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+
+  if (a.estimatedCostUsd !== undefined || b.estimatedCostUsd !== undefined) {
+    usage.estimatedCostUsd =
+      (a.estimatedCostUsd ?? 0) + (b.estimatedCostUsd ?? 0);
+  }
+
+  return usage;
+}
+
+export function sumTokenUsage(
+  usages: Array<TokenUsage | undefined>,
+): TokenUsage {
+  return usages.reduce<TokenUsage>(
+    (total, usage) => (usage ? addTokenUsage(total, usage) : total),
+    emptyTokenUsage(),
+  );
+}
+
+/**
+ * Parses LLM_PRICING, a JSON object of model name prefix to
+ * { input, output } USD per million tokens
+ */
+function parsePricingOverrides(env: Env): Record<string, ModelPricing> {
+  if (!env.LLM_PRICING) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(env.LLM_PRICING) as Record<string, ModelPricing>;
+  } catch {
+    console.warn("Ignoring LLM_PRICING: not valid JSON");
+    return {};
+  }
+}
+
+/**
+ * Finds the price for a model, preferring the longest matching prefix
+ * @param model Model name as reported by the provider
+ * @param env Environment variables (defaults to process.env)
+ * @returns Pricing, or undefined for unknown (e.g. self-hosted) models
+ */
+export function findModelPricing(
+  model: string,
+  env: Env = process.env,
+): ModelPricing | undefined {
+  const pricing = { ...MODEL_PRICING, ...parsePricingOverrides(env) };
+  const name = model.toLowerCase();
+  const prefix = Object.keys(pricing)
+    .filter((key) => name.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? pricing[prefix] : undefined;
+}
+
+function messageModel(message: AIMessage): string | undefined {
+  const metadata = message.response_metadata ?? {};
+  const model = metadata.model_name ?? metadata.model;
+  return typeof model === "string" ? model : undefined;
+}
+
+/**
+ * Totals token usage over an agent run's messages
+ * @param messages Messages returned by agent.invoke
+ * @param env Environment variables (defaults to process.env)
+ * @returns Token totals with the estimated cost of the priced turns
+ */
+export function getTokenUsage(
+  messages: BaseMessage[],
+  env: Env = process.env,
+): TokenUsage {
+  return sumTokenUsage(
+    messages.map((message) => {
+      if (!AIMessage.isInstance(message) || !message.usage_metadata) {
+        return undefined;
+      }
+
+      const { input_tokens, output_tokens, total_tokens } =
+        message.usage_metadata;
+      const model = messageModel(message);
+      const pricing = model ? findModelPricing(model, env) : undefined;
+
+      return {
+        inputTokens: input_tokens,
+        outputTokens: output_tokens,
+        totalTokens: total_tokens,
+        estimatedCostUsd: pricing
+          ? (input_tokens * pricing.input + output_tokens * pricing.output) /
+            1_000_000
+          : undefined,
+      };
+    }),
+  );
+}
+
+/**
+ * Builds a scan's usage summary from each agent's totals
+ * @param byAgent Totals per agent role
+ * @param byPage Page scanner totals per URL
+ */
+export function buildScanUsage(
+  byAgent: Partial<Record<AgentRole, TokenUsage>>,
+  byPage: ScanUsage["byPage"] = [],
+): ScanUsage {
+  return {
+    ...sumTokenUsage(Object.values(byAgent)),
+    byAgent,
+    byPage,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Trend Analysis - Turns the scan history of a URL or site into a time series
+ * of violation counts and quality scores
+ */
+
+import { calculateQualityScore, normalizePageUrl } from "./comparison-engine";
+import type { ScanMetadata, ScanRecord } from "./history-types";
+
+/** Whether a trend follows one URL or every scan on the same origin */
+export type TrendScope = "url" | "site";
+
+/** Scores within this many points count as unchanged */
+const STABLE_SCORE_DELTA = 2;
+
+export interface TrendPoint {
+  scanId: string;
+  timestamp: string;
+  url: string;
+  /** Scan label, shown as an annotation on the charts */
+  label?: string;
+  totalViolations: number;
+  violationsBySeverity: ScanMetadata["violationsBySeverity"];
+  /** calculateQualityScore() of the scan (0-100) */
+  qualityScore: number;
+}
+
+export interface TrendSummary {
+  first: TrendPoint;
+  latest: TrendPoint;
+  /** Latest minus first total (negative = fewer violations) */
+  violationChange: number;
+  /** Latest minus first quality score (positive = improvement) */
+  scoreChange: number;
+  direction: "improving" | "regressing" | "stable";
+}
+
+export interface ScanTrend {
+  /** Normalized URL, or origin for site trends */
+  target: string;
+  scope: TrendScope;
+  /** Oldest scan first */
+  points: TrendPoint[];
+  /** Null until there are at least two scans */
+  summary: TrendSummary | null;
+}
+
+/**
+ * Returns the key scans are grouped by for a trend
+ * @param url Any URL of the site or page
+ * @param scope Trend scope
+ */
+export function getTrendTarget(url: string, scope: TrendScope): string {
+  if (scope === "url") {
+    return normalizePageUrl(url);
+  }
+
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return normalizePageUrl(url);
+  }
+}
+
+function toTrendPoint(record: ScanRecord): TrendPoint {
+  return {
+    scanId: record.id,
+    timestamp: record.timestamp,
+    url: record.url,
+    label: record.label,
+    totalViolations: record.metadata.totalViolations,
+    violationsBySeverity: record.metadata.violationsBySeverity,
+    qualityScore: calculateQualityScore(record),
+  };
+}
+
+/**
+ * Summarizes how a trend moved between its first and latest scan
+ * @param points Trend points, oldest first
+ * @returns Summary, or null with fewer than two points
+ */
+export function summarizeTrend(points: TrendPoint[]): TrendSummary | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const first = points[0];
+  const latest = points[points.length - 1];
+  const violationChange = latest.totalViolations - first.totalViolations;
+  const scoreChange = latest.qualityScore - first.qualityScore;
+
+  let direction: TrendSummary["direction"] = "stable";
+  if (scoreChange > STABLE_SCORE_DELTA) {
+    direction = "improving";
+  } else if (scoreChange < -STABLE_SCORE_DELTA) {
+    direction = "regressing";
+  } else if (violationChange !== 0) {
+    direction = violationChange < 0 ? "improving" : "regressing";
+  }
+
+  return { first, latest, violationChange, scoreChange, direction };
+}
+
+/**
+ * Builds the trend of a URL or site from scan history. Scans of other
+ * targets are ignored, so the whole history can be passed in
+ * @param scans Scan records, in any order
+ * @param url URL to follow (any page of the site for site trends)
+ * @param scope Follow the exact URL or the whole origin
+ */
+export function buildScanTrend(
+  scans: ScanRecord[],
+  url: string,
+  scope: TrendScope = "url",
+): ScanTrend {
+  const target = getTrendTarget(url, scope);
+  const points = scans
+    .filter((scan) => getTrendTarget(scan.url, scope) === target)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(toTrendPoint);
+
+  return { target, scope, points, summary: summarizeTrend(points) };
+}
+
+/**
+ * Describes a trend in one sentence, e.g. for sharing progress
+ * @param trend Scan trend
+ */
+export function getTrendSummaryText(trend: ScanTrend): string {
+  const { summary, points } = trend;
+  if (!summary) {
+    return points.length === 1
+      ? "Only one scan so far. Run another scan to see a trend."
+      : "No scans recorded yet.";
+  }
+
+  const violations =
+    summary.violationChange === 0
+      ? "the same number of violations"
+      : `${Math.abs(summary.violationChange)} ${summary.violationChange < 0 ? "fewer" : "more"} violation(s)`;
+  const score =
+    summary.scoreChange === 0
+      ? "an unchanged quality score"
+      : `a quality score ${summary.scoreChange > 0 ? "up" : "down"} ${Math.abs(summary.scoreChange)} point(s)`;
+
+  return `${points.length} scans: ${violations} and ${score} since the first scan (${summary.direction}).`;
+}
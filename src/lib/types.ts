@@ -1,6 +1,205 @@
+import type { PageFindings, WaivedViolation } from "@/lib/findings-types";
+import type {
+  JourneyCheckpointRecord,
+  PageResultRecord,
+} from "@/lib/history-types";
+import type { AgentRole } from "@/lib/llm-providers";
+import type {
+  MultiAgentScanResult,
+  PageScanResult,
+  PageScanStatus,
+} from "@/lib/multi-agent-types";
+
+/**
+ * single: one page; exploration: pages found by discovery;
+ * list: the pages given in ScanRequest.urls;
+ * journey: the interaction steps in ScanRequest.journey
+ */
+export type ScanMode = "single" | "exploration" | "list" | "journey";
+
+/** Which hosts an exploration crawl may follow links to */
+export type CrawlScope = "same-origin" | "subdomains";
+
+/** Exploration crawl limits (see DEFAULT_CRAWL_OPTIONS for defaults) */
+export interface CrawlOptions {
+  /** Maximum number of pages to scan */
+  maxPages?: number;
+  /** Link hops from the start URL; 1 only follows links on the start page */
+  maxDepth?: number;
+  scope?: CrawlScope;
+}
+
+/**
+ * How exploration scans find pages: the LLM Discovery Agent, or
+ * robots.txt + sitemap.xml without an LLM call
+ */
+export type DiscoveryStrategy = "agent" | "sitemap";
+
+/** Time budgets in milliseconds for each agent invocation */
+export interface ScanTimeouts {
+  discoveryMs?: number;
+  /** Per attempt; retries get a fresh budget */
+  pageScanMs?: number;
+  summarizerMs?: number;
+  singleScanMs?: number;
+}
+
+/** Maximum LangGraph steps for each agent invocation */
+export interface ScanRecursionLimits {
+  discovery?: number;
+  pageScan?: number;
+  summarizer?: number;
+  singleScan?: number;
+}
+
+export interface ScanRetryPolicy {
+  /** Attempts per page before it is reported as failed */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs?: number;
+}
+
+/** Scan tuning (see DEFAULT_SCAN_OPTIONS for defaults and SCAN_OPTION_LIMITS) */
+export interface ScanOptions {
+  /** Pages scanned in parallel */
+  concurrency?: number;
+  timeouts?: ScanTimeouts;
+  recursionLimits?: ScanRecursionLimits;
+  retry?: ScanRetryPolicy;
+}
+
+/** How scan-auth.ts decides that a login worked; every given check must pass */
+export interface LoginSuccessCheck {
+  /** Text shown on the page after logging in */
+  text?: string;
+  /** Part of the URL the login redirects to */
+  urlIncludes?: string;
+}
+
+/**
+ * Login recipe run in the shared browser before page scans. Selectors are
+ * matched against browser_snapshot output (e.g. `textbox "Email"`) to find
+ * the element ref; a selector that matches nothing is sent as the ref itself
+ */
+export interface ScanAuthentication {
+  /** Page with the login form */
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  /** Server environment variables holding the credentials (SCAN_AUTH_*) */
+  usernameEnv: string;
+  passwordEnv: string;
+  successCheck: LoginSuccessCheck;
+}
+
+/** Cookie added to the scan's browser before the first page loads */
+export interface ScanCookie {
+  name: string;
+  value: string;
+  /** Defaults to the scanned URL's host */
+  domain?: string;
+  /** Defaults to "/" */
+  path?: string;
+  /** Defaults to true for https scan URLs */
+  secure?: boolean;
+  httpOnly?: boolean;
+  /** Defaults to "Lax" */
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/** Browser session settings for every page a scan opens */
+export interface ScanBrowserOptions {
+  cookies?: ScanCookie[];
+  /** Extra HTTP headers sent to the scanned origin (e.g. Authorization) */
+  headers?: Record<string, string>;
+  userAgent?: string;
+}
+
+/**
+ * One interaction in a journey. Targets describe an element the way
+ * browser_snapshot shows it, e.g. `button "Add to cart"`
+ */
+export type JourneyStep =
+  | { action: "navigate"; url: string }
+  | { action: "click"; target: string }
+  | { action: "fill"; target: string; value: string }
+  /** Waits for text to appear, or for a number of seconds */
+  | { action: "wait"; text?: string; seconds?: number }
+  /** Checkpoint: runs scan_page on the page as it is at this point */
+  | { action: "scan"; name: string };
+
+/** Ordered steps the journey agent performs after opening the scan URL */
+export interface ScanJourney {
+  name?: string;
+  steps: JourneyStep[];
+}
+
+/**
+ * Accepted risk or false positive. A violation is waived when it matches
+ * every matcher the rule sets (at least one is required)
+ */
+export interface WaiverRule {
+  /** Optional reference shown in the report, e.g. a ticket number */
+  id?: string;
+  /** Scanner rule id, e.g. "color-contrast" */
+  ruleId?: string;
+  /** WCAG success criterion, e.g. "1.4.3" */
+  wcagCriterion?: string;
+  /** Page URL; `*` matches any characters, e.g. "https://example.com/blog/*" */
+  urlPattern?: string;
+  /** Element selector (frames joined with " >>> "); `*` is a wildcard */
+  selector?: string;
+  /** Why the violation is accepted */
+  justification: string;
+  /** Person or team responsible for the waiver */
+  owner: string;
+  /** Last day the waiver applies (YYYY-MM-DD, inclusive) */
+  expires: string;
+}
+
 export interface ScanRequest {
+  /** Page to scan, or the site the scan reports on (list mode) */
   url: string;
-  mode: "single" | "exploration";
+  mode: ScanMode;
+  /** Pages to scan in list mode, in order */
+  urls?: string[];
+  crawl?: CrawlOptions;
+  /** Defaults to "agent" */
+  discoveryStrategy?: DiscoveryStrategy;
+  /** Concurrency, timeouts, recursion limits and retries */
+  options?: ScanOptions;
+  /** Logs in before each page scan (pages behind a login) */
+  authentication?: ScanAuthentication;
+  /** Cookies, headers and user agent for the scan's browser session */
+  browser?: ScanBrowserOptions;
+  /** Steps and checkpoints to run in journey mode */
+  journey?: ScanJourney;
+  /** Violations to exclude from counts and list separately as waived */
+  waivers?: WaiverRule[];
+}
+
+/** Scan settings beyond the URL and mode */
+export type ScanRequestOptions = Omit<ScanRequest, "url" | "mode">;
+
+/** Tokens reported by the model provider for one or more agent runs */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /**
+   * Estimated cost in USD from the model pricing table (see token-usage.ts);
+   * absent when none of the models used has a known price
+   */
+  estimatedCostUsd?: number;
+}
+
+/** Token usage and cost of a whole scan */
+export interface ScanUsage extends TokenUsage {
+  /** Totals per agent role */
+  byAgent: Partial<Record<AgentRole, TokenUsage>>;
+  /** Page scanner usage per URL (attempts that failed report no usage) */
+  byPage: Array<TokenUsage & { url: string }>;
 }
 
 export interface ScanResponseMetadata {
@@ -22,6 +221,12 @@ export interface ScanResponseMetadata {
   };
   /** WCAG level achieved */
   wcagLevel?: "A" | "AA" | "AAA" | "none";
+  /** Pages that failed or timed out after all retries */
+  failedPages?: Array<{ url: string; error: string }>;
+  /** Tokens used and estimated cost across every agent */
+  usage?: ScanUsage;
+  /** Violations excluded from the counts by a waiver */
+  waivedViolations?: number;
 }
 
 export interface ScanResponse {
@@ -29,4 +234,72 @@ export interface ScanResponse {
   data: string;
   error?: string;
   metadata?: ScanResponseMetadata;
+  /** Structured findings per scanned page, parsed from scan_page output */
+  findings?: PageFindings[];
+  /** Per-page reports (list mode) */
+  pageResults?: PageResultRecord[];
+  /** Findings per checkpoint (journey mode) */
+  checkpoints?: JourneyCheckpointRecord[];
+  /** Violations matched by a waiver, with the waiver that matched */
+  waived?: WaivedViolation[];
+}
+
+/** Progress events emitted while a scan runs (streamed to the client) */
+export type ScanProgressEvent =
+  | {
+      type: "discovery_complete";
+      discoveredUrls: string[];
+      totalPages: number;
+    }
+  | {
+      type: "page_scan_started";
+      url: string;
+      index: number;
+      totalPages: number;
+    }
+  | {
+      type: "page_scan_finished";
+      url: string;
+      index: number;
+      totalPages: number;
+      violations: number;
+      /** Absent means the page was scanned successfully */
+      status?: PageScanStatus;
+    }
+  | { type: "summarizer_started"; pagesScanned: number }
+  | { type: "report"; response: ScanResponse }
+  | { type: "error"; error: string };
+
+export type ScanProgressListener = (event: ScanProgressEvent) => void;
+
+export type ScanJobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  /** Running in no process that can be reached; reported, never stored */
+  | "interrupted";
+
+/** Background scan tracked by the job store (see /api/scans) */
+export interface ScanJob {
+  id: string;
+  request: ScanRequest;
+  status: ScanJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Progress events received so far (excluding the final report) */
+  events: ScanProgressEvent[];
+  /** Page results available before the whole scan finishes */
+  pageResults: PageScanResult[];
+  /** Final API payload once the job succeeds */
+  result?: ScanResponse;
+  /** Raw orchestrator output for exploration scans */
+  multiAgentResult?: MultiAgentScanResult;
+  error?: string;
+  /**
+   * Set once a cancel was requested from a process that does not run the
+   * job; the status turns "cancelled" when the running process picks it up
+   */
+  cancelRequested?: boolean;
 }
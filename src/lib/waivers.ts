@@ -0,0 +1,262 @@
+/**
+ * Waivers - Accepted risks and false positives (e.g. third-party widgets),
+ * applied after scanning so waived violations leave the counts but stay
+ * listed in the report
+ */
+
+import { normalizeSelector } from "@/lib/comparison-engine";
+import type {
+  PageFindings,
+  Violation,
+  WaivedViolation,
+} from "@/lib/findings-types";
+import type { WaiverRule } from "@/lib/types";
+
+/** Maximum number of waiver rules accepted per scan */
+export const MAX_WAIVERS = 200;
+
+const MATCHERS = ["ruleId", "wcagCriterion", "urlPattern", "selector"] as const;
+
+const EXPIRY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface WaiverResult {
+  /** Findings without the waived violations (same page order) */
+  findings: PageFindings[];
+  waived: WaivedViolation[];
+  /** Rules past their expiry date, which were not applied */
+  expired: WaiverRule[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function validateWaiver(waiver: unknown, index: number): string | null {
+  const field = `waivers[${index}]`;
+
+  if (typeof waiver !== "object" || waiver === null) {
+    return `${field} must be an object`;
+  }
+
+  const rule = waiver as Record<string, unknown>;
+  const matchers = MATCHERS.filter((matcher) => rule[matcher] !== undefined);
+  if (matchers.length === 0) {
+    return `${field} needs at least one of ${MATCHERS.join(", ")}`;
+  }
+
+  const invalid = matchers.find((matcher) => !isNonEmptyString(rule[matcher]));
+  if (invalid) {
+    return `${field}.${invalid} must be a non-empty string`;
+  }
+
+  if (rule.id !== undefined && !isNonEmptyString(rule.id)) {
+    return `${field}.id must be a non-empty string`;
+  }
+  if (!isNonEmptyString(rule.justification)) {
+    return `${field}.justification must be a non-empty string`;
+  }
+  if (!isNonEmptyString(rule.owner)) {
+    return `${field}.owner must be a non-empty string`;
+  }
+
+  const { expires } = rule;
+  return typeof expires === "string" &&
+    EXPIRY_PATTERN.test(expires) &&
+    !Number.isNaN(Date.parse(expires))
+    ? null
+    : `${field}.expires must be a date (YYYY-MM-DD)`;
+}
+
+/**
+ * Validates the waivers of a scan request
+ * @param waivers Value of the request's `waivers` field
+ * @returns Error message, or null when the waivers are valid or absent
+ */
+export function validateWaivers(waivers: unknown): string | null {
+  if (waivers === undefined) {
+    return null;
+  }
+
+  if (!Array.isArray(waivers)) {
+    return "waivers must be an array";
+  }
+
+  if (waivers.length > MAX_WAIVERS) {
+    return `waivers accepts at most ${MAX_WAIVERS} rules`;
+  }
+
+  for (const [index, waiver] of waivers.entries()) {
+    const error = validateWaiver(waiver, index);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Matches a whole string against a pattern where `*` stands for any
+ * characters
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Whether a waiver rule covers a violation; every matcher the rule sets
+ * must match
+ * @param violation Violation to check
+ * @param rule Waiver rule
+ */
+export function matchesWaiver(violation: Violation, rule: WaiverRule): boolean {
+  if (rule.ruleId !== undefined && rule.ruleId !== violation.ruleId) {
+    return false;
+  }
+
+  if (
+    rule.wcagCriterion !== undefined &&
+    !violation.wcagCriteria.includes(rule.wcagCriterion)
+  ) {
+    return false;
+  }
+
+  if (
+    rule.urlPattern !== undefined &&
+    !matchesPattern(violation.pageUrl, rule.urlPattern)
+  ) {
+    return false;
+  }
+
+  if (rule.selector !== undefined) {
+    const selector = violation.selectors.map(normalizeSelector).join(" >>> ");
+    const pattern = rule.selector
+      .split(">>>")
+      .map(normalizeSelector)
+      .join(" >>> ");
+    return matchesPattern(selector, pattern);
+  }
+
+  return true;
+}
+
+/**
+ * Whether a waiver still applies on the given day
+ * @param rule Waiver rule
+ * @param now Current time
+ */
+export function isWaiverActive(rule: WaiverRule, now = new Date()): boolean {
+  return rule.expires >= now.toISOString().slice(0, 10);
+}
+
+/**
+ * Removes waived violations from scan findings. The first active rule that
+ * matches a violation waives it; expired rules are reported, not applied
+ * @param findings Findings per page
+ * @param rules Waiver rules
+ * @param now Current time (for expiry)
+ */
+export function applyWaivers(
+  findings: PageFindings[],
+  rules: WaiverRule[],
+  now = new Date(),
+): WaiverResult {
+  const active = rules.filter((rule) => isWaiverActive(rule, now));
+  const waived: WaivedViolation[] = [];
+
+  const remaining = findings.map((page) => ({
+    ...page,
+    violations: page.violations.filter((violation) => {
+      const rule = active.find((candidate) =>
+        matchesWaiver(violation, candidate),
+      );
+      if (!rule) {
+        return true;
+      }
+
+      waived.push({
+        ...violation,
+        waiver: {
+          id: rule.id,
+          justification: rule.justification,
+          owner: rule.owner,
+          expires: rule.expires,
+        },
+      });
+      return false;
+    }),
+  }));
+
+  return {
+    findings: remaining,
+    waived,
+    expired: rules.filter((rule) => !active.includes(rule)),
+  };
+}
+
+function tableCell(value: string): string {
+  return value.replaceAll("|", "\\|").replace(/\s+/g, " ");
+}
+
+/**
+ * Formats the "Waived Issues" report section
+ * @param waived Waived violations
+ * @param expired Expired waiver rules
+ */
+export function formatWaivedSection(
+  waived: WaivedViolation[],
+  expired: WaiverRule[],
+): string {
+  const lines = [
+    "## Waived Issues",
+    "",
+    waived.length > 0
+      ? `${waived.length} violation(s) matched a waiver and are not included in the totals.`
+      : "No violations matched a waiver.",
+  ];
+
+  if (waived.length > 0) {
+    lines.push(
+      "",
+      "| Rule | Impact | Page | Element | Justification | Owner | Expires |",
+      "| --- | --- | --- | --- | --- | --- | --- |",
+      ...waived.map((violation) =>
+        [
+          "",
+          tableCell(violation.ruleId),
+          violation.impact,
+          tableCell(violation.pageUrl),
+          `\`${tableCell(violation.selectors.join(" >>> "))}\``,
+          tableCell(
+            violation.waiver.id
+              ? `${violation.waiver.justification} (${violation.waiver.id})`
+              : violation.waiver.justification,
+          ),
+          tableCell(violation.waiver.owner),
+          violation.waiver.expires,
+          "",
+        ]
+          .join(" | ")
+          .trim(),
+      ),
+    );
+  }
+
+  if (expired.length > 0) {
+    lines.push(
+      "",
+      `**Expired waivers (not applied):** ${expired
+        .map(
+          (rule) =>
+            `${rule.id ?? rule.ruleId ?? rule.wcagCriterion ?? rule.urlPattern ?? rule.selector} (${rule.owner}, expired ${rule.expires})`,
+        )
+        .join("; ")}`,
+    );
+  }
+
+  return lines.join("\n");
+}